@@ -16,6 +16,27 @@ import { StartProjectTool } from '../src/tools/start-project.js';
 import { ListProjectsTool } from '../src/tools/list-projects.js';
 import { ListTasksTool } from '../src/tools/list-tasks.js';
 import { NextTaskTool } from '../src/tools/next-task.js';
+import { CreateTaskTool } from '../src/tools/create-task.js';
+import { AddTaskCommentTool } from '../src/tools/add-task-comment.js';
+import { ListTaskCommentsTool } from '../src/tools/list-task-comments.js';
+import { SearchTasksTool } from '../src/tools/search-tasks.js';
+import { BulkUpdateTasksTool } from '../src/tools/bulk-update-tasks.js';
+import { SetTaskDependenciesTool } from '../src/tools/set-task-dependencies.js';
+import { ArchiveTaskTool } from '../src/tools/archive-task.js';
+import { DeleteTaskTool } from '../src/tools/delete-task.js';
+import { AddChecklistItemsTool } from '../src/tools/add-checklist-items.js';
+import { TickChecklistItemTool } from '../src/tools/tick-checklist-item.js';
+import { ListChecklistTool } from '../src/tools/list-checklist.js';
+import { CreateProjectTool } from '../src/tools/create-project.js';
+import { GetProjectStandardsTool } from '../src/tools/get-project-standards.js';
+import { UpdateProjectStandardsTool } from '../src/tools/update-project-standards.js';
+import { ProjectProgressTool } from '../src/tools/project-progress.js';
+import { ListProjectVersionsTool } from '../src/tools/list-project-versions.js';
+import { DiffProjectVersionsTool } from '../src/tools/diff-project-versions.js';
+import { RestoreProjectVersionTool } from '../src/tools/restore-project-version.js';
+import { ExportProjectTool } from '../src/tools/export-project.js';
+import { ImportTasksTool } from '../src/tools/import-tasks.js';
+import { GetWorkContextTool } from '../src/tools/get-work-context.js';
 
 // Initialize tools (without API client since we're just inspecting metadata)
 const tools = [
@@ -28,6 +49,27 @@ const tools = [
   new ListProjectsTool(),
   new ListTasksTool(),
   new NextTaskTool(),
+  new CreateTaskTool(),
+  new AddTaskCommentTool(),
+  new ListTaskCommentsTool(),
+  new SearchTasksTool(),
+  new BulkUpdateTasksTool(),
+  new SetTaskDependenciesTool(),
+  new ArchiveTaskTool(),
+  new DeleteTaskTool(),
+  new AddChecklistItemsTool(),
+  new TickChecklistItemTool(),
+  new ListChecklistTool(),
+  new CreateProjectTool(),
+  new GetProjectStandardsTool(),
+  new UpdateProjectStandardsTool(),
+  new ProjectProgressTool(),
+  new ListProjectVersionsTool(),
+  new DiffProjectVersionsTool(),
+  new RestoreProjectVersionTool(),
+  new ExportProjectTool(),
+  new ImportTasksTool(),
+  new GetWorkContextTool(),
 ];
 
 /**
@@ -3,12 +3,16 @@
  * CodeRide MCP CLI Entry Point
  *
  * Usage:
- *   npx @coderide/mcp add     - Run the installation wizard
- *   npx @coderide/mcp server  - Start the MCP server (default)
- *   npx @coderide/mcp         - Start the MCP server
+ *   npx @coderide/mcp add           - Run the installation wizard
+ *   npx @coderide/mcp server        - Start the MCP server (default)
+ *   npx @coderide/mcp export <slug> - Export a project as Markdown files
+ *   npx @coderide/mcp import <slug> <file> - Create tasks from a Markdown or YAML plan
+ *   npx @coderide/mcp               - Start the MCP server
  */
 import { Command } from 'commander';
 import { runWizard } from './wizard/index.js';
+import type { BaseTool } from './utils/base-tool.js';
+import type { SecureApiClient } from './utils/secure-api-client.js';
 
 const program = new Command();
 
@@ -39,4 +43,80 @@ program
     await startServer();
   });
 
+program
+  .command('export <slug>')
+  .description('Export a project as a directory of Markdown files (requires CODERIDE_API_KEY)')
+  .option('-o, --out <directory>', 'Directory to write the export to (default ./coderide-<slug>)')
+  .option('--no-prompts', 'Do not fetch task prompts')
+  .action(async (slug, options) => {
+    const { ExportProjectTool } = await import('./tools/export-project.js');
+    const tool = new ExportProjectTool(await createCliApiClient());
+    await runToolCommand(tool, {
+      slug,
+      ...(options.out && { directory: options.out }),
+      // Commander exposes --no-prompts as options.prompts === false
+      ...(options.prompts === false && { include_prompts: false })
+    });
+  });
+
+program
+  .command('import <slug> <file>')
+  .description('Create tasks from a Markdown or YAML plan (requires CODERIDE_API_KEY)')
+  .option('--dry-run', 'Show the tasks and numbers that would be created without creating them')
+  .option('--format <format>', 'Plan format: markdown or yaml (default from the file extension)')
+  .action(async (slug, file, options) => {
+    const { readFile } = await import('fs/promises');
+    let content: string;
+    try {
+      content = await readFile(file, 'utf-8');
+    } catch (error) {
+      console.error(`Cannot read plan file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const format = options.format || (/\.ya?ml$/i.test(file) ? 'yaml' : /\.(md|markdown)$/i.test(file) ? 'markdown' : undefined);
+    const { ImportTasksTool } = await import('./tools/import-tasks.js');
+    const tool = new ImportTasksTool(await createCliApiClient());
+    await runToolCommand(tool, {
+      slug,
+      content,
+      ...(format && { format }),
+      ...(options.dryRun === true && { dry_run: true })
+    });
+  });
+
+/**
+ * Create an API client from CODERIDE_API_KEY for commands that call the CodeRide API
+ */
+async function createCliApiClient(): Promise<SecureApiClient> {
+  const { createLegacyConfig, isProductionMode } = await import('./utils/env.js');
+  const { createSecureApiClient } = await import('./utils/secure-api-client.js');
+
+  const config = createLegacyConfig();
+  if (!isProductionMode(config)) {
+    console.error('Set CODERIDE_API_KEY to your CodeRide API key (CR_API_KEY_...) to use this command.');
+    process.exit(1);
+  }
+  return createSecureApiClient(config);
+}
+
+/**
+ * Validate and run a tool, printing its summary (or full result) and setting the exit code on errors
+ */
+async function runToolCommand(tool: BaseTool<any>, input: Record<string, unknown>): Promise<void> {
+  try {
+    const result: any = await tool.execute(await tool.validateInput(input));
+    if (result?.isError) {
+      console.error(result.content?.[0]?.text || 'Command failed');
+      process.exitCode = 1;
+      return;
+    }
+    console.log(result?.summary || JSON.stringify(result, null, 2));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exitCode = 1;
+  }
+}
+
 program.parse();
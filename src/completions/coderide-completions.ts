@@ -0,0 +1,218 @@
+/**
+ * CodeRide Completions
+ *
+ * Implements completion/complete for the `slug` and `number` arguments of the CodeRide prompts and
+ * resource templates. Suggestions come from list_projects and list_tasks and are cached briefly so
+ * that completing while typing does not send a request per keystroke.
+ * Completion values can only be the argument values themselves, so task titles are sent in _meta.
+ */
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CompleteRequestSchema, CompleteResult } from '@modelcontextprotocol/sdk/types.js';
+import { SecureApiClient } from '../utils/secure-api-client.js';
+import { ListProjectsTool } from '../tools/list-projects.js';
+import { ListTasksTool } from '../tools/list-tasks.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * How long project and task lists are reused, in milliseconds
+ */
+const CACHE_TTL_MS = 30000;
+
+/**
+ * Maximum number of values in a completion result (MCP limit)
+ */
+const MAX_VALUES = 100;
+
+/**
+ * _meta key of the task titles that belong to suggested task numbers
+ */
+export const TASK_TITLES_META_KEY = 'ai.coderide/taskTitles';
+
+/**
+ * Task suggestion source
+ */
+interface TaskEntry {
+  number: string;
+  title: string;
+  status: string;
+}
+
+/**
+ * Suggested argument value, with the task title for task numbers
+ */
+interface Suggestion {
+  value: string;
+  title?: string;
+}
+
+/**
+ * Cached value; the promise is stored so that concurrent completions share one request
+ */
+interface CacheEntry<T> {
+  expiresAt: number;
+  value: Promise<T>;
+}
+
+/**
+ * Completion provider backed by the CodeRide API
+ */
+export class CodeRideCompletions {
+  private readonly listProjectsTool: ListProjectsTool;
+  private readonly listTasksTool: ListTasksTool;
+  private readonly cache = new Map<string, CacheEntry<any>>();
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(apiClient: SecureApiClient) {
+    this.listProjectsTool = new ListProjectsTool(apiClient);
+    this.listTasksTool = new ListTasksTool(apiClient);
+  }
+
+  /**
+   * Register the completion/complete handler.
+   * The server must declare the `completions` capability.
+   */
+  register(server: Server): void {
+    server.setRequestHandler(CompleteRequestSchema, async (request) => {
+      const { ref, argument } = request.params;
+      // Only CodeRide resource templates; prompts are all CodeRide prompts
+      if (ref.type === 'ref/resource' && !ref.uri.startsWith('coderide://')) {
+        return this.result([]);
+      }
+      return this.complete(argument.name, argument.value);
+    });
+  }
+
+  /**
+   * Complete an argument value. Unknown arguments and API failures yield no suggestions.
+   */
+  async complete(argumentName: string, value: string): Promise<CompleteResult> {
+    try {
+      switch (argumentName) {
+        case 'slug':
+          return this.result((await this.completeSlug(value)).map(slug => ({ value: slug })));
+        case 'number':
+          return this.result(await this.completeTaskNumber(value));
+        default:
+          return this.result([]);
+      }
+    } catch (error) {
+      logger.warn(`Completion of '${argumentName}' failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return this.result([]);
+    }
+  }
+
+  /**
+   * Project slugs starting with the typed prefix
+   */
+  private async completeSlug(value: string): Promise<string[]> {
+    const prefix = value.trim().toUpperCase();
+    return (await this.getSlugs()).filter(slug => slug.startsWith(prefix));
+  }
+
+  /**
+   * Task numbers for the typed value:
+   * - fewer than three letters: matching project slugs followed by '-', to narrow down the project
+   * - 'CRD', 'CRD-' or 'CRD-1': tasks of CRD whose number starts with the value
+   * - 'CRD-auth': tasks of CRD whose title contains 'auth'
+   * Open tasks come before done ones. Task suggestions carry their title.
+   */
+  private async completeTaskNumber(value: string): Promise<Suggestion[]> {
+    const typed = value.trim().toUpperCase();
+    const match = typed.match(/^([A-Z]{3})(?:-(.*))?$/);
+
+    if (!match) {
+      const slugs = await this.completeSlug(typed);
+      return /^[A-Z]{0,2}$/.test(typed) ? slugs.map(slug => ({ value: `${slug}-` })) : [];
+    }
+
+    const [, slug, rest = ''] = match;
+    if (!(await this.getSlugs()).includes(slug)) {
+      return [];
+    }
+
+    const tasks = await this.getTasks(slug);
+    const matching = /^\d*$/.test(rest)
+      ? tasks.filter(task => task.number.startsWith(`${slug}-${rest}`))
+      : tasks.filter(task => task.title.toLowerCase().includes(rest.toLowerCase()));
+
+    return matching
+      .sort((a, b) =>
+        Number(a.status === 'done') - Number(b.status === 'done') ||
+        parseInt(a.number.split('-')[1], 10) - parseInt(b.number.split('-')[1], 10)
+      )
+      .map(task => ({ value: task.number, title: task.title }));
+  }
+
+  /**
+   * Slugs of all projects the user can see (cached)
+   */
+  private getSlugs(): Promise<string[]> {
+    return this.cached('projects', async () => {
+      const result: any = await this.listProjectsTool.execute({});
+      if (result?.isError) {
+        throw new Error(result.content?.[0]?.text || 'Could not list projects');
+      }
+      return (result?.projects || [])
+        .map((project: any) => String(project.slug || '').toUpperCase())
+        .filter((slug: string) => slug)
+        .sort();
+    });
+  }
+
+  /**
+   * Tasks of a project (cached)
+   */
+  private getTasks(slug: string): Promise<TaskEntry[]> {
+    return this.cached(`tasks:${slug}`, async () => {
+      const result: any = await this.listTasksTool.execute({ slug, compact: true });
+      if (result?.isError) {
+        throw new Error(result.content?.[0]?.text || `Could not list tasks of ${slug}`);
+      }
+      return (result?.tasksByStatus || []).flatMap((column: any) =>
+        (column.tasks || []).map((task: any) => ({
+          number: String(task.number || '').toUpperCase(),
+          title: String(task.title || ''),
+          status: String(task.status || column.status || '')
+        }))
+      );
+    });
+  }
+
+  /**
+   * Return a cached value or load it. Failed loads are not cached.
+   */
+  private cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const now = Date.now();
+    const entry = this.cache.get(key);
+    if (entry && entry.expiresAt > now) {
+      return entry.value;
+    }
+
+    const value = load();
+    this.cache.set(key, { expiresAt: now + CACHE_TTL_MS, value });
+    value.catch(() => {
+      if (this.cache.get(key)?.value === value) {
+        this.cache.delete(key);
+      }
+    });
+    return value;
+  }
+
+  private result(suggestions: Suggestion[]): CompleteResult {
+    const returned = suggestions.slice(0, MAX_VALUES);
+    const titles = Object.fromEntries(
+      returned.filter(suggestion => suggestion.title).map(suggestion => [suggestion.value, suggestion.title])
+    );
+
+    return {
+      completion: {
+        values: returned.map(suggestion => suggestion.value),
+        total: suggestions.length,
+        hasMore: suggestions.length > MAX_VALUES
+      },
+      ...(Object.keys(titles).length > 0 && { _meta: { [TASK_TITLES_META_KEY]: titles } })
+    };
+  }
+}
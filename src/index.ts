@@ -17,7 +17,8 @@ import { logger } from './utils/logger.js';
 import { tokenSecurityManager } from './utils/token-security.js';
 import { BaseTool } from './utils/base-tool.js';
 import { createApiConfig, ApiConfig, isProductionMode } from './utils/env.js';
-import { createSecureApiClient } from './utils/secure-api-client.js';
+import { createSecureApiClient, SecureApiClient } from './utils/secure-api-client.js';
+import { StandardsChangeTracker } from './utils/project-standards.js';
 
 // Import tools
 import { GetTaskTool } from './tools/get-task.js';
@@ -30,12 +31,78 @@ import { StartProjectTool } from './tools/start-project.js';
 import { ListProjectsTool } from './tools/list-projects.js';
 import { ListTasksTool } from './tools/list-tasks.js';
 import { NextTaskTool } from './tools/next-task.js';
+import { CreateTaskTool } from './tools/create-task.js';
+import { AddTaskCommentTool } from './tools/add-task-comment.js';
+import { ListTaskCommentsTool } from './tools/list-task-comments.js';
+import { SearchTasksTool } from './tools/search-tasks.js';
+import { BulkUpdateTasksTool } from './tools/bulk-update-tasks.js';
+import { SetTaskDependenciesTool } from './tools/set-task-dependencies.js';
+import { ArchiveTaskTool } from './tools/archive-task.js';
+import { DeleteTaskTool } from './tools/delete-task.js';
+import { AddChecklistItemsTool } from './tools/add-checklist-items.js';
+import { TickChecklistItemTool } from './tools/tick-checklist-item.js';
+import { ListChecklistTool } from './tools/list-checklist.js';
+import { CreateProjectTool } from './tools/create-project.js';
+import { GetProjectStandardsTool } from './tools/get-project-standards.js';
+import { UpdateProjectStandardsTool } from './tools/update-project-standards.js';
+import { ProjectProgressTool } from './tools/project-progress.js';
+import { ListProjectVersionsTool } from './tools/list-project-versions.js';
+import { DiffProjectVersionsTool } from './tools/diff-project-versions.js';
+import { RestoreProjectVersionTool } from './tools/restore-project-version.js';
+import { ExportProjectTool } from './tools/export-project.js';
+import { ImportTasksTool } from './tools/import-tasks.js';
+import { GetWorkContextTool } from './tools/get-work-context.js';
+import { CodeRideResources } from './resources/coderide-resources.js';
+import { POLLING_RATE_LIMIT_ID, POLLING_REQUESTS_PER_MINUTE, ResourceSubscriptions } from './resources/resource-subscriptions.js';
+import { CodeRidePrompts } from './prompts/coderide-prompts.js';
+import { CodeRideCompletions } from './completions/coderide-completions.js';
 
 // Configuration schema for Smithery
 export const configSchema = z.object({
   CODERIDE_API_KEY: z.string().describe("CodeRide API key for authentication")
 });
 
+/**
+ * Instantiate every tool; without an API client the tools only provide their definitions
+ */
+function createTools(secureApiClient?: SecureApiClient): any[] {
+  // get_project, get_project_standards and get_work_context report standards changes within this server's session
+  const standardsTracker = new StandardsChangeTracker();
+
+  return [
+    new StartProjectTool(secureApiClient),
+    new GetPromptTool(secureApiClient),
+    new GetTaskTool(secureApiClient),
+    new GetProjectTool(secureApiClient, standardsTracker),
+    new UpdateTaskTool(secureApiClient),
+    new UpdateProjectTool(secureApiClient),
+    new ListProjectsTool(secureApiClient),
+    new ListTasksTool(secureApiClient),
+    new NextTaskTool(secureApiClient),
+    new CreateTaskTool(secureApiClient),
+    new AddTaskCommentTool(secureApiClient),
+    new ListTaskCommentsTool(secureApiClient),
+    new SearchTasksTool(secureApiClient),
+    new BulkUpdateTasksTool(secureApiClient),
+    new SetTaskDependenciesTool(secureApiClient),
+    new ArchiveTaskTool(secureApiClient),
+    new DeleteTaskTool(secureApiClient),
+    new AddChecklistItemsTool(secureApiClient),
+    new TickChecklistItemTool(secureApiClient),
+    new ListChecklistTool(secureApiClient),
+    new CreateProjectTool(secureApiClient),
+    new GetProjectStandardsTool(secureApiClient, standardsTracker),
+    new UpdateProjectStandardsTool(secureApiClient),
+    new ProjectProgressTool(secureApiClient),
+    new ListProjectVersionsTool(secureApiClient),
+    new DiffProjectVersionsTool(secureApiClient),
+    new RestoreProjectVersionTool(secureApiClient),
+    new ExportProjectTool(secureApiClient),
+    new ImportTasksTool(secureApiClient),
+    new GetWorkContextTool(secureApiClient, standardsTracker),
+  ];
+}
+
 /**
  * Create mock server for development/testing
  */
@@ -68,7 +135,8 @@ function createMockServer() {
       },
       handler: async (args: any) => ({
         project: { slug: args.slug, name: `CodeRide Project ${args.slug}` },
-        task: { number: `${args.slug}-1`, title: 'Initialize Project Architecture', prompt: 'Set up the foundational architecture and development environment for this CodeRide project. Review project requirements and establish coding standards.' }
+        task: { number: `${args.slug}-1`, title: 'Initialize Project Architecture', prompt: 'Set up the foundational architecture and development environment for this CodeRide project. Review project requirements and establish coding standards.' },
+        gitSetup: { status: 'existing', message: 'Mock mode: git repository not checked', actions: [] }
       })
     },
     {
@@ -127,53 +195,78 @@ function createMockServer() {
           architecture: 'microservices',
           patterns: ['dependency-injection', 'event-driven']
         },
-        projectDiagram: 'graph TD\n  A[AI Agent] --> B[Task Engine]\n  B --> C[CodeRide API]\n  C --> D[Project Management]\n  D --> E[Workflow Automation]'
+        projectDiagram: 'graph TD\n  A[AI Agent] --> B[Task Engine]\n  B --> C[CodeRide API]\n  C --> D[Project Management]\n  D --> E[Workflow Automation]',
+        projectStandards: { languages: ['TypeScript'], testing_requirements: 'Unit tests for new features' }
       })
     },
     {
       name: 'list_projects',
-      description: "Lists all projects in the user workspace. No input parameters required as the workspace is automatically determined from the API key authentication.",
-      inputSchema: { type: 'object', properties: {}, required: [] },
+      description: "Lists the projects you have access to, with optional filters for workspace (id or name), text query and project status, plus sorting by recent activity, name or slug.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          workspace: { type: 'string' },
+          query: { type: 'string' },
+          project_status: { type: 'string' },
+          sort: { type: 'string', enum: ['recent', 'name', 'slug'] },
+          limit: { type: 'integer', minimum: 1, maximum: 100 }
+        },
+        required: []
+      },
       handler: async () => ({
         projects: [
-          { id: '1', slug: 'CRD', name: 'CodeRide Core Platform', description: 'Main CodeRide platform development' },
-          { id: '2', slug: 'MCP', name: 'MCP Integration Suite', description: 'Model Context Protocol integration tools' },
-          { id: '3', slug: 'API', name: 'CodeRide API Gateway', description: 'Unified API gateway and authentication system' }
+          { id: '1', slug: 'CRD', name: 'CodeRide Core Platform', description: 'Main CodeRide platform development', status: 'active', updatedAt: '2025-01-12T10:00:00.000Z', workspace: { id: 'ws-1', name: 'CodeRide' } },
+          { id: '2', slug: 'MCP', name: 'MCP Integration Suite', description: 'Model Context Protocol integration tools', status: 'active', updatedAt: '2025-01-11T10:00:00.000Z', workspace: { id: 'ws-1', name: 'CodeRide' } },
+          { id: '3', slug: 'API', name: 'CodeRide API Gateway', description: 'Unified API gateway and authentication system', status: 'draft', updatedAt: '2025-01-10T10:00:00.000Z', workspace: { id: 'ws-1', name: 'CodeRide' } }
         ],
         totalCount: 3
       })
     },
     {
       name: 'list_tasks',
-      description: "Lists all tasks within a project using the project slug (e.g., 'CDB'). Returns tasks organized by status columns with their order and current status.",
+      description: "Lists tasks within a project using the project slug (e.g., 'CDB'), with optional status, priority and text filters, sorting, pagination and a compact mode. Returns tasks organized by status columns with their order and current status.",
       inputSchema: {
         type: 'object',
         properties: {
-          slug: { type: 'string', pattern: '^[A-Za-z]{3}$' }
+          slug: { type: 'string', pattern: '^[A-Za-z]{3}$' },
+          status: { type: 'string', enum: ['to-do', 'in-progress', 'done'] },
+          priority: { type: 'string', enum: ['low', 'medium', 'high'] },
+          query: { type: 'string' },
+          sort: { type: 'string', enum: ['number', 'priority', 'position', 'updated_at'] },
+          limit: { type: 'integer', minimum: 1, maximum: 200 },
+          cursor: { type: 'string' },
+          compact: { type: 'boolean' }
         },
         required: ['slug']
       },
       handler: async (args: any) => ({
         project: { slug: args.slug, name: `CodeRide ${args.slug} Platform` },
-        taskSummary: { totalTasks: 4 },
+        taskSummary: {
+          totalTasks: 4,
+          statusBreakdown: [
+            { status: 'to-do', count: 2 },
+            { status: 'in-progress', count: 1 },
+            { status: 'completed', count: 1 }
+          ]
+        },
         tasksByStatus: [
           {
             status: 'to-do',
             tasks: [
-              { number: `${args.slug}-1`, title: 'Initialize Project Architecture', status: 'to-do' },
-              { number: `${args.slug}-2`, title: 'Implement Core API Endpoints', status: 'to-do' }
+              { number: `${args.slug}-1`, title: 'Initialize Project Architecture', status: 'to-do', hasContext: true, hasInstructions: true },
+              { number: `${args.slug}-2`, title: 'Implement Core API Endpoints', status: 'to-do', hasContext: true, hasInstructions: true }
             ]
           },
           {
             status: 'in-progress',
             tasks: [
-              { number: `${args.slug}-3`, title: 'Develop User Authentication', status: 'in-progress' }
+              { number: `${args.slug}-3`, title: 'Develop User Authentication', status: 'in-progress', hasContext: true, hasInstructions: true }
             ]
           },
           {
             status: 'completed',
             tasks: [
-              { number: `${args.slug}-4`, title: 'Setup Development Environment', status: 'completed' }
+              { number: `${args.slug}-4`, title: 'Setup Development Environment', status: 'completed', hasContext: true, hasInstructions: true }
             ]
           }
         ]
@@ -185,7 +278,10 @@ function createMockServer() {
       inputSchema: {
         type: 'object',
         properties: {
-          number: { type: 'string', pattern: '^[A-Za-z]{3}-\\d+$' }
+          number: { type: 'string', pattern: '^[A-Za-z]{3}-\\d+$' },
+          mode: { type: 'string', enum: ['sequence', 'unblocked'] },
+          strategy: { type: 'string', enum: ['sequence', 'priority', 'oldest', 'board-position'] },
+          skipDone: { type: 'boolean' }
         },
         required: ['number']
       },
@@ -193,68 +289,561 @@ function createMockServer() {
         const [slug, num] = args.number.split('-');
         const nextNum = parseInt(num) + 1;
         return {
-          currentTask: { number: args.number },
+          currentTask: { number: args.number, projectSlug: slug, sequenceNumber: parseInt(num) },
           nextTask: { 
             number: `${slug}-${nextNum}`, 
             title: `Implement Advanced Features`, 
             status: 'to-do',
-            description: 'Build advanced functionality and optimization features for the CodeRide platform.'
+            description: 'Build advanced functionality and optimization features for the CodeRide platform.',
+            sequenceNumber: nextNum,
+            hasContext: true,
+            hasInstructions: true
+          },
+          sequenceInfo: {
+            projectSlug: slug,
+            progression: `${args.number} → ${slug}-${nextNum}`,
+            increment: 1,
+            strategy: 'sequence',
+            mode: 'sequence',
+            reason: 'Next task in sequence'
           }
         };
       }
     },
     {
       name: 'update_task',
-      description: "Updates an existing task's 'description' and/or 'status'. The task is identified by its unique 'number' (e.g., 'CRD-1'). At least one of 'description' or 'status' must be provided for an update.",
+      description: "Updates an existing task's 'title', 'description', 'status', 'priority', 'context' and/or 'instructions'. The task is identified by its unique 'number' (e.g., 'CRD-1'). At least one of these fields must be provided for an update.",
       inputSchema: {
         type: 'object',
         properties: {
           number: { type: 'string', pattern: '^[A-Za-z]{3}-\\d+$' },
+          title: { type: 'string' },
           description: { type: 'string' },
-          status: { type: 'string', enum: ['to-do', 'in-progress', 'done'] }
+          status: { type: 'string', enum: ['to-do', 'in-progress', 'done'] },
+          priority: { type: 'string', enum: ['low', 'medium', 'high'] },
+          context: { type: 'string' },
+          instructions: { type: 'string' }
         },
         required: ['number']
       },
       handler: async (args: any) => ({
         number: args.number,
-        title: `CodeRide Task ${args.number}`,
+        title: args.title || `CodeRide Task ${args.number}`,
         description: args.description || 'Updated task with enhanced functionality and improved implementation approach.',
         status: args.status || 'in-progress',
+        priority: args.priority || 'medium',
         updateConfirmation: `Successfully updated task ${args.number} in CodeRide platform`
       })
     },
     {
       name: 'update_project',
-      description: "Updates a project's knowledge graph data and/or its structure diagram (in Mermaid.js format). The project is identified by its unique 'slug'. At least one of 'project_knowledge' or 'project_diagram' must be provided for an update to occur.",
+      description: "Updates a project's knowledge graph data and/or its structure diagram (in Mermaid.js format). The project is identified by its unique 'slug'. At least one of 'project_knowledge', 'knowledge_patch' or 'project_diagram' must be provided for an update to occur.",
       inputSchema: {
         type: 'object',
         properties: {
           slug: { type: 'string', pattern: '^[A-Za-z]{3}$' },
           project_knowledge: { type: 'object' },
-          project_diagram: { type: 'string' }
+          knowledge_patch: { oneOf: [{ type: 'object' }, { type: 'array' }] },
+          project_diagram: { type: 'string' },
+          fix_diagram: { type: 'boolean' }
         },
         required: ['slug']
       },
       handler: async (args: any) => ({
         slug: args.slug,
         name: `CodeRide ${args.slug} Platform`,
+        description: args.description || 'AI-native task management and development workflow platform designed for modern software teams.',
         project_knowledge: args.project_knowledge || { 
           updated: true, 
           components: ['enhanced-ai-engine', 'advanced-workflow'], 
           technologies: ['TypeScript', 'React', 'Node.js', 'MCP', 'AI/ML'] 
         },
         project_diagram: args.project_diagram || 'graph TD\n  A[Enhanced AI Engine] --> B[Smart Task Management]\n  B --> C[CodeRide Platform]\n  C --> D[Advanced Analytics]',
-        updateConfirmation: `Successfully updated CodeRide project ${args.slug} with enhanced architecture`
+        updateConfirmation: `Successfully updated CodeRide project ${args.slug} with enhanced architecture`,
+        ...(args.knowledge_patch && { changedPaths: ['/components/2'] })
+      })
+    },
+    {
+      name: 'create_task',
+      description: "Creates a new task in a project identified by its slug (e.g., 'CRD'), assigning it the next available task number.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          slug: { type: 'string', pattern: '^[A-Za-z]{3}$' },
+          title: { type: 'string' },
+          description: { type: 'string' },
+          priority: { type: 'string', enum: ['low', 'medium', 'high'] },
+          status: { type: 'string', enum: ['to-do', 'in-progress', 'done'] },
+          column: { type: 'string' }
+        },
+        required: ['slug', 'title', 'description', 'priority']
+      },
+      handler: async (args: any) => ({
+        number: `${args.slug.toUpperCase()}-5`,
+        title: args.title,
+        description: args.description,
+        status: args.status || 'to-do',
+        priority: args.priority,
+        column: args.column || args.status || 'to-do',
+        createConfirmation: `Task ${args.slug.toUpperCase()}-5 created in project ${args.slug.toUpperCase()}`
+      })
+    },
+    {
+      name: 'add_task_comment',
+      description: "Appends a timestamped, attributed comment to a task's activity log, identified by its task number (e.g., 'CRD-1').",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          number: { type: 'string', pattern: '^[A-Za-z]{3}-\\d+$' },
+          comment: { type: 'string' },
+          agent: { type: 'string' }
+        },
+        required: ['number', 'comment']
+      },
+      handler: async (args: any) => ({
+        number: args.number,
+        comment: { id: 'c3', content: args.comment, createdBy: args.agent || 'AI Agent', createdAt: new Date().toISOString() },
+        commentConfirmation: `Comment added to task ${args.number}`
+      })
+    },
+    {
+      name: 'list_task_comments',
+      description: "Lists the comments in a task's activity log in chronological order, identified by its task number (e.g., 'CRD-1').",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          number: { type: 'string', pattern: '^[A-Za-z]{3}-\\d+$' },
+          limit: { type: 'integer', minimum: 1, maximum: 100 }
+        },
+        required: ['number']
+      },
+      handler: async (args: any) => ({
+        number: args.number,
+        comments: [
+          { id: 'c1', content: 'Scaffolded the feature module and wired the routes.', createdBy: 'AI Development Assistant', createdAt: '2025-01-10T09:00:00.000Z' },
+          { id: 'c2', content: 'Blocked on missing API contract for the export endpoint.', createdBy: 'AI Development Assistant', createdAt: '2025-01-10T11:30:00.000Z' }
+        ],
+        totalCount: 2
+      })
+    },
+    {
+      name: 'search_tasks',
+      description: "Searches tasks across all projects in the workspace by free text and filters (status, priority, project slugs, last update date), returning ranked matches.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: { type: 'string' },
+          status: { type: 'string', enum: ['to-do', 'in-progress', 'done'] },
+          priority: { type: 'string', enum: ['low', 'medium', 'high'] },
+          projects: { type: 'array', items: { type: 'string', pattern: '^[A-Za-z]{3}$' } },
+          updated_since: { type: 'string' },
+          limit: { type: 'integer', minimum: 1, maximum: 100 }
+        },
+        required: []
+      },
+      handler: async (args: any) => ({
+        query: args.query || '',
+        filters: { status: args.status ?? null, priority: args.priority ?? null, projects: args.projects ?? null, updatedSince: args.updated_since ?? null },
+        searchMode: 'client',
+        projectsSearched: ['CRD', 'MCP', 'API'],
+        totalMatches: 1,
+        results: [
+          { number: 'CRD-2', title: 'Implement Core API Endpoints', status: 'to-do', priority: 'high', projectSlug: 'CRD', updatedAt: '2025-01-10T09:00:00.000Z', score: 25, snippet: 'Build the REST endpoints for the task engine.' }
+        ]
+      })
+    },
+    {
+      name: 'bulk_update_tasks',
+      description: "Updates the status and/or description of up to 50 tasks in a single call and returns a per-task success/failure report.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          items: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                number: { type: 'string', pattern: '^[A-Za-z]{3}-\\d+$' },
+                status: { type: 'string', enum: ['to-do', 'in-progress', 'done'] },
+                description: { type: 'string' }
+              },
+              required: ['number']
+            }
+          }
+        },
+        required: ['items']
+      },
+      handler: async (args: any) => ({
+        totalItems: args.items.length,
+        succeeded: args.items.length,
+        failed: 0,
+        results: args.items.map((item: any) => ({ number: item.number.toUpperCase(), success: true, status: item.status || 'in-progress' }))
+      })
+    },
+    {
+      name: 'set_task_dependencies',
+      description: "Sets the list of tasks that block a given task, replacing any previous blockers and rejecting circular dependencies.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          number: { type: 'string', pattern: '^[A-Za-z]{3}-\\d+$' },
+          blocked_by: { type: 'array', items: { type: 'string', pattern: '^[A-Za-z]{3}-\\d+$' } }
+        },
+        required: ['number', 'blocked_by']
+      },
+      handler: async (args: any) => ({
+        number: args.number.toUpperCase(),
+        blockedBy: args.blocked_by.map((number: string) => number.toUpperCase()),
+        unresolvedBlockers: [],
+        dependencyConfirmation: `Task ${args.number.toUpperCase()} blocked by: ${args.blocked_by.join(', ').toUpperCase() || 'none'}`
+      })
+    },
+    {
+      name: 'archive_task',
+      description: "Archives a task so it no longer appears on the project board. Called without 'confirm' it only returns a preview and a confirmation value.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          number: { type: 'string', pattern: '^[A-Za-z]{3}-\\d+$' },
+          confirm: { type: 'string', pattern: '^[A-Fa-f0-9]{16}$' },
+          undo: { type: 'boolean' }
+        },
+        required: ['number']
+      },
+      handler: async (args: any) => args.confirm || args.undo
+        ? { number: args.number.toUpperCase(), archived: !args.undo }
+        : {
+            preview: true,
+            action: 'archive',
+            task: { number: args.number.toUpperCase(), title: 'Duplicate task', status: 'to-do' },
+            confirmation: { confirm: '0123456789abcdef', expiresAt: new Date(Date.now() + 5 * 60 * 1000).toISOString() }
+          }
+    },
+    {
+      name: 'delete_task',
+      description: "Permanently deletes a task. Called without 'confirm' it only returns a preview and a confirmation value.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          number: { type: 'string', pattern: '^[A-Za-z]{3}-\\d+$' },
+          confirm: { type: 'string', pattern: '^[A-Fa-f0-9]{16}$' }
+        },
+        required: ['number']
+      },
+      handler: async (args: any) => args.confirm
+        ? { number: args.number.toUpperCase(), deleted: true }
+        : {
+            preview: true,
+            action: 'delete',
+            task: { number: args.number.toUpperCase(), title: 'Duplicate task', status: 'to-do' },
+            confirmation: { confirm: '0123456789abcdef', expiresAt: new Date(Date.now() + 5 * 60 * 1000).toISOString() }
+          }
+    },
+    {
+      name: 'add_checklist_items',
+      description: "Appends one or more checklist items (subtasks) to a task and returns the task's checklist completion.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          number: { type: 'string', pattern: '^[A-Za-z]{3}-\\d+$' },
+          items: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['number', 'items']
+      },
+      handler: async (args: any) => ({
+        number: args.number.toUpperCase(),
+        addedItems: args.items.map((text: string, index: number) => ({ id: `item-${index + 1}`, text, checked: false, position: index })),
+        checklist: { total: args.items.length, checked: 0, completionPercent: 0 },
+        checklistConfirmation: `Added ${args.items.length} checklist item(s) to ${args.number.toUpperCase()}`
+      })
+    },
+    {
+      name: 'tick_checklist_item',
+      description: "Marks a single checklist item of a task as done (or not done again) and returns the updated checklist completion.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          number: { type: 'string', pattern: '^[A-Za-z]{3}-\\d+$' },
+          item_id: { type: 'string' },
+          checked: { type: 'boolean' }
+        },
+        required: ['number', 'item_id']
+      },
+      handler: async (args: any) => ({
+        number: args.number.toUpperCase(),
+        item: { id: args.item_id, text: 'Write endpoint', checked: args.checked ?? true, position: 1 },
+        checklist: { total: 3, checked: 2, completionPercent: 67 },
+        remainingItems: ['Update docs']
+      })
+    },
+    {
+      name: 'list_checklist',
+      description: "Lists the checklist items (subtasks) of a task in order with their ids and checked state, plus the completion percentage.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          number: { type: 'string', pattern: '^[A-Za-z]{3}-\\d+$' }
+        },
+        required: ['number']
+      },
+      handler: async (args: any) => ({
+        number: args.number.toUpperCase(),
+        items: [
+          { id: 'item-1', text: 'Add migration', checked: true, position: 0 },
+          { id: 'item-2', text: 'Write endpoint', checked: false, position: 1 }
+        ],
+        checklist: { total: 2, checked: 1, completionPercent: 50 }
+      })
+    },
+    {
+      name: 'create_project',
+      description: "Creates a new project in the user workspace with a name, a unique three-letter slug, a description and optional initial project knowledge and Mermaid diagram.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          slug: { type: 'string', pattern: '^[A-Za-z]{3}$' },
+          description: { type: 'string' },
+          workspace: { type: 'string' },
+          project_knowledge: { type: 'object' },
+          project_diagram: { type: 'string' }
+        },
+        required: ['name', 'slug']
+      },
+      handler: async (args: any) => ({
+        slug: args.slug.toUpperCase(),
+        name: args.name,
+        description: args.description || '',
+        workspace: { id: 'mock-workspace', name: args.workspace || 'Mock Workspace' },
+        createConfirmation: `Project ${args.slug.toUpperCase()} created.`
+      })
+    },
+    {
+      name: 'get_project_standards',
+      description: "Retrieves a project's coding standards (languages, lint rules, naming conventions, testing requirements, commit conventions) using its three-letter slug.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          slug: { type: 'string', pattern: '^[A-Za-z]{3}$' }
+        },
+        required: ['slug']
+      },
+      handler: async (args: any) => ({
+        slug: args.slug.toUpperCase(),
+        projectStandards: {
+          languages: [{ name: 'TypeScript', version: '5.x' }],
+          naming_conventions: { files: 'kebab-case', classes: 'PascalCase' }
+        },
+        missingSections: ['lint_rules', 'testing_requirements', 'commit_conventions', 'notes']
+      })
+    },
+    {
+      name: 'update_project_standards',
+      description: "Updates a project's coding standards with a structured object. By default only the given sections are replaced and the others are kept.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          slug: { type: 'string', pattern: '^[A-Za-z]{3}$' },
+          standards: { type: 'object' },
+          replace: { type: 'boolean' }
+        },
+        required: ['slug', 'standards']
+      },
+      handler: async (args: any) => ({
+        slug: args.slug.toUpperCase(),
+        projectStandards: args.standards,
+        changedSections: Object.keys(args.standards).sort(),
+        updateConfirmation: `Successfully updated standards for CodeRide project ${args.slug.toUpperCase()}`
+      })
+    },
+    {
+      name: 'project_progress',
+      description: "Reports how far along a project is: completion percentage, task counts per status, tasks finished per day and per week, the oldest open tasks and how long in-progress tasks have been running, plus a short summary.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          slug: { type: 'string', pattern: '^[A-Za-z]{3}$' },
+          days: { type: 'integer', minimum: 1, maximum: 365 },
+          limit: { type: 'integer', minimum: 1, maximum: 50 }
+        },
+        required: ['slug']
+      },
+      handler: async (args: any) => ({
+        slug: args.slug.toUpperCase(),
+        name: `CodeRide ${args.slug.toUpperCase()} Platform`,
+        completionPercent: 40,
+        totals: { total: 10, done: 4, inProgress: 2, open: 6 },
+        statusCounts: { 'to-do': 4, 'in-progress': 2, done: 4 },
+        throughput: { windowDays: args.days || 28, doneInWindow: 4, averagePerWeek: 1, perDay: [], perWeek: [] },
+        oldestOpenTasks: [
+          { number: `${args.slug.toUpperCase()}-1`, title: 'Initialize Project Architecture', status: 'to-do', createdAt: '2025-01-01T09:00:00.000Z', ageDays: 30 }
+        ],
+        inProgressTasks: [
+          { number: `${args.slug.toUpperCase()}-3`, title: 'Develop User Authentication', updatedAt: '2025-01-10T09:00:00.000Z', daysSinceUpdate: 2 }
+        ],
+        generatedAt: new Date().toISOString(),
+        summary: `${args.slug.toUpperCase()} is 40% complete: 4 of 10 tasks done, 2 in progress, 4 to do.`
+      })
+    },
+    {
+      name: 'list_project_versions',
+      description: "Lists the saved versions of a project's knowledge and diagram, newest first.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          slug: { type: 'string', pattern: '^[A-Za-z]{3}$' },
+          limit: { type: 'integer', minimum: 1, maximum: 100 }
+        },
+        required: ['slug']
+      },
+      handler: async (args: any) => ({
+        slug: args.slug.toUpperCase(),
+        totalVersions: 1,
+        versions: [
+          { version: 1, takenAt: new Date().toISOString(), reason: 'update_project', knowledgeSections: ['components', 'technologies'], knowledgeSize: 120, diagramLines: 4 }
+        ]
+      })
+    },
+    {
+      name: 'diff_project_versions',
+      description: "Shows what changed in a project's knowledge and diagram between two saved versions, or between a saved version and the current project.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          slug: { type: 'string', pattern: '^[A-Za-z]{3}$' },
+          from: { type: 'integer', minimum: 1 },
+          to: { type: 'integer', minimum: 1 }
+        },
+        required: ['slug', 'from']
+      },
+      handler: async (args: any) => ({
+        slug: args.slug.toUpperCase(),
+        from: { version: args.from, takenAt: new Date().toISOString() },
+        to: args.to ? { version: args.to, takenAt: new Date().toISOString() } : { version: 'current' },
+        knowledgeChanges: [{ path: '/components/1', type: 'added', after: 'advanced-workflow' }],
+        diagramChanges: [{ type: 'added', line: 3, text: '  B --> C[CodeRide Platform]' }],
+        summary: `1 knowledge path(s) and 1 diagram line(s) differ between version ${args.from} and ${args.to ? `version ${args.to}` : 'the current project'}.`
+      })
+    },
+    {
+      name: 'restore_project_version',
+      description: "Restores a saved version of a project's knowledge, diagram, or both through update_project.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          slug: { type: 'string', pattern: '^[A-Za-z]{3}$' },
+          version: { type: 'integer', minimum: 1 },
+          scope: { type: 'string', enum: ['all', 'knowledge', 'diagram'] }
+        },
+        required: ['slug', 'version']
+      },
+      handler: async (args: any) => ({
+        slug: args.slug.toUpperCase(),
+        name: `CodeRide ${args.slug.toUpperCase()} Platform`,
+        description: 'AI-native task management and development workflow platform designed for modern software teams.',
+        project_knowledge: { components: ['task-engine', 'ai-integration'] },
+        project_diagram: 'graph TD\n  A[AI Agent] --> B[Task Engine]',
+        restoredVersion: args.version,
+        restoredFrom: new Date().toISOString(),
+        scope: args.scope || 'all',
+        snapshotVersion: args.version + 1,
+        updateConfirmation: `Successfully restored CodeRide project ${args.slug.toUpperCase()} to version ${args.version}`
+      })
+    },
+    {
+      name: 'export_project',
+      description: "Exports a project as a directory of Markdown files: README, one file per task, knowledge, Mermaid diagram and standards.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          slug: { type: 'string', pattern: '^[A-Za-z]{3}$' },
+          directory: { type: 'string' },
+          include_prompts: { type: 'boolean' }
+        },
+        required: ['slug']
+      },
+      handler: async (args: any) => ({
+        slug: args.slug.toUpperCase(),
+        directory: args.directory || `coderide-${args.slug.toLowerCase()}`,
+        taskCount: 2,
+        files: ['README.md', 'knowledge.md', 'diagram.md', 'standards.md', `tasks/${args.slug.toUpperCase()}-1.md`, `tasks/${args.slug.toUpperCase()}-2.md`, '.coderide-export'],
+        written: [],
+        unchanged: [],
+        removed: [],
+        summary: `Mock mode: no files written for ${args.slug.toUpperCase()}`
+      })
+    },
+    {
+      name: 'import_tasks',
+      description: "Creates the tasks of a Markdown or YAML plan in a project, skipping tasks whose title already exists. Supports a dry-run preview.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          slug: { type: 'string', pattern: '^[A-Za-z]{3}$' },
+          content: { type: 'string' },
+          format: { type: 'string', enum: ['markdown', 'yaml'] },
+          dry_run: { type: 'boolean' }
+        },
+        required: ['slug', 'content']
+      },
+      handler: async (args: any) => ({
+        slug: args.slug.toUpperCase(),
+        dryRun: args.dry_run === true,
+        tasks: [
+          { title: 'Mock imported task', number: `${args.slug.toUpperCase()}-3`, priority: 'medium', blockedBy: [], action: args.dry_run ? 'create' : 'created' }
+        ],
+        summary: `Mock mode: no tasks created in ${args.slug.toUpperCase()}`
+      })
+    },
+    {
+      name: 'get_work_context',
+      description: "Retrieves the project, task details, task prompt and project standards for a task in one call, within a size budget.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          number: { type: 'string', pattern: '^[A-Za-z]{3}-\\d+$' },
+          max_chars: { type: 'integer', minimum: 2000, maximum: 200000 },
+          include_comments: { type: 'integer', minimum: 0, maximum: 20 }
+        },
+        required: ['number']
+      },
+      handler: async (args: any) => ({
+        number: args.number.toUpperCase(),
+        project: {
+          slug: args.number.split('-')[0].toUpperCase(),
+          name: 'Mock Project',
+          description: 'Mock project for development',
+          projectKnowledge: { components: ['task-engine'] },
+          projectDiagram: 'graph TD\n  A[AI Agent] --> B[Task Engine]'
+        },
+        task: {
+          number: args.number.toUpperCase(),
+          title: `Mock task ${args.number.toUpperCase()}`,
+          description: 'Mock task description',
+          status: 'to-do',
+          priority: 'medium',
+          agent: 'AI Development Assistant',
+          agent_prompt: 'Focus on clean code architecture and comprehensive testing',
+          context: 'Part of the core platform development initiative',
+          instructions: 'Follow CodeRide coding standards and ensure proper documentation'
+        },
+        prompt: `Mock prompt for ${args.number.toUpperCase()}`,
+        standards: { projectStandards: {}, missingSections: [] },
+        budget: { maxChars: args.max_chars || 30000, usedChars: 600, truncated: [] }
       })
     }
   ];
 
+  // Output schemas come from the real tools, so mock results must have the production shape
+  const outputSchemas = new Map(createTools().map(tool => [tool.name, tool.getMCPToolDefinition().outputSchema]));
+
   // Register list-tools handler
   server.setRequestHandler(ListToolsRequestSchema, async () => ({
     tools: mockTools.map(tool => ({
       name: tool.name,
       description: tool.description,
-      inputSchema: tool.inputSchema
+      inputSchema: tool.inputSchema,
+      outputSchema: outputSchemas.get(tool.name)
     }))
   }));
 
@@ -270,7 +859,8 @@ function createMockServer() {
     try {
       const result = await mockTool.handler(request.params.arguments || {});
       return {
-        content: [{ type: 'text', text: JSON.stringify(result) }]
+        content: [{ type: 'text', text: JSON.stringify(result) }],
+        structuredContent: result
       };
     } catch (error) {
       logger.error(`Error in mock tool ${toolName}`, error as Error);
@@ -307,28 +897,35 @@ function createProductionServer(smitheryConfig: z.infer<typeof configSchema>) {
     {
       capabilities: {
         tools: {},
+        resources: { subscribe: true },
+        prompts: {},
+        completions: {},
       },
     }
   );
 
   // Initialize real tools with dependency injection
-  const tools: any[] = [
-    new StartProjectTool(secureApiClient),
-    new GetPromptTool(secureApiClient),
-    new GetTaskTool(secureApiClient),
-    new GetProjectTool(secureApiClient),
-    new UpdateTaskTool(secureApiClient),
-    new UpdateProjectTool(secureApiClient),
-    new ListProjectsTool(secureApiClient),
-    new ListTasksTool(secureApiClient),
-    new NextTaskTool(secureApiClient),
-  ];
+  const tools = createTools(secureApiClient);
 
   // Register each tool with the server
   tools.forEach(tool => {
     tool.register(server);
   });
 
+  // Expose projects and tasks as resources backed by the same API client,
+  // polling subscribed ones for changes until the session closes. Polling has its own
+  // rate limit bucket, so it cannot use up the request budget of tool calls.
+  const resources = new CodeRideResources(secureApiClient);
+  resources.register(server);
+  const pollingClient = secureApiClient.withRateLimit(POLLING_RATE_LIMIT_ID, POLLING_REQUESTS_PER_MINUTE);
+  new ResourceSubscriptions(new CodeRideResources(pollingClient)).register(server);
+
+  // Expose the standard workflows as prompts
+  new CodeRidePrompts(secureApiClient).register(server);
+
+  // Autocomplete project slugs and task numbers in prompt and resource arguments
+  new CodeRideCompletions(secureApiClient).register(server);
+
   // Register the list-tools handler
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     return {
@@ -350,16 +947,23 @@ function createProductionServer(smitheryConfig: z.infer<typeof configSchema>) {
       const validatedInput = await tool.validateInput(request.params.arguments);
       
       // Execute the tool with secure wrapper
-      const result = await tool.secureExecute(validatedInput);
-      
-      // Return successful response with compact JSON formatting
+      const result: any = await tool.secureExecute(validatedInput);
+      const content = [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(result), // Compact JSON format (no pretty-printing)
+        },
+      ];
+
+      // Tool-level failures carry no structured content
+      if (result?.isError) {
+        return { content, isError: true };
+      }
+
+      // Return successful response as text for older clients and as structured content matching the tool's outputSchema
       return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result), // Compact JSON format (no pretty-printing)
-          },
-        ],
+        content,
+        structuredContent: result,
       };
     } catch (error) {
       // Handle errors
@@ -0,0 +1,264 @@
+/**
+ * CodeRide Prompts
+ *
+ * Exposes the standard CodeRide workflows as MCP prompts. Each prompt pre-fills the conversation
+ * with the project and task context as embedded resources, followed by the workflow to follow.
+ */
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  GetPromptResult,
+  ListPromptsRequestSchema,
+  McpError,
+  Prompt,
+  PromptMessage
+} from '@modelcontextprotocol/sdk/types.js';
+import { SecureApiClient } from '../utils/secure-api-client.js';
+import { InputValidator } from '../utils/input-validator.js';
+import { redactSensitiveTokens } from '../utils/token-security.js';
+import { CodeRideResources, formatResourceUri } from '../resources/coderide-resources.js';
+import { ListTasksTool } from '../tools/list-tasks.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Prompts offered to clients
+ */
+const PROMPTS: Prompt[] = [
+  {
+    name: 'start-task',
+    title: 'Start a CodeRide task',
+    description: 'Loads the project context, the task and its prompt, and sets up the workflow for implementing the task.',
+    arguments: [
+      { name: 'number', description: "Task number, e.g. 'CRD-1'", required: true }
+    ]
+  },
+  {
+    name: 'finish-task',
+    title: 'Finish a CodeRide task',
+    description: 'Loads the task and its project, and walks through closing the task: checklist, status, summary and project knowledge.',
+    arguments: [
+      { name: 'number', description: "Task number, e.g. 'CRD-1'", required: true }
+    ]
+  },
+  {
+    name: 'plan-project',
+    title: 'Plan a CodeRide project',
+    description: 'Loads the project context and its current board, and sets up breaking a goal down into new tasks.',
+    arguments: [
+      { name: 'slug', description: "Three-letter project code, e.g. 'CRD'", required: true },
+      { name: 'goal', description: 'What the new tasks should achieve. Defaults to the next milestone of the project.', required: false }
+    ]
+  }
+];
+
+/**
+ * Prompt provider backed by the CodeRide API
+ */
+export class CodeRidePrompts {
+  /**
+   * Resource provider and tools whose execute logic backs each prompt
+   */
+  private readonly resources: CodeRideResources;
+  private readonly listTasksTool: ListTasksTool;
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(apiClient: SecureApiClient) {
+    this.resources = new CodeRideResources(apiClient);
+    this.listTasksTool = new ListTasksTool(apiClient);
+  }
+
+  /**
+   * Register the prompts/list and prompts/get handlers.
+   * The server must declare the `prompts` capability.
+   */
+  register(server: Server): void {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: PROMPTS
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+      this.getPrompt(request.params.name, request.params.arguments || {})
+    );
+  }
+
+  /**
+   * Build the messages of a prompt
+   */
+  async getPrompt(name: string, args: Record<string, string>): Promise<GetPromptResult> {
+    logger.debug(`Getting CodeRide prompt ${name}`, args);
+
+    switch (name) {
+      case 'start-task':
+        return this.startTask(this.validateArgument(args, 'number', InputValidator.validateTaskNumber, true)!);
+      case 'finish-task':
+        return this.finishTask(this.validateArgument(args, 'number', InputValidator.validateTaskNumber, true)!);
+      case 'plan-project':
+        return this.planProject(
+          this.validateArgument(args, 'slug', InputValidator.validateProjectSlug, true)!,
+          this.validateArgument(args, 'goal', InputValidator.sanitizeDescription)
+        );
+      default:
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt '${name}'. Available prompts: ${PROMPTS.map(prompt => prompt.name).join(', ')}`);
+    }
+  }
+
+  /**
+   * start-task: project, task and prompt, then the implementation workflow
+   */
+  private async startTask(number: string): Promise<GetPromptResult> {
+    const slug = number.split('-')[0];
+    const task = await this.readResource(formatResourceUri({ kind: 'task', number }), true);
+    const project = await this.readResource(formatResourceUri({ kind: 'project', slug }));
+    const prompt = await this.readResource(formatResourceUri({ kind: 'prompt', number }));
+    const status = task.text ? this.parseField(task.text, 'status') : undefined;
+
+    return {
+      description: `Start working on ${number}`,
+      messages: [
+        ...project.messages,
+        ...task.messages,
+        ...prompt.messages,
+        this.text([
+          `I want to work on task ${number}. The project context, the task and its prompt are attached above.`,
+          ...project.notes,
+          ...prompt.notes,
+          '',
+          'Workflow:',
+          ...(status === 'to-do' ? [`1. Set ${number} to "in-progress" with update_task before changing any code.`] : [`1. ${number} is "${status || 'unknown'}" - confirm it is the right task before changing any code.`]),
+          '2. Review the project knowledge, diagram and standards, then implement the task following its prompt and instructions.',
+          '3. Work through the task checklist, if any, and tick items off with tick_checklist_item as they are done.',
+          `4. When done, set ${number} to "done" with update_task and update the project knowledge or diagram with update_project if the architecture changed.`
+        ])
+      ]
+    };
+  }
+
+  /**
+   * finish-task: task and project, then the closing workflow
+   */
+  private async finishTask(number: string): Promise<GetPromptResult> {
+    const slug = number.split('-')[0];
+    const task = await this.readResource(formatResourceUri({ kind: 'task', number }), true);
+    const project = await this.readResource(formatResourceUri({ kind: 'project', slug }));
+
+    return {
+      description: `Finish ${number}`,
+      messages: [
+        ...project.messages,
+        ...task.messages,
+        this.text([
+          `I have finished implementing task ${number}. The task and its project are attached above.`,
+          ...project.notes,
+          '',
+          'Close the task:',
+          '1. Check the changes against the task description, instructions and checklist. Tick off completed checklist items with tick_checklist_item and report anything still open instead of closing the task.',
+          `2. Set ${number} to "done" with update_task and record a short summary of what changed in its context field.`,
+          '3. Update the project knowledge with update_project: new components, technologies and patterns, and the Mermaid diagram if the architecture changed.',
+          `4. Use next_task to find the next task in ${slug}.`
+        ])
+      ]
+    };
+  }
+
+  /**
+   * plan-project: project and board, then the planning workflow
+   */
+  private async planProject(slug: string, goal?: string): Promise<GetPromptResult> {
+    const project = await this.readResource(formatResourceUri({ kind: 'project', slug }), true);
+    const board: any = await this.listTasksTool.execute({ slug, compact: true });
+
+    if (board?.isError) {
+      throw new McpError(ErrorCode.InvalidParams, `Tasks of project ${slug} could not be read: ${board.content?.[0]?.text || 'unknown error'}`);
+    }
+
+    return {
+      description: `Plan project ${slug}`,
+      messages: [
+        ...project.messages,
+        this.text([
+          `Current tasks of project ${slug}:`,
+          '```json',
+          JSON.stringify(InputValidator.sanitizeOutput(redactSensitiveTokens(board)), null, 2),
+          '```'
+        ]),
+        this.text([
+          goal
+            ? `I want to plan the work for project ${slug} to achieve this goal: ${goal}`
+            : `I want to plan the next milestone of project ${slug}.`,
+          'The project context and its current tasks are attached above.',
+          '',
+          'Plan:',
+          '1. Break the work down into small tasks that can each be implemented and reviewed on their own. Skip anything already covered by an existing task.',
+          '2. Give each task a title, a description with acceptance criteria, a priority and its dependencies.',
+          `3. Write the plan as Markdown and preview it with import_tasks using dry_run, then import it into ${slug}.`,
+          '4. Update the project knowledge and diagram with update_project if the plan changes the architecture.'
+        ])
+      ]
+    };
+  }
+
+  /**
+   * Read a resource as an embedded resource message. Required resources throw; optional ones
+   * that cannot be read are reported as a note instead.
+   */
+  private async readResource(uri: string, required = false): Promise<{ messages: PromptMessage[]; notes: string[]; text?: string }> {
+    try {
+      const resource = await this.resources.readResource(uri);
+      if (!resource.text) {
+        return { messages: [], notes: [`(${uri} is empty.)`] };
+      }
+      return {
+        messages: [{ role: 'user', content: { type: 'resource', resource } }],
+        notes: [],
+        text: resource.text
+      };
+    } catch (error) {
+      if (required) {
+        throw error;
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn(`Optional prompt resource ${uri} could not be read: ${errorMessage}`);
+      return { messages: [], notes: [`(${uri} could not be loaded: ${errorMessage})`] };
+    }
+  }
+
+  /**
+   * Read a top-level string field from a JSON resource text
+   */
+  private parseField(text: string, field: string): string | undefined {
+    try {
+      const value = JSON.parse(text)?.[field];
+      return typeof value === 'string' ? value : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Validate a prompt argument; returns undefined for a missing optional argument
+   */
+  private validateArgument(args: Record<string, string>, name: string, validate: (value: string) => string, required = false): string | undefined {
+    const value = args[name]?.trim();
+    if (!value) {
+      if (required) {
+        throw new McpError(ErrorCode.InvalidParams, `Missing required argument '${name}'`);
+      }
+      return undefined;
+    }
+    try {
+      return validate(value);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid argument '${name}': ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Build a user text message from lines
+   */
+  private text(lines: string[]): PromptMessage {
+    return { role: 'user', content: { type: 'text', text: lines.join('\n') } };
+  }
+}
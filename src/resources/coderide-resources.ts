@@ -0,0 +1,233 @@
+/**
+ * CodeRide Resources
+ *
+ * Exposes projects, project diagrams, tasks and task prompts as MCP resources so clients can
+ * attach them as context without a tool call. Reads reuse the tools' fetch logic, but never record
+ * anything as seen by the agent (e.g. project standards), so they have no side effects on tool results.
+ */
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  Resource,
+  ResourceTemplate
+} from '@modelcontextprotocol/sdk/types.js';
+import { SecureApiClient } from '../utils/secure-api-client.js';
+import { InputValidator } from '../utils/input-validator.js';
+import { redactSensitiveTokens } from '../utils/token-security.js';
+import { GetProjectTool } from '../tools/get-project.js';
+import { GetTaskTool } from '../tools/get-task.js';
+import { GetPromptTool } from '../tools/get-prompt.js';
+import { ListProjectsTool } from '../tools/list-projects.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * A parsed CodeRide resource URI
+ */
+export type CodeRideResourceRef =
+  | { kind: 'project'; slug: string }
+  | { kind: 'diagram'; slug: string }
+  | { kind: 'task'; number: string }
+  | { kind: 'prompt'; number: string };
+
+/**
+ * MIME types of the resource contents
+ */
+const MIME_TYPES: Record<CodeRideResourceRef['kind'], string> = {
+  project: 'application/json',
+  diagram: 'text/vnd.mermaid',
+  task: 'application/json',
+  prompt: 'text/markdown'
+};
+
+/**
+ * Resource templates offered to clients
+ */
+const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'coderide://project/{slug}',
+    name: 'project',
+    title: 'CodeRide project',
+    description: 'A project with its knowledge, Mermaid diagram and coding standards (JSON). The slug is the three-letter project code, e.g. CRD.',
+    mimeType: MIME_TYPES.project
+  },
+  {
+    uriTemplate: 'coderide://project/{slug}/diagram',
+    name: 'project-diagram',
+    title: 'CodeRide project diagram',
+    description: "A project's architecture diagram in Mermaid syntax.",
+    mimeType: MIME_TYPES.diagram
+  },
+  {
+    uriTemplate: 'coderide://task/{number}',
+    name: 'task',
+    title: 'CodeRide task',
+    description: 'A task with its status, priority, description, context, instructions, blockers and checklist (JSON). The number looks like CRD-1.',
+    mimeType: MIME_TYPES.task
+  },
+  {
+    uriTemplate: 'coderide://task/{number}/prompt',
+    name: 'task-prompt',
+    title: 'CodeRide task prompt',
+    description: 'The implementation prompt of a task.',
+    mimeType: MIME_TYPES.prompt
+  }
+];
+
+/**
+ * Parse a coderide:// URI; returns null for URIs that are not CodeRide resources
+ */
+export function parseResourceUri(uri: string): CodeRideResourceRef | null {
+  const project = uri.match(/^coderide:\/\/project\/([A-Za-z]{3})(\/diagram)?\/?$/);
+  if (project) {
+    const slug = InputValidator.validateProjectSlug(project[1]);
+    return project[2] ? { kind: 'diagram', slug } : { kind: 'project', slug };
+  }
+
+  const task = uri.match(/^coderide:\/\/task\/([A-Za-z]{3}-\d+)(\/prompt)?\/?$/);
+  if (task) {
+    const number = InputValidator.validateTaskNumber(task[1]);
+    return task[2] ? { kind: 'prompt', number } : { kind: 'task', number };
+  }
+
+  return null;
+}
+
+/**
+ * Build the canonical URI of a resource
+ */
+export function formatResourceUri(ref: CodeRideResourceRef): string {
+  switch (ref.kind) {
+    case 'project': return `coderide://project/${ref.slug}`;
+    case 'diagram': return `coderide://project/${ref.slug}/diagram`;
+    case 'task': return `coderide://task/${ref.number}`;
+    case 'prompt': return `coderide://task/${ref.number}/prompt`;
+  }
+}
+
+/**
+ * Resource provider backed by the CodeRide API
+ */
+export class CodeRideResources {
+  /**
+   * Tools whose execute logic backs each resource
+   */
+  private readonly listProjectsTool: ListProjectsTool;
+  private readonly getProjectTool: GetProjectTool;
+  private readonly getTaskTool: GetTaskTool;
+  private readonly getPromptTool: GetPromptTool;
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(apiClient: SecureApiClient) {
+    this.listProjectsTool = new ListProjectsTool(apiClient);
+    this.getProjectTool = new GetProjectTool(apiClient);
+    this.getTaskTool = new GetTaskTool(apiClient);
+    this.getPromptTool = new GetPromptTool(apiClient);
+  }
+
+  /**
+   * Register the resources/list, resources/templates/list and resources/read handlers.
+   * The server must declare the `resources` capability.
+   */
+  register(server: Server): void {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: await this.listResources()
+    }));
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+      contents: [await this.readResource(request.params.uri)]
+    }));
+  }
+
+  /**
+   * List a project and a diagram resource for every project the user can see.
+   * Tasks are not listed (boards can be large); clients open them through the templates.
+   */
+  async listResources(): Promise<Resource[]> {
+    logger.debug('Listing CodeRide resources');
+    const result: any = await this.listProjectsTool.execute({});
+
+    if (result?.isError) {
+      throw new McpError(ErrorCode.InternalError, `Could not list projects: ${result.content?.[0]?.text || 'unknown error'}`);
+    }
+
+    return (result?.projects || []).flatMap((project: any) => {
+      const slug = String(project.slug || '').toUpperCase();
+      const label = project.name ? `${project.name} (${slug})` : slug;
+      return [
+        {
+          uri: formatResourceUri({ kind: 'project', slug }),
+          name: slug,
+          title: label,
+          description: project.description || `Knowledge, diagram and standards of project ${slug}`,
+          mimeType: MIME_TYPES.project
+        },
+        {
+          uri: formatResourceUri({ kind: 'diagram', slug }),
+          name: `${slug}-diagram`,
+          title: `${label} diagram`,
+          description: `Architecture diagram of project ${slug} (Mermaid)`,
+          mimeType: MIME_TYPES.diagram
+        }
+      ];
+    });
+  }
+
+  /**
+   * Read a resource by URI
+   */
+  async readResource(uri: string): Promise<{ uri: string; mimeType: string; text: string }> {
+    logger.debug(`Reading CodeRide resource ${uri}`);
+
+    let ref: CodeRideResourceRef | null;
+    try {
+      ref = parseResourceUri(uri);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI '${uri}': ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    if (!ref) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI '${uri}'. Expected coderide://project/{slug}, coderide://project/{slug}/diagram, coderide://task/{number} or coderide://task/{number}/prompt`);
+    }
+
+    const result: any = ref.kind === 'project' || ref.kind === 'diagram'
+      ? await this.readProject(ref.slug)
+      : ref.kind === 'task'
+        ? await this.getTaskTool.execute({ number: ref.number, include_checklist: true })
+        : await this.getPromptTool.execute({ number: ref.number });
+
+    if (result?.isError) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource '${uri}' could not be read: ${result.content?.[0]?.text || 'unknown error'}`);
+    }
+
+    // Same output protection as tool results
+    const safe = InputValidator.sanitizeOutput(redactSensitiveTokens(result));
+    const text = ref.kind === 'diagram'
+      ? safe.projectDiagram || ''
+      : ref.kind === 'prompt'
+        ? safe.taskPrompt || ''
+        : JSON.stringify(safe);
+
+    return { uri: formatResourceUri(ref), mimeType: MIME_TYPES[ref.kind], text };
+  }
+
+  /**
+   * Read a project without get_project's standards tracking, which would otherwise hide a
+   * standards change from the agent's next get_project call
+   */
+  private async readProject(slug: string): Promise<unknown> {
+    try {
+      return await this.getProjectTool.fetchProject(slug);
+    } catch (error) {
+      return { isError: true, content: [{ type: 'text', text: error instanceof Error ? error.message : 'Unknown error' }] };
+    }
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * Resource Subscriptions
+ *
+ * Implements resources/subscribe and resources/unsubscribe for the CodeRide resources. The API has
+ * no change feed, so subscribed resources are polled in the background and a
+ * notifications/resources/updated is sent when their content changes.
+ */
+import { createHash } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { CodeRideResourceRef, CodeRideResources, formatResourceUri, parseResourceUri } from './coderide-resources.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Polling configuration
+ */
+export interface SubscriptionOptions {
+  /** Delay between polls of a resource, in milliseconds */
+  intervalMs: number;
+  /** Upper bound for the delay after backing off, in milliseconds */
+  maxIntervalMs: number;
+  /** Factor the delay grows by after each unchanged or failed poll */
+  backoffFactor: number;
+  /** Maximum number of concurrent subscriptions per session */
+  maxSubscriptions: number;
+}
+
+/**
+ * Defaults; the intervals can be overridden with CODERIDE_POLL_INTERVAL_MS and CODERIDE_POLL_MAX_INTERVAL_MS.
+ * A poll costs one to three requests (a task read includes its checklist and blockers), so
+ * 10 subscriptions every 30 seconds stay close to POLLING_REQUESTS_PER_MINUTE.
+ */
+const DEFAULT_OPTIONS: SubscriptionOptions = {
+  intervalMs: 30000,
+  maxIntervalMs: 300000,
+  backoffFactor: 1.5,
+  maxSubscriptions: 10
+};
+
+/**
+ * Rate limit bucket for polling requests, separate from the budget of tool calls.
+ * Polls over the limit fail and back off like any other failed poll.
+ */
+export const POLLING_RATE_LIMIT_ID = 'resource-polling';
+export const POLLING_REQUESTS_PER_MINUTE = 30;
+
+/**
+ * Lower bound for configured intervals, to protect the API
+ */
+const MIN_INTERVAL_MS = 1000;
+
+/**
+ * State of one subscribed resource
+ */
+interface Subscription {
+  uri: string;
+  hash: string;
+  delayMs: number;
+  failures: number;
+  timer: NodeJS.Timeout | null;
+}
+
+/**
+ * Read the polling configuration from the environment
+ */
+export function getSubscriptionOptions(): SubscriptionOptions {
+  const parse = (value: string | undefined, fallback: number) => {
+    const parsed = value ? parseInt(value, 10) : NaN;
+    return Number.isFinite(parsed) ? Math.max(MIN_INTERVAL_MS, parsed) : fallback;
+  };
+
+  const intervalMs = parse(process.env.CODERIDE_POLL_INTERVAL_MS, DEFAULT_OPTIONS.intervalMs);
+  const maxIntervalMs = Math.max(intervalMs, parse(process.env.CODERIDE_POLL_MAX_INTERVAL_MS, DEFAULT_OPTIONS.maxIntervalMs));
+  return { ...DEFAULT_OPTIONS, intervalMs, maxIntervalMs };
+}
+
+/**
+ * Subscription manager for one server session
+ */
+export class ResourceSubscriptions {
+  private readonly subscriptions = new Map<string, Subscription>();
+  private readonly options: SubscriptionOptions;
+  private server: Server | null = null;
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(private readonly resources: CodeRideResources, options: Partial<SubscriptionOptions> = {}) {
+    this.options = { ...getSubscriptionOptions(), ...options };
+  }
+
+  /**
+   * Register the resources/subscribe and resources/unsubscribe handlers and stop polling when the
+   * session closes. The server must declare the `resources.subscribe` capability.
+   */
+  register(server: Server): void {
+    this.server = server;
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      await this.subscribe(request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.unsubscribe(request.params.uri);
+      return {};
+    });
+
+    const previousOnClose = server.onclose;
+    server.onclose = () => {
+      this.stop();
+      previousOnClose?.();
+    };
+  }
+
+  /**
+   * Subscribe to a resource. The resource is read once to validate it and record its current content.
+   */
+  async subscribe(uri: string): Promise<void> {
+    let ref: CodeRideResourceRef | null;
+    try {
+      ref = parseResourceUri(uri);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI '${uri}': ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    if (!ref) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI '${uri}'`);
+    }
+
+    const canonicalUri = formatResourceUri(ref);
+    if (this.subscriptions.has(canonicalUri)) {
+      return;
+    }
+    if (this.subscriptions.size >= this.options.maxSubscriptions) {
+      throw new McpError(ErrorCode.InvalidRequest, `Subscription limit reached (${this.options.maxSubscriptions}). Unsubscribe from a resource first.`);
+    }
+
+    const resource = await this.resources.readResource(canonicalUri);
+    const subscription: Subscription = {
+      uri: canonicalUri,
+      hash: this.hash(resource.text),
+      delayMs: this.options.intervalMs,
+      failures: 0,
+      timer: null
+    };
+
+    // A concurrent subscribe to the same resource may have finished first
+    if (this.subscriptions.has(canonicalUri)) {
+      return;
+    }
+    this.subscriptions.set(canonicalUri, subscription);
+    this.schedule(subscription);
+    logger.debug(`Subscribed to ${canonicalUri}`);
+  }
+
+  /**
+   * Unsubscribe from a resource; unknown URIs are ignored
+   */
+  unsubscribe(uri: string): void {
+    let canonicalUri = uri;
+    try {
+      const ref = parseResourceUri(uri);
+      canonicalUri = ref ? formatResourceUri(ref) : uri;
+    } catch {
+      // Invalid URIs cannot have been subscribed
+    }
+
+    const subscription = this.subscriptions.get(canonicalUri);
+    if (subscription) {
+      this.clearTimer(subscription);
+      this.subscriptions.delete(canonicalUri);
+      logger.debug(`Unsubscribed from ${canonicalUri}`);
+    }
+  }
+
+  /**
+   * Stop polling and drop all subscriptions
+   */
+  stop(): void {
+    for (const subscription of this.subscriptions.values()) {
+      this.clearTimer(subscription);
+    }
+    if (this.subscriptions.size > 0) {
+      logger.debug(`Stopped polling ${this.subscriptions.size} subscribed resources`);
+    }
+    this.subscriptions.clear();
+  }
+
+  /**
+   * URIs currently subscribed to
+   */
+  getSubscribedUris(): string[] {
+    return [...this.subscriptions.keys()];
+  }
+
+  /**
+   * Poll a subscribed resource and notify the client if it changed. The delay is reset after a
+   * change and grows after unchanged or failed polls, up to maxIntervalMs.
+   */
+  private async poll(subscription: Subscription): Promise<void> {
+    subscription.timer = null;
+
+    try {
+      const resource = await this.resources.readResource(subscription.uri);
+      const hash = this.hash(resource.text);
+      subscription.failures = 0;
+
+      if (hash !== subscription.hash) {
+        subscription.hash = hash;
+        subscription.delayMs = this.options.intervalMs;
+        if (this.isActive(subscription)) {
+          logger.debug(`Resource ${subscription.uri} changed, notifying client`);
+          await this.server?.sendResourceUpdated({ uri: subscription.uri });
+        }
+      } else {
+        subscription.delayMs = this.nextDelay(subscription.delayMs);
+      }
+    } catch (error) {
+      subscription.failures++;
+      subscription.delayMs = this.nextDelay(subscription.delayMs);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn(`Polling ${subscription.uri} failed (${subscription.failures} in a row), retrying in ${subscription.delayMs}ms: ${errorMessage}`);
+    }
+
+    this.schedule(subscription);
+  }
+
+  /**
+   * Schedule the next poll, unless the subscription was removed in the meantime
+   */
+  private schedule(subscription: Subscription): void {
+    if (!this.isActive(subscription)) {
+      return;
+    }
+    subscription.timer = setTimeout(() => void this.poll(subscription), subscription.delayMs);
+    // Polling alone must not keep the process alive
+    subscription.timer.unref?.();
+  }
+
+  private isActive(subscription: Subscription): boolean {
+    return this.subscriptions.get(subscription.uri) === subscription;
+  }
+
+  private nextDelay(delayMs: number): number {
+    return Math.min(this.options.maxIntervalMs, Math.round(delayMs * this.options.backoffFactor));
+  }
+
+  private clearTimer(subscription: Subscription): void {
+    if (subscription.timer) {
+      clearTimeout(subscription.timer);
+      subscription.timer = null;
+    }
+  }
+
+  private hash(text: string): string {
+    return createHash('sha256').update(text).digest('hex');
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Add Checklist Items Tool
+ *
+ * Appends checklist items (subtasks) to a task using the CodeRide API
+ */
+import { z } from 'zod';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
+import { SecureApiClient, AddChecklistItemsApiResponse } from '../utils/secure-api-client.js';
+import { InputValidator } from '../utils/input-validator.js';
+import { fetchTaskChecklist, formatChecklistItem, summarizeChecklist } from '../utils/task-checklist.js';
+import { logger } from '../utils/logger.js';
+import { ChecklistItemSchema, ChecklistSummarySchema } from '../utils/output-schemas.js';
+
+/**
+ * Schema for the add-checklist-items tool input
+ */
+const AddChecklistItemsSchema = z.object({
+  // Task number (e.g., "CRD-1")
+  number: z.string({
+    required_error: "Task number is required"
+  }).regex(/^[A-Za-z]{3}-\d+$/, { message: "Task number must be in the format ABC-123 (e.g., CRD-1 or crd-1). Case insensitive." }),
+
+  // Checklist item texts, appended in order
+  items: z.array(
+    z.string()
+      .min(1, "Checklist item cannot be empty")
+      .max(200, "Checklist item cannot exceed 200 characters")
+  )
+    .min(1, "At least one checklist item is required")
+    .max(50, "Cannot add more than 50 checklist items in one call")
+    .describe("Checklist items to append to the task"),
+}).strict();
+
+/**
+ * Type for the add-checklist-items tool input
+ */
+type AddChecklistItemsInput = z.infer<typeof AddChecklistItemsSchema>;
+
+/**
+ * Schema for the add-checklist-items tool output
+ */
+const AddChecklistItemsOutputSchema = z.object({
+  number: z.string(),
+  addedItems: z.array(ChecklistItemSchema),
+  checklist: ChecklistSummarySchema,
+  checklistConfirmation: z.string()
+}).strict();
+
+/**
+ * Type for the add-checklist-items tool output
+ */
+type AddChecklistItemsOutput = z.infer<typeof AddChecklistItemsOutputSchema>;
+
+/**
+ * Add Checklist Items Tool Implementation
+ */
+export class AddChecklistItemsTool extends BaseTool<typeof AddChecklistItemsSchema> {
+  readonly name = 'add_checklist_items';
+  readonly description = "Appends one or more checklist items (subtasks) to a task, identified by its task number (e.g., 'CRD-1'), and returns the task's checklist completion. Use this when breaking a task into concrete steps, so progress can be ticked off item by item instead of being written as prose in the description.";
+  readonly zodSchema = AddChecklistItemsSchema;
+  readonly outputSchema = AddChecklistItemsOutputSchema;
+  readonly annotations: ToolAnnotations = {
+    title: "Add Checklist Items",
+    readOnlyHint: false, // This tool adds data
+    destructiveHint: false, // Existing items are never modified
+    idempotentHint: false, // Each call appends new items
+    openWorldHint: true, // Interacts with an external API
+  };
+  readonly metadata = {
+    category: 'task' as const,
+    tags: ['task', 'checklist', 'subtask', 'steps', 'write'],
+    usage: 'Use when breaking a task into concrete steps, so progress can be ticked off item by item instead of being written as prose in the description',
+    priority: 'advanced' as const
+  };
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(apiClient?: SecureApiClient) {
+    super(apiClient);
+  }
+
+  /**
+   * Generate agent-specific instructions for checklist planning
+   */
+  generateAgentInstructions(): AgentInstructions {
+    return {
+      immediateActions: [
+        'Checklist items added to the task',
+        'Work through the items in order and tick each one when finished'
+      ],
+      nextRecommendedTools: ['tick_checklist_item', 'list_checklist'],
+      workflowPhase: 'implementation',
+      criticalReminders: [
+        'Tick items as soon as they are done so the completion percentage stays accurate'
+      ]
+    };
+  }
+
+  /**
+   * Returns the full tool definition conforming to MCP.
+   */
+  getMCPToolDefinition(): MCPToolDefinition {
+    return {
+      name: this.name,
+      description: this.description,
+      annotations: this.annotations,
+      metadata: this.metadata,
+      inputSchema: {
+        type: "object",
+        properties: {
+          number: {
+            type: "string",
+            pattern: "^[A-Za-z]{3}-\\d+$",
+            description: "The unique task number identifier in format 'ABC-123' where ABC is the three-letter project code and 123 is the task sequence number (e.g., 'CRD-1', 'CDB-42'). Case insensitive - will be converted to uppercase internally."
+          },
+          items: {
+            type: "array",
+            items: { type: "string" },
+            minItems: 1,
+            maxItems: 50,
+            description: "The checklist items to append, in order (e.g., ['Add migration', 'Write endpoint', 'Update docs']). Each item is a short imperative step of at most 200 characters. New items start unchecked."
+          }
+        },
+        required: ["number", "items"],
+        additionalProperties: false
+      },
+      outputSchema: this.getOutputJsonSchema()
+    };
+  }
+
+  /**
+   * Execute the add-checklist-items tool
+   */
+  async execute(input: AddChecklistItemsInput): Promise<AddChecklistItemsOutput | ToolErrorResult> {
+    logger.info('Executing add-checklist-items tool', input);
+
+    try {
+      // Use the injected API client to add the items
+      if (!this.apiClient) {
+        throw new Error('API client not available - tool not properly initialized');
+      }
+
+      const taskNumber = input.number.toUpperCase();
+      // Items bypass BaseTool field validation, so sanitize each one here
+      const texts = input.items.map(item => InputValidator.sanitizeDescription(item.replace(/[\r\n]+/g, ' ')));
+
+      const url = `/task/number/${taskNumber}/checklist`;
+      logger.debug(`Making POST request to: ${url}`);
+
+      const responseData = await this.apiClient.post<AddChecklistItemsApiResponse>(url, {
+        items: texts.map(text => ({ text }))
+      }) as unknown as AddChecklistItemsApiResponse;
+
+      if (!responseData || responseData.success === false || responseData.error) {
+        const apiErrorMessage = responseData?.error || responseData?.message || 'API reported checklist failure without a specific message.';
+        logger.warn(`Add checklist items API call for ${taskNumber} failed. Message: ${apiErrorMessage}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Adding checklist items to task ${taskNumber} failed: ${apiErrorMessage}` }]
+        };
+      }
+
+      const checklist = await fetchTaskChecklist(this.apiClient, taskNumber);
+
+      return {
+        number: taskNumber,
+        addedItems: (responseData.items || []).map(formatChecklistItem),
+        checklist: summarizeChecklist(checklist),
+        checklistConfirmation: `${texts.length} checklist item(s) added to task ${taskNumber}. API: ${responseData.message || 'Checklist successfully updated.'}`
+      };
+    } catch (error) {
+      let errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
+      logger.error(`Error in add-checklist-items tool: ${errorMessage}`, error instanceof Error ? error : undefined);
+
+      if (error instanceof Error && (error as any).status === 404) {
+        errorMessage = `Task with number '${input.number}' not found.`;
+      }
+
+      return {
+        isError: true,
+        content: [{ type: "text", text: errorMessage }]
+      };
+    }
+  }
+}
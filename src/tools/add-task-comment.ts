@@ -0,0 +1,202 @@
+/**
+ * Add Task Comment Tool
+ *
+ * Appends a timestamped comment to a task's activity log using the CodeRide API
+ */
+import { z } from 'zod';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
+import { SecureApiClient, AddTaskCommentApiResponse } from '../utils/secure-api-client.js';
+import { InputValidator } from '../utils/input-validator.js';
+import { formatTaskComment } from '../utils/task-comments.js';
+import { logger } from '../utils/logger.js';
+import { TaskCommentSchema } from '../utils/output-schemas.js';
+
+/**
+ * Schema for the add-task-comment tool input
+ */
+const AddTaskCommentSchema = z.object({
+  // Task number (e.g., "CRD-1")
+  number: z.string({
+    required_error: "Task number is required"
+  }).regex(/^[A-Za-z]{3}-\d+$/, { message: "Task number must be in the format ABC-123 (e.g., CRD-1 or crd-1). Case insensitive." }),
+
+  // Comment content with security constraints
+  comment: z.string({
+    required_error: "Comment text is required"
+  })
+    .min(1, "Comment cannot be empty")
+    .max(2000, "Comment cannot exceed 2000 characters")
+    .describe("Comment text to append to the task"),
+  agent: z.string()
+    .max(100, "Agent name cannot exceed 100 characters")
+    .optional()
+    .describe("Name of the agent or person adding the comment"),
+}).strict();
+
+/**
+ * Type for the add-task-comment tool input
+ */
+type AddTaskCommentInput = z.infer<typeof AddTaskCommentSchema>;
+
+/**
+ * Schema for the add-task-comment tool output
+ */
+const AddTaskCommentOutputSchema = z.object({
+  number: z.string(),
+  comment: TaskCommentSchema,
+  commentConfirmation: z.string()
+}).strict();
+
+/**
+ * Type for the add-task-comment tool output
+ */
+type AddTaskCommentOutput = z.infer<typeof AddTaskCommentOutputSchema>;
+
+/**
+ * Add Task Comment Tool Implementation
+ */
+export class AddTaskCommentTool extends BaseTool<typeof AddTaskCommentSchema> {
+  readonly name = 'add_task_comment';
+  readonly description = "Appends a timestamped, attributed comment to a task's activity log, identified by its task number (e.g., 'CRD-1'). Use this to record progress notes, decisions, or blockers while working on a task without overwriting the original task description.";
+  readonly zodSchema = AddTaskCommentSchema;
+  readonly outputSchema = AddTaskCommentOutputSchema;
+  readonly annotations: ToolAnnotations = {
+    title: "Add Task Comment",
+    readOnlyHint: false, // This tool adds data
+    destructiveHint: false, // Comments are append-only
+    idempotentHint: false, // Each call appends a new comment
+    openWorldHint: true, // Interacts with an external API
+  };
+  readonly metadata = {
+    category: 'task' as const,
+    tags: ['task', 'comment', 'activity', 'progress', 'write'],
+    usage: 'Use to record progress notes, decisions, or blockers while working on a task without overwriting the original task description',
+    priority: 'primary' as const
+  };
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(apiClient?: SecureApiClient) {
+    super(apiClient);
+  }
+
+  /**
+   * Generate agent-specific instructions for comment workflow
+   */
+  generateAgentInstructions(): AgentInstructions {
+    return {
+      immediateActions: [
+        'Progress note recorded in the task activity log',
+        'Continue implementation'
+      ],
+      nextRecommendedTools: ['update_task'],
+      workflowPhase: 'implementation',
+      criticalReminders: [
+        'Prefer comments over rewriting the description for progress notes',
+        'Update task status when the work state changes'
+      ]
+    };
+  }
+
+  /**
+   * Returns the full tool definition conforming to MCP.
+   */
+  getMCPToolDefinition(): MCPToolDefinition {
+    return {
+      name: this.name,
+      description: this.description,
+      annotations: this.annotations,
+      metadata: this.metadata,
+      inputSchema: {
+        type: "object",
+        properties: {
+          number: {
+            type: "string",
+            pattern: "^[A-Za-z]{3}-\\d+$",
+            description: "The unique task number identifier in format 'ABC-123' where ABC is the three-letter project code and 123 is the task sequence number (e.g., 'CRD-1', 'CDB-42'). Case insensitive - will be converted to uppercase internally."
+          },
+          comment: {
+            type: "string",
+            description: "The comment text to append to the task's activity log (e.g., progress made, decisions taken, blockers found). Maximum 2000 characters. Existing comments and the task description are never modified."
+          },
+          agent: {
+            type: "string",
+            description: "Optional. Name of the agent or person adding the comment (e.g., 'Claude', 'Cursor'). Shown as the comment's attribution. Maximum 100 characters."
+          }
+        },
+        required: ["number", "comment"],
+        additionalProperties: false
+      },
+      outputSchema: this.getOutputJsonSchema()
+    };
+  }
+
+  /**
+   * Execute the add-task-comment tool
+   */
+  async execute(input: AddTaskCommentInput): Promise<AddTaskCommentOutput | ToolErrorResult> {
+    logger.info('Executing add-task-comment tool', input);
+
+    try {
+      // Use the injected API client to add the comment
+      if (!this.apiClient) {
+        throw new Error('API client not available - tool not properly initialized');
+      }
+
+      const taskNumber = input.number.toUpperCase();
+      // The comment field bypasses BaseTool description sanitizing, so sanitize it here
+      const content = InputValidator.sanitizeDescription(input.comment);
+      if (!content) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Comment for task ${taskNumber} is empty after removing unsafe content` }]
+        };
+      }
+
+      const url = `/task/number/${taskNumber}/comments`;
+      logger.debug(`Making POST request to: ${url}`);
+
+      const responseData = await this.apiClient.post<AddTaskCommentApiResponse>(url, {
+        content,
+        created_by: input.agent || 'AI Agent'
+      }) as unknown as AddTaskCommentApiResponse;
+
+      if (!responseData || responseData.success === false || responseData.error) {
+        const apiErrorMessage = responseData?.error || responseData?.message || 'API reported comment failure without a specific message.';
+        logger.warn(`Add comment API call for ${taskNumber} failed. Message: ${apiErrorMessage}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Adding comment to task ${taskNumber} failed: ${apiErrorMessage}` }]
+        };
+      }
+
+      const comment = responseData.comment
+        ? formatTaskComment(responseData.comment)
+        : {
+            id: '',
+            content,
+            createdBy: input.agent || 'AI Agent',
+            createdAt: new Date().toISOString()
+          };
+
+      return {
+        number: taskNumber,
+        comment,
+        commentConfirmation: `Comment added to task ${taskNumber}. API: ${responseData.message || 'Comment successfully added.'}`
+      };
+    } catch (error) {
+      let errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
+      logger.error(`Error in add-task-comment tool: ${errorMessage}`, error instanceof Error ? error : undefined);
+
+      if (error instanceof Error && (error as any).status === 404) {
+        errorMessage = `Task with number '${input.number}' not found.`;
+      }
+
+      return {
+        isError: true,
+        content: [{ type: "text", text: errorMessage }]
+      };
+    }
+  }
+}
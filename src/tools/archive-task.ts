@@ -0,0 +1,322 @@
+/**
+ * Archive Task Tool
+ *
+ * Archives a task using the CodeRide API, with a preview/confirm step and a short undo window
+ */
+import { z } from 'zod';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
+import { SecureApiClient, TaskApiResponse, ArchiveTaskApiResponse } from '../utils/secure-api-client.js';
+import { ConfirmationTokenStore } from '../utils/confirmation-tokens.js';
+import { logger } from '../utils/logger.js';
+import { ConfirmationSchema, TaskSummarySchema } from '../utils/output-schemas.js';
+
+/**
+ * How long an archive can be undone through this tool
+ */
+const ARCHIVE_UNDO_WINDOW_MS = 10 * 60 * 1000;
+
+/**
+ * Schema for the archive-task tool input
+ */
+const ArchiveTaskSchema = z.object({
+  // Task number (e.g., "CRD-1")
+  number: z.string({
+    required_error: "Task number is required"
+  }).regex(/^[A-Za-z]{3}-\d+$/, { message: "Task number must be in the format ABC-123 (e.g., CRD-1 or crd-1). Case insensitive." }),
+
+  // Confirmation token from the preview call
+  confirm: z.string()
+    .regex(/^[A-Fa-f0-9]{16}$/, { message: "Confirm must be the 16-character value returned by the preview call" })
+    .optional()
+    .describe("Confirmation value returned by the preview call"),
+
+  // Restore a task archived moments ago
+  undo: z.boolean().optional().describe("Restore a task archived within the undo window"),
+}).strict().refine(
+  (data) => !(data.undo && data.confirm),
+  {
+    message: 'Use either confirm (to archive) or undo (to restore), not both',
+    path: ['undo']
+  }
+);
+
+/**
+ * Type for the archive-task tool input
+ */
+type ArchiveTaskInput = z.infer<typeof ArchiveTaskSchema>;
+
+/**
+ * Schema for the archive-task tool output
+ */
+const ArchiveTaskOutputSchema = z.object({
+  // Preview (no confirm): the task and the confirmation value to pass back
+  preview: z.literal(true).optional(),
+  action: z.literal('archive').optional(),
+  task: TaskSummarySchema.optional(),
+  confirmation: ConfirmationSchema.optional(),
+  message: z.string().optional(),
+  // Archive or undo
+  number: z.string().optional(),
+  archived: z.boolean().optional(),
+  undoAvailableUntil: z.string().optional(),
+  archiveConfirmation: z.string().optional(),
+  restoreConfirmation: z.string().optional()
+}).strict();
+
+/**
+ * Type for the archive-task tool output
+ */
+type ArchiveTaskOutput = z.infer<typeof ArchiveTaskOutputSchema>;
+
+/**
+ * Archive Task Tool Implementation
+ */
+export class ArchiveTaskTool extends BaseTool<typeof ArchiveTaskSchema> {
+  readonly name = 'archive_task';
+  readonly description = "Archives a task so it no longer appears on the project board. Called without 'confirm' it only returns a preview and a confirmation value; call again with that value to archive, and with 'undo' shortly afterwards to restore. Use this to clean up duplicate or obsolete tasks while keeping their history.";
+  readonly zodSchema = ArchiveTaskSchema;
+  readonly outputSchema = ArchiveTaskOutputSchema;
+  readonly annotations: ToolAnnotations = {
+    title: "Archive Task",
+    readOnlyHint: false, // This tool modifies data
+    destructiveHint: true, // Removes the task from the board
+    idempotentHint: false, // Each confirmation value can only be used once
+    openWorldHint: true, // Interacts with an external API
+  };
+  readonly metadata = {
+    category: 'task' as const,
+    tags: ['task', 'archive', 'cleanup', 'duplicate', 'write'],
+    usage: 'Use to clean up duplicate or obsolete tasks while keeping their history; preview first, then confirm',
+    priority: 'advanced' as const
+  };
+
+  /**
+   * Pending confirmation values issued by preview calls
+   */
+  private readonly confirmations = new ConfirmationTokenStore();
+
+  /**
+   * When each task was archived through this tool, for the undo window
+   */
+  private readonly archivedAt = new Map<string, number>();
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(apiClient?: SecureApiClient) {
+    super(apiClient);
+  }
+
+  /**
+   * Override to require project context for task cleanup
+   */
+  requiresProjectContext(): boolean {
+    return true;
+  }
+
+  /**
+   * Generate agent-specific instructions for the archive workflow
+   */
+  generateAgentInstructions(input: ArchiveTaskInput, result: any): AgentInstructions {
+    if (result?.isError) {
+      return {
+        immediateActions: [
+          'The archive did not happen - report the error to the user',
+          'If the confirmation was invalid or expired, call archive_task without confirm for a new preview'
+        ],
+        nextRecommendedTools: ['archive_task'],
+        workflowPhase: 'analysis'
+      };
+    }
+
+    if (result?.preview) {
+      return {
+        immediateActions: [
+          'Show the task preview to the user and ask for confirmation',
+          'Only after explicit approval, call archive_task again with the confirm value'
+        ],
+        nextRecommendedTools: ['archive_task'],
+        workflowPhase: 'analysis',
+        criticalReminders: [
+          'Never archive a task the user has not confirmed',
+          'Confirmation values expire after a few minutes and work only once'
+        ]
+      };
+    }
+
+    return {
+      immediateActions: result?.archived
+        ? ['Task archived', 'Tell the user it can be restored with undo until the window closes']
+        : ['Task restored to the board'],
+      nextRecommendedTools: ['list_tasks'],
+      workflowPhase: 'completion'
+    };
+  }
+
+  /**
+   * Returns the full tool definition conforming to MCP.
+   */
+  getMCPToolDefinition(): MCPToolDefinition {
+    return {
+      name: this.name,
+      description: this.description,
+      annotations: this.annotations,
+      metadata: this.metadata,
+      inputSchema: {
+        type: "object",
+        properties: {
+          number: {
+            type: "string",
+            pattern: "^[A-Za-z]{3}-\\d+$",
+            description: "The task number in format 'ABC-123' to archive (e.g., 'CRD-7'). Case insensitive - will be converted to uppercase internally."
+          },
+          confirm: {
+            type: "string",
+            pattern: "^[A-Fa-f0-9]{16}$",
+            description: "Optional. The confirmation value returned by a preview call for this same task. Omit it to get a preview without changing anything. Values expire after 5 minutes and can be used once."
+          },
+          undo: {
+            type: "boolean",
+            description: "Optional. When true, restores a task archived through this tool within the last 10 minutes. Cannot be combined with confirm."
+          }
+        },
+        required: ["number"],
+        additionalProperties: false
+      },
+      outputSchema: this.getOutputJsonSchema()
+    };
+  }
+
+  /**
+   * Execute the archive-task tool
+   */
+  async execute(input: ArchiveTaskInput): Promise<ArchiveTaskOutput | ToolErrorResult> {
+    logger.info('Executing archive-task tool', input);
+
+    try {
+      // Use the injected API client to archive the task
+      if (!this.apiClient) {
+        throw new Error('API client not available - tool not properly initialized');
+      }
+
+      const taskNumber = input.number.toUpperCase();
+
+      if (input.undo) {
+        return await this.restoreTask(taskNumber);
+      }
+
+      if (!input.confirm) {
+        return await this.previewArchive(taskNumber);
+      }
+
+      if (!this.confirmations.consume('archive', taskNumber, input.confirm)) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Invalid or expired confirmation for archiving ${taskNumber}. Call archive_task without confirm to get a new preview.` }]
+        };
+      }
+
+      const url = `/task/number/${taskNumber}/archive`;
+      logger.debug(`Making POST request to: ${url}`);
+
+      const responseData = await this.apiClient.post<ArchiveTaskApiResponse>(url, {}) as unknown as ArchiveTaskApiResponse;
+
+      if (!responseData || responseData.success === false || responseData.error) {
+        const apiErrorMessage = responseData?.error || responseData?.message || 'API reported archive failure without a specific message.';
+        logger.warn(`Archive API call for ${taskNumber} failed. Message: ${apiErrorMessage}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Archiving task ${taskNumber} failed: ${apiErrorMessage}` }]
+        };
+      }
+
+      const archivedAt = Date.now();
+      this.archivedAt.set(taskNumber, archivedAt);
+
+      return {
+        number: taskNumber,
+        archived: true,
+        undoAvailableUntil: new Date(archivedAt + ARCHIVE_UNDO_WINDOW_MS).toISOString(),
+        archiveConfirmation: `Task ${taskNumber} archived. API: ${responseData.message || 'Task successfully archived.'}`
+      };
+    } catch (error) {
+      let errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
+      logger.error(`Error in archive-task tool: ${errorMessage}`, error instanceof Error ? error : undefined);
+
+      if (error instanceof Error && (error as any).status === 404) {
+        errorMessage = `Task with number '${input.number}' not found.`;
+      }
+
+      return {
+        isError: true,
+        content: [{ type: "text", text: errorMessage }]
+      };
+    }
+  }
+
+  /**
+   * Describe what would be archived and issue a confirmation value
+   */
+  private async previewArchive(taskNumber: string): Promise<ArchiveTaskOutput | ToolErrorResult> {
+    const url = `/task/number/${taskNumber}`;
+    logger.debug(`Making GET request to: ${url}`);
+
+    const task = await this.apiClient!.get<TaskApiResponse>(url) as unknown as TaskApiResponse;
+
+    if (!task) {
+      return {
+        isError: true,
+        content: [{ type: "text", text: `Task with number '${taskNumber}' not found.` }]
+      };
+    }
+
+    return {
+      preview: true,
+      action: 'archive',
+      task: {
+        number: task.number || taskNumber,
+        title: task.title,
+        status: task.status,
+        priority: task.priority
+      },
+      confirmation: this.confirmations.issue('archive', taskNumber),
+      message: `Nothing was changed. To archive ${taskNumber}, call archive_task again with the confirm value. It can be restored with undo for 10 minutes afterwards.`
+    };
+  }
+
+  /**
+   * Restore a task archived within the undo window
+   */
+  private async restoreTask(taskNumber: string): Promise<ArchiveTaskOutput | ToolErrorResult> {
+    const archivedAt = this.archivedAt.get(taskNumber);
+
+    if (archivedAt === undefined || Date.now() - archivedAt > ARCHIVE_UNDO_WINDOW_MS) {
+      return {
+        isError: true,
+        content: [{ type: "text", text: `Task ${taskNumber} was not archived through this tool in the last 10 minutes, so it cannot be undone here. Restore it from the CodeRide web app instead.` }]
+      };
+    }
+
+    const url = `/task/number/${taskNumber}/unarchive`;
+    logger.debug(`Making POST request to: ${url}`);
+
+    const responseData = await this.apiClient!.post<ArchiveTaskApiResponse>(url, {}) as unknown as ArchiveTaskApiResponse;
+
+    if (!responseData || responseData.success === false || responseData.error) {
+      const apiErrorMessage = responseData?.error || responseData?.message || 'API reported restore failure without a specific message.';
+      logger.warn(`Unarchive API call for ${taskNumber} failed. Message: ${apiErrorMessage}`);
+      return {
+        isError: true,
+        content: [{ type: "text", text: `Restoring task ${taskNumber} failed: ${apiErrorMessage}` }]
+      };
+    }
+
+    this.archivedAt.delete(taskNumber);
+
+    return {
+      number: taskNumber,
+      archived: false,
+      restoreConfirmation: `Task ${taskNumber} restored. API: ${responseData.message || 'Task successfully restored.'}`
+    };
+  }
+}
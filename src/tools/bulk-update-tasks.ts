@@ -0,0 +1,280 @@
+/**
+ * Bulk Update Tasks Tool
+ *
+ * Updates the status and/or description of many tasks in one call using the CodeRide API
+ */
+import { z } from 'zod';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
+import { SecureApiClient } from '../utils/secure-api-client.js';
+import { InputValidator } from '../utils/input-validator.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { UpdateTaskTool } from './update-task.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Maximum number of task updates in flight at once
+ */
+const UPDATE_CONCURRENCY = 3;
+
+/**
+ * Schema for a single bulk update item
+ */
+const BulkUpdateItemSchema = z.object({
+  number: z.string({
+    required_error: "Task number is required for every item"
+  }).regex(/^[A-Za-z]{3}-\d+$/, { message: "Task number must be in the format ABC-123 (e.g., CRD-1 or crd-1). Case insensitive." }),
+  status: z.enum(['to-do', 'in-progress', 'done'], {
+    invalid_type_error: "Status must be one of: to-do, in-progress, done"
+  }).optional(),
+  description: z.string()
+    .max(2000, "Description cannot exceed 2000 characters")
+    .optional(),
+}).strict().refine(
+  (item) => item.status !== undefined || item.description !== undefined,
+  {
+    message: 'Each item must update at least one of status or description',
+    path: ['updateFields']
+  }
+);
+
+/**
+ * Schema for the bulk-update-tasks tool input
+ */
+const BulkUpdateTasksSchema = z.object({
+  items: z.array(BulkUpdateItemSchema)
+    .min(1, "At least one item is required")
+    .max(50, "Cannot update more than 50 tasks in one call")
+    .describe("Task updates to apply"),
+}).strict();
+
+/**
+ * Type for the bulk-update-tasks tool input
+ */
+type BulkUpdateTasksInput = z.infer<typeof BulkUpdateTasksSchema>;
+
+/**
+ * Schema for the bulk-update-tasks tool output
+ */
+const BulkUpdateTasksOutputSchema = z.object({
+  totalItems: z.number().int(),
+  succeeded: z.number().int(),
+  failed: z.number().int(),
+  results: z.array(z.object({
+    number: z.string(),
+    success: z.boolean(),
+    status: z.string().optional(),
+    error: z.string().optional(),
+    // Only present when the task was set to done with unticked checklist items
+    uncheckedChecklistItems: z.array(z.string()).optional()
+  }).strict())
+}).strict();
+
+/**
+ * Type for the bulk-update-tasks tool output
+ */
+type BulkUpdateTasksOutput = z.infer<typeof BulkUpdateTasksOutputSchema>;
+
+/**
+ * Per-item outcome reported back to the caller
+ */
+type BulkUpdateItemResult = BulkUpdateTasksOutput['results'][number];
+
+/**
+ * Bulk Update Tasks Tool Implementation
+ */
+export class BulkUpdateTasksTool extends BaseTool<typeof BulkUpdateTasksSchema> {
+  readonly name = 'bulk_update_tasks';
+  readonly description = "Updates the status and/or description of up to 50 tasks in a single call and returns a per-task success/failure report. Use this when closing out a sprint, moving a batch of tasks between statuses, or applying the same change to several tasks instead of calling update_task repeatedly.";
+  readonly zodSchema = BulkUpdateTasksSchema;
+  readonly outputSchema = BulkUpdateTasksOutputSchema;
+  readonly annotations: ToolAnnotations = {
+    title: "Bulk Update Tasks",
+    readOnlyHint: false, // This tool modifies data
+    destructiveHint: false, // Updates are generally not destructive
+    idempotentHint: false, // Description replacements may differ between calls
+    openWorldHint: true, // Interacts with an external API
+  };
+  readonly metadata = {
+    category: 'task' as const,
+    tags: ['task', 'update', 'bulk', 'batch', 'status', 'write'],
+    usage: 'Use when closing out a sprint, moving a batch of tasks between statuses, or applying the same change to several tasks instead of calling update_task repeatedly',
+    priority: 'advanced' as const
+  };
+
+  /**
+   * Single-task update logic shared with update_task
+   */
+  private readonly updateTaskTool: UpdateTaskTool;
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(apiClient?: SecureApiClient) {
+    super(apiClient);
+    this.updateTaskTool = new UpdateTaskTool(apiClient);
+  }
+
+  /**
+   * Override to require project context for task updates
+   */
+  requiresProjectContext(): boolean {
+    return true;
+  }
+
+  /**
+   * Generate agent-specific instructions for bulk update workflow
+   */
+  generateAgentInstructions(input: BulkUpdateTasksInput, result: any): AgentInstructions {
+    const failed = result?.failed || 0;
+    const completedAny = input.items.some(item => item.status === 'done');
+
+    const instructions: AgentInstructions = {
+      immediateActions: failed > 0
+        ? [
+            `${failed} of ${input.items.length} task updates failed`,
+            'Review the per-item errors and retry only the failed items'
+          ]
+        : [`All ${input.items.length} task updates applied`],
+      nextRecommendedTools: failed > 0 ? ['bulk_update_tasks', 'get_task'] : ['list_tasks'],
+      workflowPhase: completedAny ? 'completion' : 'implementation'
+    };
+
+    if (completedAny) {
+      instructions.projectUpdateRequired = true;
+      instructions.nextRecommendedTools.push('update_project');
+      instructions.criticalReminders = [
+        'Tasks were marked done - update project knowledge and diagram if architecture changed'
+      ];
+    }
+
+    // Warn when tasks were closed with open checklist items, like update_task does
+    const withUncheckedItems = (Array.isArray(result?.results) ? result.results : [])
+      .filter((item: BulkUpdateItemResult) => (item.uncheckedChecklistItems?.length || 0) > 0)
+      .map((item: BulkUpdateItemResult) => item.number);
+    if (withUncheckedItems.length > 0) {
+      instructions.immediateActions.unshift(
+        `WARNING: checklist items are still unchecked on ${withUncheckedItems.join(', ')}`
+      );
+      instructions.criticalReminders = [
+        'Finish and tick the remaining checklist items, or set those tasks back to "in-progress" if work remains',
+        ...(instructions.criticalReminders || [])
+      ];
+      instructions.nextRecommendedTools.unshift('list_checklist');
+    }
+
+    return instructions;
+  }
+
+  /**
+   * Returns the full tool definition conforming to MCP.
+   */
+  getMCPToolDefinition(): MCPToolDefinition {
+    return {
+      name: this.name,
+      description: this.description,
+      annotations: this.annotations,
+      metadata: this.metadata,
+      inputSchema: {
+        type: "object",
+        properties: {
+          items: {
+            type: "array",
+            minItems: 1,
+            maxItems: 50,
+            description: "The task updates to apply (maximum 50). Each item identifies a task by number and sets its status and/or description. Items are applied independently: a failing item does not stop the others.",
+            items: {
+              type: "object",
+              properties: {
+                number: {
+                  type: "string",
+                  pattern: "^[A-Za-z]{3}-\\d+$",
+                  description: "The task number in format 'ABC-123' (e.g., 'CRD-1'). Case insensitive."
+                },
+                status: {
+                  type: "string",
+                  enum: ["to-do", "in-progress", "done"],
+                  description: "Optional. The new status for the task."
+                },
+                description: {
+                  type: "string",
+                  description: "Optional. The new description for the task, replacing the existing one. Maximum 2000 characters."
+                }
+              },
+              required: ["number"],
+              additionalProperties: false
+            }
+          }
+        },
+        required: ["items"],
+        additionalProperties: false
+      },
+      outputSchema: this.getOutputJsonSchema()
+    };
+  }
+
+  /**
+   * Execute the bulk-update-tasks tool
+   */
+  async execute(input: BulkUpdateTasksInput): Promise<BulkUpdateTasksOutput | ToolErrorResult> {
+    logger.info(`Executing bulk-update-tasks tool for ${input.items.length} items`);
+
+    try {
+      // Use the injected API client to update tasks
+      if (!this.apiClient) {
+        throw new Error('API client not available - tool not properly initialized');
+      }
+
+      const results = await mapWithConcurrency(input.items, UPDATE_CONCURRENCY, item => this.updateItem(item));
+      const succeeded = results.filter(result => result.success).length;
+
+      return {
+        totalItems: results.length,
+        succeeded,
+        failed: results.length - succeeded,
+        results
+      };
+    } catch (error) {
+      const errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
+      logger.error(`Error in bulk-update-tasks tool: ${errorMessage}`, error instanceof Error ? error : undefined);
+
+      return {
+        isError: true,
+        content: [{ type: "text", text: errorMessage }]
+      };
+    }
+  }
+
+  /**
+   * Validate and apply a single item, converting any failure into a report entry
+   */
+  private async updateItem(item: BulkUpdateTasksInput['items'][number]): Promise<BulkUpdateItemResult> {
+    let number = item.number.toUpperCase();
+
+    try {
+      // Items bypass BaseTool field validation, so validate each one here
+      number = InputValidator.validateTaskNumber(item.number);
+      const update = {
+        number,
+        ...(item.status !== undefined && { status: InputValidator.validateTaskStatus(item.status) as typeof item.status }),
+        ...(item.description !== undefined && { description: InputValidator.sanitizeDescription(item.description) })
+      };
+
+      const result = await this.updateTaskTool.execute(update);
+
+      if ('isError' in result) {
+        return { number, success: false, error: result.content[0]?.text || 'Update failed' };
+      }
+
+      return {
+        number,
+        success: true,
+        status: result.status || item.status,
+        ...(result.uncheckedChecklistItems && { uncheckedChecklistItems: result.uncheckedChecklistItems })
+      };
+    } catch (error) {
+      const errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
+      logger.warn(`Bulk update item ${number} failed: ${errorMessage}`);
+      return { number, success: false, error: errorMessage };
+    }
+  }
+}
@@ -0,0 +1,336 @@
+/**
+ * Create Project Tool
+ *
+ * Creates a new project in the user workspace using the CodeRide API
+ */
+import { z } from 'zod';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
+import { SecureApiClient, CreateProjectApiResponse, ProjectListApiResponse } from '../utils/secure-api-client.js';
+import { InputValidator } from '../utils/input-validator.js';
+import { ProjectKnowledgeSchema } from './update-project.js';
+import { formatMermaidErrors, validateMermaid } from '../utils/mermaid.js';
+import { logger } from '../utils/logger.js';
+import { WorkspaceRefSchema } from '../utils/output-schemas.js';
+
+/**
+ * Schema for the create-project tool input
+ */
+const CreateProjectSchema = z.object({
+  // Human-readable project name
+  name: z.string({
+    required_error: "Project name is required"
+  })
+    .min(1, "Project name cannot be empty")
+    .max(100, "Project name cannot exceed 100 characters")
+    .describe("Project name"),
+
+  // Project slug (also the task number prefix)
+  slug: z.string({
+    required_error: "Project slug is required"
+  })
+  .regex(/^[A-Za-z]{3}$/, { message: "Project slug must be three letters (e.g., CRD or crd). Case insensitive." })
+  .describe("Three-letter project slug, used as task number prefix"),
+
+  // Project description with security constraints
+  description: z.string()
+    .max(2000, "Description cannot exceed 2000 characters")
+    .optional()
+    .describe("Project description"),
+
+  // Workspace id or name
+  workspace: z.string()
+    .min(1, "Workspace cannot be empty")
+    .max(100, "Workspace cannot exceed 100 characters")
+    .optional()
+    .describe("Workspace id or name to create the project in"),
+
+  // Optional initial knowledge and diagram
+  project_knowledge: ProjectKnowledgeSchema.optional().describe("Initial project knowledge graph data"),
+  project_diagram: z.string()
+    .max(15000, "Project diagram cannot exceed 15000 characters")
+    .optional()
+    .describe("Initial project structure diagram (Mermaid.js format)"),
+}).strict();
+
+/**
+ * Type for the create-project tool input
+ */
+type CreateProjectInput = z.infer<typeof CreateProjectSchema>;
+
+/**
+ * Schema for the create-project tool output
+ */
+const CreateProjectOutputSchema = z.object({
+  slug: z.string(),
+  name: z.string(),
+  description: z.string(),
+  workspace: WorkspaceRefSchema,
+  createConfirmation: z.string()
+}).strict();
+
+/**
+ * Type for the create-project tool output
+ */
+type CreateProjectOutput = z.infer<typeof CreateProjectOutputSchema>;
+
+/**
+ * Workspace reference as returned by list_projects
+ */
+interface WorkspaceRef {
+  id: string;
+  name: string;
+}
+
+/**
+ * Create Project Tool Implementation
+ */
+export class CreateProjectTool extends BaseTool<typeof CreateProjectSchema> {
+  readonly name = 'create_project';
+  readonly description = "Creates a new project in the user workspace with a name, a unique three-letter slug (checked against existing projects), a description and optional initial project knowledge and Mermaid diagram. Use this when bootstrapping a new repository that does not have a CodeRide project yet, before creating its first tasks and calling start_project.";
+  readonly zodSchema = CreateProjectSchema;
+  readonly outputSchema = CreateProjectOutputSchema;
+  readonly annotations: ToolAnnotations = {
+    title: "Create Project",
+    readOnlyHint: false, // This tool creates data
+    destructiveHint: false, // Creating a project does not modify existing data
+    idempotentHint: false, // A repeated call fails because the slug is taken
+    openWorldHint: true, // Interacts with an external API
+  };
+  readonly metadata = {
+    category: 'project' as const,
+    tags: ['project', 'create', 'bootstrap', 'initialize', 'write'],
+    usage: 'Use when bootstrapping a new repository that does not have a CodeRide project yet, before creating its first tasks and calling start_project',
+    priority: 'advanced' as const
+  };
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(apiClient?: SecureApiClient) {
+    super(apiClient);
+  }
+
+  /**
+   * Generate agent-specific instructions for project bootstrap workflow
+   */
+  generateAgentInstructions(input: CreateProjectInput, result: any): AgentInstructions {
+    if (!result || result.isError) {
+      return {
+        immediateActions: [
+          'Project was not created',
+          'If the slug is taken, pick one of the suggested slugs and retry'
+        ],
+        nextRecommendedTools: ['create_project', 'list_projects'],
+        workflowPhase: 'discovery'
+      };
+    }
+
+    return {
+      immediateActions: [
+        `Project ${result.slug} created`,
+        'Create the first tasks of the project',
+        'Then call start_project to begin the workflow'
+      ],
+      nextRecommendedTools: ['create_task', 'start_project'],
+      workflowPhase: 'discovery',
+      gitSetupRequired: true,
+      criticalReminders: [
+        `Task numbers of this project use the ${result.slug} prefix (e.g., ${result.slug}-1)`,
+        'start_project needs at least one task in the project',
+        'Fill in project_knowledge and project_diagram with update_project if they were not provided'
+      ]
+    };
+  }
+
+  /**
+   * Returns the full tool definition conforming to MCP.
+   */
+  getMCPToolDefinition(): MCPToolDefinition {
+    return {
+      name: this.name,
+      description: this.description,
+      annotations: this.annotations,
+      metadata: this.metadata,
+      inputSchema: {
+        type: "object",
+        properties: {
+          name: {
+            type: "string",
+            description: "The human-readable project name (e.g., 'CodeRide MCP'). Maximum 100 characters."
+          },
+          slug: {
+            type: "string",
+            pattern: "^[A-Za-z]{3}$",
+            description: "The unique three-letter project identifier/code (e.g., 'CRD' for CodeRide). Becomes the prefix of every task number in the project. Must not be used by an existing project; on a collision the error lists free alternatives. Case insensitive - will be converted to uppercase internally."
+          },
+          description: {
+            type: "string",
+            description: "Optional. What the project is about and what it should achieve. Maximum 2000 characters."
+          },
+          workspace: {
+            type: "string",
+            description: "Optional. The id or name of the workspace to create the project in, as shown by list_projects. Can be omitted when you only have access to one workspace."
+          },
+          project_knowledge: {
+            type: "object",
+            description: "Optional. Initial project knowledge graph, same structure as in update_project: { components: [], dependencies: [], technologies: [], architecture: string, patterns: [], notes: string, links: [], metadata: {} }."
+          },
+          project_diagram: {
+            type: "string",
+            description: "Optional. Initial Mermaid.js diagram of the project's architecture (e.g., 'graph TD; A-->B'). Maximum 15000 characters. Flowchart/graph, sequence and class diagrams are validated; an invalid diagram is rejected with line and column errors."
+          }
+        },
+        required: ["name", "slug"],
+        additionalProperties: false
+      },
+      outputSchema: this.getOutputJsonSchema()
+    };
+  }
+
+  /**
+   * Execute the create-project tool
+   */
+  async execute(input: CreateProjectInput): Promise<CreateProjectOutput | ToolErrorResult> {
+    logger.info('Executing create-project tool', input);
+
+    try {
+      // Use the injected API client to create the project
+      if (!this.apiClient) {
+        throw new Error('API client not available - tool not properly initialized');
+      }
+
+      const slug = input.slug.toUpperCase();
+      const name = InputValidator.sanitizeDescription(input.name.replace(/[\r\n]+/g, ' '));
+
+      // Same diagram check as update_project, before the slug lookup
+      if (input.project_diagram?.trim()) {
+        const validation = validateMermaid(input.project_diagram);
+        if (!validation.valid) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Project diagram is not valid Mermaid, so project ${slug} was not created:\n${formatMermaidErrors(validation.errors)}` }]
+          };
+        }
+      }
+
+      // Check the slug against the projects the user can see
+      const listUrl = `/project/list`;
+      logger.debug(`Making GET request to: ${listUrl}`);
+
+      const projectList = await this.apiClient.get<ProjectListApiResponse[]>(listUrl) as unknown as ProjectListApiResponse[];
+      const projects = Array.isArray(projectList) ? projectList : [];
+      const takenSlugs = new Set(projects.map(project => project.slug.toUpperCase()));
+
+      if (takenSlugs.has(slug)) {
+        const suggestions = this.suggestSlugs(name, takenSlugs);
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: `Project slug '${slug}' is already used by another project.${suggestions.length > 0 ? ` Free alternatives: ${suggestions.join(', ')}.` : ''}`
+          }]
+        };
+      }
+
+      const workspace = this.resolveWorkspace(input.workspace, projects);
+      if (typeof workspace === 'string') {
+        return {
+          isError: true,
+          content: [{ type: "text", text: workspace }]
+        };
+      }
+
+      const url = `/project/create`;
+      logger.debug(`Making POST request to: ${url}`);
+
+      const responseData = await this.apiClient.post<CreateProjectApiResponse>(url, {
+        name,
+        slug,
+        description: input.description || '',
+        ...(workspace && { workspace_id: workspace.id }),
+        ...(input.project_knowledge !== undefined && { project_knowledge: input.project_knowledge }),
+        ...(input.project_diagram !== undefined && { project_diagram: input.project_diagram })
+      }) as unknown as CreateProjectApiResponse;
+
+      if (!responseData || responseData.success === false || responseData.error) {
+        const apiErrorMessage = responseData?.error || responseData?.message || 'API reported project creation failure without a specific message.';
+        logger.warn(`Create project API call for ${slug} failed. Message: ${apiErrorMessage}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Creating project ${slug} failed: ${apiErrorMessage}` }]
+        };
+      }
+
+      const project = responseData.project;
+      const createdSlug = project?.slug?.toUpperCase() || slug;
+
+      return {
+        slug: createdSlug,
+        name: project?.name || name,
+        description: project?.description || input.description || '',
+        workspace: {
+          id: project?.workspace?.id || workspace?.id || '',
+          name: project?.workspace?.name || workspace?.name || ''
+        },
+        createConfirmation: `Project ${createdSlug} created. API: ${responseData.message || 'Project successfully created.'}`
+      };
+    } catch (error) {
+      const errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
+      logger.error(`Error in create-project tool: ${errorMessage}`, error instanceof Error ? error : undefined);
+
+      return {
+        isError: true,
+        content: [{ type: "text", text: errorMessage }]
+      };
+    }
+  }
+
+  /**
+   * Resolve the workspace argument against the workspaces seen in list_projects.
+   * Returns the workspace, null to let the API use the default workspace, or an error message.
+   */
+  private resolveWorkspace(workspace: string | undefined, projects: ProjectListApiResponse[]): WorkspaceRef | null | string {
+    const known = new Map<string, WorkspaceRef>();
+    for (const project of projects) {
+      if (project.workspace?.id) {
+        known.set(project.workspace.id, { id: project.workspace.id, name: project.workspace.name || '' });
+      }
+    }
+    const workspaces = [...known.values()];
+
+    if (!workspace) {
+      if (workspaces.length > 1) {
+        return `You have access to several workspaces; pass workspace as one of: ${workspaces.map(entry => `${entry.name} (${entry.id})`).join(', ')}`;
+      }
+      return workspaces[0] || null;
+    }
+
+    const wanted = workspace.trim().toLowerCase();
+    const match = workspaces.find(entry => entry.id.toLowerCase() === wanted || entry.name.toLowerCase() === wanted);
+
+    // Workspaces without projects are not visible in list_projects, so pass unknown values through as ids
+    return match || { id: workspace.trim(), name: '' };
+  }
+
+  /**
+   * Suggest free slugs derived from the project name
+   */
+  private suggestSlugs(name: string, takenSlugs: Set<string>): string[] {
+    const letters = name.toUpperCase().replace(/[^A-Z ]/g, '');
+    const words = letters.split(/\s+/).filter(Boolean);
+    const compact = words.join('');
+    const consonants = compact.replace(/(?!^)[AEIOU]/g, '');
+
+    const candidates = [
+      words.map(word => word[0]).join('').slice(0, 3),
+      compact.slice(0, 3),
+      consonants.slice(0, 3),
+      ...(words.length > 1 ? [words[0].slice(0, 2) + words[1][0], words[0][0] + words[1].slice(0, 2)] : []),
+      ...compact.slice(1).split('').map(letter => compact.slice(0, 2) + letter)
+    ];
+
+    return [...new Set(candidates)]
+      .filter(candidate => /^[A-Z]{3}$/.test(candidate) && !takenSlugs.has(candidate))
+      .slice(0, 3);
+  }
+}
@@ -0,0 +1,289 @@
+/**
+ * Create Task Tool
+ *
+ * Creates a new task in a project using the CodeRide API
+ */
+import { z } from 'zod';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
+import { SecureApiClient, CreateTaskApiResponse, TaskListApiResponse } from '../utils/secure-api-client.js';
+import { fetchTaskBoard, getNextTaskNumber } from '../utils/task-board.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Attempts at creating a task when its number was taken by a concurrent create
+ */
+const MAX_CREATE_ATTEMPTS = 3;
+
+/**
+ * Schema for the create-task tool input
+ */
+const CreateTaskSchema = z.object({
+  // Project the task belongs to
+  slug: z.string({
+    required_error: "Project slug is required to identify the project",
+    invalid_type_error: "Project slug must be a string"
+  })
+  .regex(/^[A-Za-z]{3}$/, { message: "Project slug must be three letters (e.g., CRD or crd). Case insensitive." })
+  .describe("Project slug the new task belongs to (case insensitive)"),
+
+  // Task content with security constraints
+  title: z.string({
+    required_error: "Task title is required"
+  })
+    .min(1, "Title cannot be empty")
+    .max(200, "Title cannot exceed 200 characters")
+    .describe("Short task title"),
+  description: z.string({
+    required_error: "Task description is required"
+  })
+    .max(2000, "Description cannot exceed 2000 characters")
+    .describe("Task description"),
+  priority: z.enum(['low', 'medium', 'high'], {
+    required_error: "Task priority is required",
+    invalid_type_error: "Priority must be one of: low, medium, high"
+  }).describe("Task priority"),
+
+  // Optional placement on the board
+  status: z.enum(['to-do', 'in-progress', 'done'], {
+    invalid_type_error: "Status must be one of: to-do, in-progress, done"
+  }).optional().describe("Initial task status (defaults to to-do)"),
+  column: z.string()
+    .max(100, "Column identifier cannot exceed 100 characters")
+    .optional()
+    .describe("Board column id to place the task in (defaults to the column matching the status)"),
+}).strict();
+
+/**
+ * Type for the create-task tool input
+ */
+export type CreateTaskInput = z.infer<typeof CreateTaskSchema>;
+
+/**
+ * Schema for the create-task tool output
+ */
+const CreateTaskOutputSchema = z.object({
+  number: z.string(),
+  title: z.string(),
+  description: z.string(),
+  status: z.string(),
+  priority: z.string(),
+  column: z.string(),
+  createConfirmation: z.string()
+}).strict();
+
+/**
+ * Type for the create-task tool output
+ */
+export type CreateTaskOutput = z.infer<typeof CreateTaskOutputSchema>;
+
+/**
+ * Create Task Tool Implementation
+ */
+export class CreateTaskTool extends BaseTool<typeof CreateTaskSchema> {
+  readonly name = 'create_task';
+  readonly description = "Creates a new task in a project identified by its slug (e.g., 'CRD'), assigning it the next available task number. Use this when you discover follow-up work, bugs, or out-of-scope changes while working on a task, so they are tracked on the board instead of being buried in the current task's description.";
+  readonly zodSchema = CreateTaskSchema;
+  readonly outputSchema = CreateTaskOutputSchema;
+  readonly annotations: ToolAnnotations = {
+    title: "Create Task",
+    readOnlyHint: false, // This tool creates data
+    destructiveHint: false, // Creating a task does not modify existing data
+    idempotentHint: false, // Each call creates a new task
+    openWorldHint: true, // Interacts with an external API
+  };
+  readonly metadata = {
+    category: 'task' as const,
+    tags: ['task', 'create', 'follow-up', 'backlog', 'write'],
+    usage: 'Use when you discover follow-up work, bugs, or out-of-scope changes while working on a task, so they are tracked on the board instead of in the current task description',
+    priority: 'primary' as const
+  };
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(apiClient?: SecureApiClient) {
+    super(apiClient);
+  }
+
+  /**
+   * Override to require project context for task creation
+   */
+  requiresProjectContext(): boolean {
+    return true;
+  }
+
+  /**
+   * Generate agent-specific instructions for task creation workflow
+   */
+  generateAgentInstructions(input: any, result: any): AgentInstructions {
+    const createdNumber = result && !result.isError ? result.number : undefined;
+
+    return {
+      immediateActions: createdNumber
+        ? [
+            `Task ${createdNumber} created`,
+            'Resume work on the current task',
+            'Reference the new task number in progress notes where relevant'
+          ]
+        : [
+            'Task creation did not complete',
+            'Review the error and retry if the follow-up work still needs tracking'
+          ],
+      nextRecommendedTools: createdNumber ? ['update_task', 'list_tasks'] : ['list_tasks'],
+      workflowPhase: 'implementation',
+      criticalReminders: [
+        'Do not switch to the new task until the current task is finished',
+        'Keep follow-up tasks small and focused on a single outcome'
+      ]
+    };
+  }
+
+  /**
+   * Returns the full tool definition conforming to MCP.
+   */
+  getMCPToolDefinition(): MCPToolDefinition {
+    return {
+      name: this.name,
+      description: this.description,
+      annotations: this.annotations,
+      metadata: this.metadata,
+      inputSchema: {
+        type: "object",
+        properties: {
+          slug: {
+            type: "string",
+            pattern: "^[A-Za-z]{3}$",
+            description: "The unique three-letter project identifier/code (e.g., 'CRD' for CodeRide) the task will be created in. The new task number uses this prefix (e.g., 'CRD-42'). Case insensitive - will be converted to uppercase internally."
+          },
+          title: {
+            type: "string",
+            description: "Short, action-oriented task title (e.g., 'Add retry to webhook sender'). Maximum 200 characters."
+          },
+          description: {
+            type: "string",
+            description: "Task description explaining what needs to be done and why, including any context discovered while working on the current task. Maximum 2000 characters."
+          },
+          priority: {
+            type: "string",
+            enum: ["low", "medium", "high"],
+            description: "Task priority. Use 'high' for blockers or bugs affecting current work, 'medium' for planned follow-ups, and 'low' for nice-to-have improvements."
+          },
+          status: {
+            type: "string",
+            enum: ["to-do", "in-progress", "done"],
+            description: "Optional. Initial status for the task. Defaults to 'to-do'."
+          },
+          column: {
+            type: "string",
+            description: "Optional. Board column id to place the task in, as reported by list_tasks. Defaults to the column matching the status."
+          }
+        },
+        required: ["slug", "title", "description", "priority"],
+        additionalProperties: false
+      },
+      outputSchema: this.getOutputJsonSchema()
+    };
+  }
+
+  /**
+   * Execute the create-task tool
+   */
+  async execute(input: CreateTaskInput): Promise<CreateTaskOutput | ToolErrorResult> {
+    logger.info('Executing create-task tool', input);
+
+    try {
+      // Use the injected API client to create the task
+      if (!this.apiClient) {
+        throw new Error('API client not available - tool not properly initialized');
+      }
+
+      const board = await fetchTaskBoard(this.apiClient, input.slug);
+      return await this.createOnBoard(input, board);
+    } catch (error) {
+      let errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
+      logger.error(`Error in create-task tool: ${errorMessage}`, error instanceof Error ? error : undefined);
+
+      if (error instanceof Error && (error as any).status === 404) {
+        errorMessage = `Project with slug '${input.slug}' not found.`;
+      }
+
+      return {
+        isError: true,
+        content: [{ type: "text", text: errorMessage }]
+      };
+    }
+  }
+
+  /**
+   * Create a task with the next free number of the given board snapshot.
+   * Numbers are allocated client-side, so when a concurrent create took the number first the
+   * board is fetched again and the next free number is tried. API errors are thrown.
+   */
+  async createOnBoard(input: CreateTaskInput, board: TaskListApiResponse | null): Promise<CreateTaskOutput | ToolErrorResult> {
+    const slug = input.slug.toUpperCase();
+    const status = input.status || 'to-do';
+    const column = input.column || status;
+    const url = `/task/project/slug/${slug}/create`;
+
+    for (let attempt = 1; ; attempt++) {
+      const taskNumber = getNextTaskNumber(slug, board);
+      const position = board?.columns?.find(c => c.id === column)?.tasks?.length || 0;
+
+      logger.debug(`Making POST request to: ${url}`);
+      let responseData: CreateTaskApiResponse;
+      try {
+        responseData = await this.apiClient!.post<CreateTaskApiResponse>(url, {
+          number: taskNumber,
+          title: input.title,
+          description: input.description,
+          priority: input.priority,
+          status,
+          column_id: column,
+          position
+        }) as unknown as CreateTaskApiResponse;
+      } catch (error) {
+        if ((error as any)?.status !== 409 || attempt >= MAX_CREATE_ATTEMPTS) {
+          throw error;
+        }
+        responseData = { success: false, error: 'conflict' };
+      }
+
+      if (!responseData || responseData.success === false || responseData.error) {
+        const apiErrorMessage = responseData?.error || responseData?.message || 'API reported create failure without a specific message.';
+
+        if (this.isNumberConflict(apiErrorMessage) && attempt < MAX_CREATE_ATTEMPTS) {
+          logger.warn(`Task number ${taskNumber} was taken by a concurrent create, retrying with a fresh board (attempt ${attempt}/${MAX_CREATE_ATTEMPTS})`);
+          board = await fetchTaskBoard(this.apiClient!, slug);
+          continue;
+        }
+
+        logger.warn(`Create task API call for ${slug} failed. Message: ${apiErrorMessage}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Creating task in project ${slug} failed: ${apiErrorMessage}` }]
+        };
+      }
+
+      const apiMessage = responseData.message || 'Task successfully created.';
+      const task = responseData.task;
+      const createdNumber = task?.number || responseData.number || taskNumber;
+
+      return {
+        number: createdNumber,
+        title: task?.title || input.title,
+        description: task?.description || input.description,
+        status: task?.status || status,
+        priority: task?.priority || input.priority,
+        column,
+        createConfirmation: `Task ${createdNumber} created in project ${slug}. API: ${apiMessage}`
+      };
+    }
+  }
+
+  /**
+   * Whether a create failure means the task number is already in use
+   */
+  private isNumberConflict(message: string): boolean {
+    return /conflict|already exists|already in use|duplicate/i.test(message);
+  }
+}
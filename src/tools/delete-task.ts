@@ -0,0 +1,241 @@
+/**
+ * Delete Task Tool
+ *
+ * Permanently deletes a task using the CodeRide API, with a preview/confirm step
+ */
+import { z } from 'zod';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
+import { SecureApiClient, TaskApiResponse, DeleteTaskApiResponse } from '../utils/secure-api-client.js';
+import { ConfirmationTokenStore } from '../utils/confirmation-tokens.js';
+import { logger } from '../utils/logger.js';
+import { ConfirmationSchema, TaskSummarySchema } from '../utils/output-schemas.js';
+
+/**
+ * Schema for the delete-task tool input
+ */
+const DeleteTaskSchema = z.object({
+  // Task number (e.g., "CRD-1")
+  number: z.string({
+    required_error: "Task number is required"
+  }).regex(/^[A-Za-z]{3}-\d+$/, { message: "Task number must be in the format ABC-123 (e.g., CRD-1 or crd-1). Case insensitive." }),
+
+  // Confirmation token from the preview call
+  confirm: z.string()
+    .regex(/^[A-Fa-f0-9]{16}$/, { message: "Confirm must be the 16-character value returned by the preview call" })
+    .optional()
+    .describe("Confirmation value returned by the preview call"),
+}).strict();
+
+/**
+ * Type for the delete-task tool input
+ */
+type DeleteTaskInput = z.infer<typeof DeleteTaskSchema>;
+
+/**
+ * Schema for the delete-task tool output
+ */
+const DeleteTaskOutputSchema = z.object({
+  // Preview (no confirm): the task and the confirmation value to pass back
+  preview: z.literal(true).optional(),
+  action: z.literal('delete').optional(),
+  task: TaskSummarySchema.optional(),
+  confirmation: ConfirmationSchema.optional(),
+  message: z.string().optional(),
+  // Deletion
+  number: z.string().optional(),
+  deleted: z.boolean().optional(),
+  deleteConfirmation: z.string().optional()
+}).strict();
+
+/**
+ * Type for the delete-task tool output
+ */
+type DeleteTaskOutput = z.infer<typeof DeleteTaskOutputSchema>;
+
+/**
+ * Delete Task Tool Implementation
+ */
+export class DeleteTaskTool extends BaseTool<typeof DeleteTaskSchema> {
+  readonly name = 'delete_task';
+  readonly description = "Permanently deletes a task. Called without 'confirm' it only returns a preview and a confirmation value; call again with that value to delete. Use this only for tasks created by mistake (e.g., accidental duplicates); prefer archive_task when the history should be kept.";
+  readonly zodSchema = DeleteTaskSchema;
+  readonly outputSchema = DeleteTaskOutputSchema;
+  readonly annotations: ToolAnnotations = {
+    title: "Delete Task",
+    readOnlyHint: false, // This tool modifies data
+    destructiveHint: true, // Deletion cannot be undone
+    idempotentHint: false, // Each confirmation value can only be used once
+    openWorldHint: true, // Interacts with an external API
+  };
+  readonly metadata = {
+    category: 'task' as const,
+    tags: ['task', 'delete', 'remove', 'duplicate', 'write'],
+    usage: 'Use only for tasks created by mistake, such as accidental duplicates; preview first, then confirm. Prefer archive_task when history should be kept',
+    priority: 'advanced' as const
+  };
+
+  /**
+   * Pending confirmation values issued by preview calls
+   */
+  private readonly confirmations = new ConfirmationTokenStore();
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(apiClient?: SecureApiClient) {
+    super(apiClient);
+  }
+
+  /**
+   * Override to require project context for task cleanup
+   */
+  requiresProjectContext(): boolean {
+    return true;
+  }
+
+  /**
+   * Generate agent-specific instructions for the delete workflow
+   */
+  generateAgentInstructions(input: DeleteTaskInput, result: any): AgentInstructions {
+    if (result?.isError) {
+      return {
+        immediateActions: [
+          'The delete did not happen - report the error to the user',
+          'If the confirmation was invalid or expired, call delete_task without confirm for a new preview'
+        ],
+        nextRecommendedTools: ['delete_task'],
+        workflowPhase: 'analysis'
+      };
+    }
+
+    if (result?.preview) {
+      return {
+        immediateActions: [
+          'Show the task preview to the user and ask for explicit confirmation',
+          'Only after approval, call delete_task again with the confirm value'
+        ],
+        nextRecommendedTools: ['delete_task', 'archive_task'],
+        workflowPhase: 'analysis',
+        criticalReminders: [
+          'Deletion is permanent and cannot be undone',
+          'Suggest archive_task instead if the task may be needed later'
+        ]
+      };
+    }
+
+    return {
+      immediateActions: ['Task deleted permanently'],
+      nextRecommendedTools: ['list_tasks'],
+      workflowPhase: 'completion'
+    };
+  }
+
+  /**
+   * Returns the full tool definition conforming to MCP.
+   */
+  getMCPToolDefinition(): MCPToolDefinition {
+    return {
+      name: this.name,
+      description: this.description,
+      annotations: this.annotations,
+      metadata: this.metadata,
+      inputSchema: {
+        type: "object",
+        properties: {
+          number: {
+            type: "string",
+            pattern: "^[A-Za-z]{3}-\\d+$",
+            description: "The task number in format 'ABC-123' to delete (e.g., 'CRD-7'). Case insensitive - will be converted to uppercase internally."
+          },
+          confirm: {
+            type: "string",
+            pattern: "^[A-Fa-f0-9]{16}$",
+            description: "Optional. The confirmation value returned by a preview call for this same task. Omit it to get a preview without changing anything. Values expire after 5 minutes and can be used once."
+          }
+        },
+        required: ["number"],
+        additionalProperties: false
+      },
+      outputSchema: this.getOutputJsonSchema()
+    };
+  }
+
+  /**
+   * Execute the delete-task tool
+   */
+  async execute(input: DeleteTaskInput): Promise<DeleteTaskOutput | ToolErrorResult> {
+    logger.info('Executing delete-task tool', input);
+
+    try {
+      // Use the injected API client to delete the task
+      if (!this.apiClient) {
+        throw new Error('API client not available - tool not properly initialized');
+      }
+
+      const taskNumber = input.number.toUpperCase();
+      const url = `/task/number/${taskNumber}`;
+
+      if (!input.confirm) {
+        logger.debug(`Making GET request to: ${url}`);
+        const task = await this.apiClient.get<TaskApiResponse>(url) as unknown as TaskApiResponse;
+
+        if (!task) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Task with number '${taskNumber}' not found.` }]
+          };
+        }
+
+        return {
+          preview: true,
+          action: 'delete',
+          task: {
+            number: task.number || taskNumber,
+            title: task.title,
+            status: task.status,
+            priority: task.priority
+          },
+          confirmation: this.confirmations.issue('delete', taskNumber),
+          message: `Nothing was changed. To permanently delete ${taskNumber}, call delete_task again with the confirm value. This cannot be undone.`
+        };
+      }
+
+      if (!this.confirmations.consume('delete', taskNumber, input.confirm)) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Invalid or expired confirmation for deleting ${taskNumber}. Call delete_task without confirm to get a new preview.` }]
+        };
+      }
+
+      logger.debug(`Making DELETE request to: ${url}`);
+      const responseData = await this.apiClient.delete<DeleteTaskApiResponse>(url) as unknown as DeleteTaskApiResponse;
+
+      if (responseData && (responseData.success === false || responseData.error)) {
+        const apiErrorMessage = responseData.error || responseData.message || 'API reported delete failure without a specific message.';
+        logger.warn(`Delete API call for ${taskNumber} failed. Message: ${apiErrorMessage}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Deleting task ${taskNumber} failed: ${apiErrorMessage}` }]
+        };
+      }
+
+      return {
+        number: taskNumber,
+        deleted: true,
+        deleteConfirmation: `Task ${taskNumber} deleted. API: ${responseData?.message || 'Task successfully deleted.'}`
+      };
+    } catch (error) {
+      let errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
+      logger.error(`Error in delete-task tool: ${errorMessage}`, error instanceof Error ? error : undefined);
+
+      if (error instanceof Error && (error as any).status === 404) {
+        errorMessage = `Task with number '${input.number}' not found.`;
+      }
+
+      return {
+        isError: true,
+        content: [{ type: "text", text: errorMessage }]
+      };
+    }
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Diff Project Versions Tool
+ *
+ * Compares two stored versions of a project's knowledge and diagram, or a version with the current project
+ */
+import { z } from 'zod';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
+import { SecureApiClient, ProjectApiResponse } from '../utils/secure-api-client.js';
+import { ProjectHistoryStore, ProjectState, diffDiagramLines } from '../utils/project-history.js';
+import { diffJsonPaths, getJsonPointerValue } from '../utils/json-patch.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Schema for a version number
+ */
+const VersionSchema = z.number()
+  .int("Version must be an integer")
+  .min(1, "Version must be at least 1");
+
+/**
+ * Schema for the diff-project-versions tool input
+ */
+const DiffProjectVersionsSchema = z.object({
+  // Project slug (URL-friendly identifier)
+  slug: z.string({
+    required_error: "Project slug is required"
+  })
+    .regex(/^[A-Za-z]{3}$/, { message: "Project slug must be three letters (e.g., CRD or crd). Case insensitive." }),
+
+  // Older side of the comparison
+  from: VersionSchema.describe("Version to compare from"),
+
+  // Newer side of the comparison; the current project when omitted
+  to: VersionSchema.optional().describe("Version to compare to (defaults to the current project)"),
+}).strict();
+
+/**
+ * Type for the diff-project-versions tool input
+ */
+type DiffProjectVersionsInput = z.infer<typeof DiffProjectVersionsSchema>;
+
+/**
+ * Schema for the diff-project-versions tool output
+ */
+const DiffProjectVersionsOutputSchema = z.object({
+  slug: z.string(),
+  from: z.object({
+    version: z.number().int(),
+    takenAt: z.string()
+  }).strict(),
+  to: z.object({
+    version: z.union([z.number().int(), z.literal('current')]),
+    takenAt: z.string().optional()
+  }).strict(),
+  knowledgeChanges: z.array(z.object({
+    path: z.string().describe('JSON Pointer of the changed value'),
+    type: z.enum(['added', 'removed', 'changed']),
+    before: z.any(),
+    after: z.any()
+  }).strict()),
+  diagramChanges: z.array(z.object({
+    type: z.enum(['added', 'removed']),
+    line: z.number().int(),
+    text: z.string()
+  }).strict()),
+  summary: z.string()
+}).strict();
+
+/**
+ * Type for the diff-project-versions tool output
+ */
+type DiffProjectVersionsOutput = z.infer<typeof DiffProjectVersionsOutputSchema>;
+
+/**
+ * Diff Project Versions Tool Implementation
+ */
+export class DiffProjectVersionsTool extends BaseTool<typeof DiffProjectVersionsSchema> {
+  readonly name = 'diff_project_versions';
+  readonly description = "Shows what changed in a project's knowledge and diagram between two saved versions, or between a saved version and the current project. Knowledge changes are listed per JSON Pointer path with the old and new value; diagram changes are listed as added and removed lines. Use this to review what an update_project call changed before accepting it or restoring an earlier version.";
+  readonly zodSchema = DiffProjectVersionsSchema;
+  readonly outputSchema = DiffProjectVersionsOutputSchema;
+  readonly annotations: ToolAnnotations = {
+    title: "Diff Project Versions",
+    readOnlyHint: true,
+    openWorldHint: true, // Reads the current project from the external API
+  };
+  readonly metadata = {
+    category: 'project' as const,
+    tags: ['project', 'history', 'versions', 'diff', 'read'],
+    usage: 'Use to review what an update_project call changed before accepting it or restoring an earlier version',
+    priority: 'advanced' as const
+  };
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(apiClient?: SecureApiClient) {
+    super(apiClient);
+  }
+
+  /**
+   * Generate agent-specific instructions for version comparison
+   */
+  generateAgentInstructions(input: DiffProjectVersionsInput, result: any): AgentInstructions {
+    const removedPaths = Array.isArray(result?.knowledgeChanges)
+      ? result.knowledgeChanges.filter((change: any) => change.type === 'removed').length
+      : 0;
+
+    return {
+      immediateActions: [
+        'Summarize the differences for the user',
+        ...(removedPaths > 0 ? [`${removedPaths} knowledge path(s) were removed - confirm the removal was intended`] : [])
+      ],
+      nextRecommendedTools: ['restore_project_version', 'update_project'],
+      workflowPhase: 'context',
+      criticalReminders: [
+        'Only restore an earlier version when the user agrees to it'
+      ]
+    };
+  }
+
+  /**
+   * Returns the full tool definition conforming to MCP.
+   */
+  getMCPToolDefinition(): MCPToolDefinition {
+    return {
+      name: this.name,
+      description: this.description,
+      annotations: this.annotations,
+      metadata: this.metadata,
+      inputSchema: {
+        type: "object",
+        properties: {
+          slug: {
+            type: "string",
+            pattern: "^[A-Za-z]{3}$",
+            description: "The unique three-letter project identifier/code (e.g., 'CRD' for CodeRide). Case insensitive - will be converted to uppercase internally."
+          },
+          from: {
+            type: "integer",
+            minimum: 1,
+            description: "The version to compare from, as listed by list_project_versions."
+          },
+          to: {
+            type: "integer",
+            minimum: 1,
+            description: "Optional. The version to compare to. Defaults to the current project."
+          }
+        },
+        required: ["slug", "from"],
+        additionalProperties: false
+      },
+      outputSchema: this.getOutputJsonSchema()
+    };
+  }
+
+  /**
+   * Version history of the account behind the API client
+   */
+  private getHistoryStore(): ProjectHistoryStore {
+    if (!this.apiClient) {
+      throw new Error('API client not available - tool not properly initialized');
+    }
+    return new ProjectHistoryStore(this.apiClient.getAccountId());
+  }
+
+  /**
+   * Execute the diff-project-versions tool
+   */
+  async execute(input: DiffProjectVersionsInput): Promise<DiffProjectVersionsOutput | ToolErrorResult> {
+    logger.info('Executing diff-project-versions tool', input);
+
+    try {
+      const slug = input.slug.toUpperCase();
+
+      const fromSnapshot = await this.getHistoryStore().get(slug, input.from);
+      if (!fromSnapshot) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Version ${input.from} of project ${slug} not found. Use list_project_versions to see the stored versions.` }]
+        };
+      }
+
+      let toState: ProjectState;
+      let toVersion: { version: number | 'current'; takenAt?: string };
+      if (input.to !== undefined) {
+        const toSnapshot = await this.getHistoryStore().get(slug, input.to);
+        if (!toSnapshot) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Version ${input.to} of project ${slug} not found. Use list_project_versions to see the stored versions.` }]
+          };
+        }
+        toState = toSnapshot;
+        toVersion = { version: toSnapshot.version, takenAt: toSnapshot.takenAt };
+      } else {
+        // Use the injected API client to get the current project
+        if (!this.apiClient) {
+          throw new Error('API client not available - tool not properly initialized');
+        }
+
+        const url = `/project/slug/${slug}`;
+        logger.debug(`Making GET request to: ${url}`);
+        const project = await this.apiClient.get<ProjectApiResponse>(url) as unknown as ProjectApiResponse;
+        toState = {
+          projectKnowledge: project?.projectKnowledge || {},
+          projectDiagram: project?.projectDiagram || ''
+        };
+        toVersion = { version: 'current' };
+      }
+
+      const knowledgeChanges = diffJsonPaths(fromSnapshot.projectKnowledge || {}, toState.projectKnowledge || {}).map((path): DiffProjectVersionsOutput['knowledgeChanges'][number] => {
+        const before = getJsonPointerValue(fromSnapshot.projectKnowledge || {}, path);
+        const after = getJsonPointerValue(toState.projectKnowledge || {}, path);
+        return {
+          path,
+          type: before === undefined ? 'added' : after === undefined ? 'removed' : 'changed',
+          before,
+          after
+        };
+      });
+      const diagramChanges = diffDiagramLines(fromSnapshot.projectDiagram || '', toState.projectDiagram || '');
+      const toLabel = input.to !== undefined ? `version ${input.to}` : 'the current project';
+
+      return {
+        slug,
+        from: { version: fromSnapshot.version, takenAt: fromSnapshot.takenAt },
+        to: toVersion,
+        knowledgeChanges,
+        diagramChanges,
+        summary: knowledgeChanges.length === 0 && diagramChanges.length === 0
+          ? `No differences between version ${fromSnapshot.version} and ${toLabel}.`
+          : `${knowledgeChanges.length} knowledge path(s) and ${diagramChanges.length} diagram line(s) differ between version ${fromSnapshot.version} and ${toLabel}.`
+      };
+    } catch (error) {
+      let errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
+      logger.error(`Error in diff-project-versions tool: ${errorMessage}`, error instanceof Error ? error : undefined);
+
+      if (error instanceof Error && (error as any).status === 404) {
+        errorMessage = `Project with slug '${input.slug}' not found.`;
+      }
+
+      return {
+        isError: true,
+        content: [{ type: "text", text: errorMessage }]
+      };
+    }
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Export Project Tool
+ *
+ * Writes a project's board, knowledge, diagram and standards as a directory of Markdown files
+ */
+import { z } from 'zod';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
+import { SecureApiClient, ProjectApiResponse, TaskApiResponse } from '../utils/secure-api-client.js';
+import { fetchTaskBoard, flattenBoardTasks } from '../utils/task-board.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { renderProjectExport, writeExportBundle } from '../utils/project-export.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Maximum number of task prompt requests in flight at once
+ */
+const PROMPT_FETCH_CONCURRENCY = 4;
+
+/**
+ * Rate limit bucket for prompt requests. It waits when full, so boards with more tasks than
+ * the per-minute budget export slowly instead of failing, and tool calls keep their own budget.
+ */
+export const EXPORT_PROMPT_RATE_LIMIT_ID = 'export-prompts';
+export const EXPORT_PROMPTS_PER_MINUTE = 60;
+
+/**
+ * Schema for the export-project tool input
+ */
+const ExportProjectSchema = z.object({
+  // Project slug (URL-friendly identifier)
+  slug: z.string({
+    required_error: "Project slug is required"
+  })
+    .regex(/^[A-Za-z]{3}$/, { message: "Project slug must be three letters (e.g., CRD or crd). Case insensitive." }),
+
+  // Target directory
+  directory: z.string()
+    .min(1, "Directory cannot be empty")
+    .max(500, "Directory path cannot exceed 500 characters")
+    .optional()
+    .describe("Directory to write the export to (default ./coderide-<slug>)"),
+
+  // Whether to fetch each task's prompt
+  include_prompts: z.boolean().optional().describe("Include each task's prompt (default true)"),
+}).strict();
+
+/**
+ * Type for the export-project tool input
+ */
+type ExportProjectInput = z.infer<typeof ExportProjectSchema>;
+
+/**
+ * Schema for the export-project tool output
+ */
+const ExportProjectOutputSchema = z.object({
+  slug: z.string(),
+  directory: z.string(),
+  taskCount: z.number().int(),
+  // Paths relative to the export directory
+  files: z.array(z.string()),
+  written: z.array(z.string()),
+  unchanged: z.array(z.string()),
+  removed: z.array(z.string()),
+  summary: z.string()
+}).strict();
+
+/**
+ * Type for the export-project tool output
+ */
+type ExportProjectOutput = z.infer<typeof ExportProjectOutputSchema>;
+
+/**
+ * Export Project Tool Implementation
+ */
+export class ExportProjectTool extends BaseTool<typeof ExportProjectSchema> {
+  readonly name = 'export_project';
+  readonly description = "Exports a project as a directory of Markdown files: a README with project info and a task index, one file per task with status, priority, description and prompt, the project knowledge rendered as sections, the Mermaid diagram in a fenced block, and the coding standards. Output is deterministic, so re-exporting into the same directory only changes files whose content changed. Use this when the user wants a snapshot of a project in their repository for reviews or offline reading.";
+  readonly zodSchema = ExportProjectSchema;
+  readonly outputSchema = ExportProjectOutputSchema;
+  readonly annotations: ToolAnnotations = {
+    title: "Export Project",
+    readOnlyHint: false, // Writes files to the local disk
+    destructiveHint: false, // Only a previous export of the same project is overwritten
+    idempotentHint: true, // Exporting unchanged data leaves the files unchanged
+    openWorldHint: true, // Interacts with an external API
+  };
+  readonly metadata = {
+    category: 'project' as const,
+    tags: ['project', 'export', 'markdown', 'snapshot', 'files'],
+    usage: 'Use when the user wants a snapshot of a project in their repository for reviews or offline reading',
+    priority: 'advanced' as const
+  };
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(apiClient?: SecureApiClient) {
+    super(apiClient);
+  }
+
+  /**
+   * Generate agent-specific instructions after an export
+   */
+  generateAgentInstructions(input: ExportProjectInput, result: any): AgentInstructions {
+    if (result?.isError) {
+      return {
+        immediateActions: ['The export did not complete - report the error to the user'],
+        nextRecommendedTools: ['get_project'],
+        workflowPhase: 'discovery'
+      };
+    }
+
+    return {
+      immediateActions: [
+        `Tell the user where the export was written: ${result?.directory || 'unknown directory'}`,
+        ...(Array.isArray(result?.written) && result.written.length === 0 ? ['Nothing changed since the previous export'] : [])
+      ],
+      nextRecommendedTools: ['get_project', 'list_tasks'],
+      workflowPhase: 'completion',
+      automationHints: {
+        versionControl: 'The export is deterministic - commit it to track project changes over time'
+      }
+    };
+  }
+
+  /**
+   * Returns the full tool definition conforming to MCP.
+   */
+  getMCPToolDefinition(): MCPToolDefinition {
+    return {
+      name: this.name,
+      description: this.description,
+      annotations: this.annotations,
+      metadata: this.metadata,
+      inputSchema: {
+        type: "object",
+        properties: {
+          slug: {
+            type: "string",
+            pattern: "^[A-Za-z]{3}$",
+            description: "The unique three-letter project identifier/code (e.g., 'CRD' for CodeRide). Case insensitive - will be converted to uppercase internally."
+          },
+          directory: {
+            type: "string",
+            description: "Optional. Directory to write the export to, relative to the server's working directory or absolute. Must be new, empty, or contain a previous export of the same project. Defaults to './coderide-<slug>'."
+          },
+          include_prompts: {
+            type: "boolean",
+            description: "Optional. Fetch and include each task's prompt. Defaults to true; set to false for very large projects to save API requests."
+          }
+        },
+        required: ["slug"],
+        additionalProperties: false
+      },
+      outputSchema: this.getOutputJsonSchema()
+    };
+  }
+
+  /**
+   * Execute the export-project tool
+   */
+  async execute(input: ExportProjectInput): Promise<ExportProjectOutput | ToolErrorResult> {
+    logger.info('Executing export-project tool', input);
+
+    try {
+      // Use the injected API client to read the project
+      if (!this.apiClient) {
+        throw new Error('API client not available - tool not properly initialized');
+      }
+
+      const apiClient = this.apiClient;
+      const slug = input.slug.toUpperCase();
+      const directory = input.directory || `coderide-${slug.toLowerCase()}`;
+
+      const url = `/project/slug/${slug}`;
+      logger.debug(`Making GET request to: ${url}`);
+      const [project, board] = await Promise.all([
+        apiClient.get<ProjectApiResponse>(url) as unknown as Promise<ProjectApiResponse>,
+        fetchTaskBoard(apiClient, slug)
+      ]);
+
+      if (!project || !board) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Project with slug '${slug}' not found` }]
+        };
+      }
+
+      const tasks = flattenBoardTasks(board);
+
+      // A missing prompt would make the export differ from run to run, so any failure aborts it
+      let prompts: Map<string, string> | undefined;
+      if (input.include_prompts !== false) {
+        const promptClient = apiClient.withRateLimit(EXPORT_PROMPT_RATE_LIMIT_ID, EXPORT_PROMPTS_PER_MINUTE, { waitWhenFull: true });
+        const fetched = await mapWithConcurrency(tasks, PROMPT_FETCH_CONCURRENCY, async task => {
+          const promptUrl = `/task/number/${task.number}/prompt`;
+          logger.debug(`Making GET request to: ${promptUrl}`);
+          const response = await promptClient.get<TaskApiResponse>(promptUrl) as unknown as TaskApiResponse;
+          return [task.number, response?.taskPrompt || ''] as const;
+        });
+        prompts = new Map(fetched);
+      }
+
+      const files = renderProjectExport({
+        slug,
+        name: project.name || board.project?.name || '',
+        description: project.description || '',
+        status: project.status || '',
+        knowledge: project.projectKnowledge || {},
+        diagram: project.projectDiagram || '',
+        standards: project.projectStandards || {},
+        tasks,
+        prompts
+      });
+      const written = writeExportBundle(directory, slug, files);
+
+      return {
+        slug,
+        directory: written.directory,
+        taskCount: files.filter(file => file.path.startsWith('tasks/')).length,
+        files: files.map(file => file.path),
+        written: written.written,
+        unchanged: written.unchanged,
+        removed: written.removed,
+        summary: `Exported ${slug} to ${written.directory}: ${written.written.length} file(s) written, ${written.unchanged.length} unchanged, ${written.removed.length} removed.`
+      };
+    } catch (error) {
+      let errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
+      logger.error(`Error in export-project tool: ${errorMessage}`, error instanceof Error ? error : undefined);
+
+      if (error instanceof Error && (error as any).status === 404) {
+        errorMessage = `Project with slug '${input.slug}' not found.`;
+      }
+
+      return {
+        isError: true,
+        content: [{ type: "text", text: errorMessage }]
+      };
+    }
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Get Project Standards Tool
+ *
+ * Retrieves the coding standards of a project from the CodeRide API
+ */
+import { z } from 'zod';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
+import { SecureApiClient, ProjectApiResponse } from '../utils/secure-api-client.js';
+import { PROJECT_STANDARDS_SECTIONS, StandardsChangeTracker } from '../utils/project-standards.js';
+import { logger } from '../utils/logger.js';
+import { ProjectStandardsOutputSchema } from '../utils/output-schemas.js';
+
+/**
+ * Schema for the get-project-standards tool input
+ */
+const GetProjectStandardsSchema = z.object({
+  // Project slug (URL-friendly identifier)
+  slug: z.string({
+    required_error: "Project slug is required"
+  })
+    .regex(/^[A-Za-z]{3}$/, { message: "Project slug must be three letters (e.g., CRD or crd). Case insensitive." }),
+}).strict();
+
+/**
+ * Type for the get-project-standards tool input
+ */
+type GetProjectStandardsInput = z.infer<typeof GetProjectStandardsSchema>;
+
+/**
+ * Schema for the get-project-standards tool output
+ */
+const GetProjectStandardsOutputSchema = z.object({
+  slug: z.string(),
+  projectStandards: ProjectStandardsOutputSchema,
+  missingSections: z.array(z.string()),
+  // Only present when the standards changed since they were last read in this session
+  standardsChangedSections: z.array(z.string()).optional()
+}).strict();
+
+/**
+ * Type for the get-project-standards tool output
+ */
+type GetProjectStandardsOutput = z.infer<typeof GetProjectStandardsOutputSchema>;
+
+/**
+ * Get Project Standards Tool Implementation
+ */
+export class GetProjectStandardsTool extends BaseTool<typeof GetProjectStandardsSchema> {
+  readonly name = 'get_project_standards';
+  readonly description = "Retrieves a project's coding standards (languages, lint rules, naming conventions, testing requirements, commit conventions) using its three-letter slug, and lists the sections that are not defined yet. Use this before writing or reviewing code to follow the team's conventions, or before proposing changes with update_project_standards.";
+  readonly zodSchema = GetProjectStandardsSchema;
+  readonly outputSchema = GetProjectStandardsOutputSchema;
+  readonly annotations: ToolAnnotations = {
+    title: "Get Project Standards",
+    readOnlyHint: true,
+    openWorldHint: true, // Interacts with an external API
+  };
+  readonly metadata = {
+    category: 'project' as const,
+    tags: ['project', 'standards', 'conventions', 'lint', 'read'],
+    usage: "Use before writing or reviewing code to follow the team's conventions, or before proposing changes with update_project_standards",
+    priority: 'advanced' as const
+  };
+
+  /**
+   * Standards last returned in this session, used to report standardsChangedSections
+   */
+  private readonly standardsTracker: StandardsChangeTracker;
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(apiClient?: SecureApiClient, standardsTracker?: StandardsChangeTracker) {
+    super(apiClient);
+    this.standardsTracker = standardsTracker || new StandardsChangeTracker();
+  }
+
+  /**
+   * Generate agent-specific instructions for standards review
+   */
+  generateAgentInstructions(input: GetProjectStandardsInput, result: any): AgentInstructions {
+    const missing = Array.isArray(result?.missingSections) ? result.missingSections : [];
+
+    return {
+      immediateActions: [
+        'Apply these standards to all code written for this project',
+        ...(missing.length > 0 ? [`Standards sections not defined yet: ${missing.join(', ')}`] : [])
+      ],
+      nextRecommendedTools: missing.length > 0 ? ['update_project_standards', 'get_task'] : ['get_task'],
+      workflowPhase: 'context',
+      criticalReminders: [
+        'Do not change project standards without the user agreeing to it'
+      ]
+    };
+  }
+
+  /**
+   * Returns the full tool definition conforming to MCP.
+   */
+  getMCPToolDefinition(): MCPToolDefinition {
+    return {
+      name: this.name,
+      description: this.description,
+      annotations: this.annotations,
+      metadata: this.metadata,
+      inputSchema: {
+        type: "object",
+        properties: {
+          slug: {
+            type: "string",
+            pattern: "^[A-Za-z]{3}$",
+            description: "The unique three-letter project identifier/code (e.g., 'CRD' for CodeRide). Case insensitive - will be converted to uppercase internally."
+          }
+        },
+        required: ["slug"],
+        additionalProperties: false
+      },
+      outputSchema: this.getOutputJsonSchema()
+    };
+  }
+
+  /**
+   * Execute the get-project-standards tool
+   */
+  async execute(input: GetProjectStandardsInput): Promise<GetProjectStandardsOutput | ToolErrorResult> {
+    logger.info('Executing get-project-standards tool', input);
+
+    try {
+      // Use the injected API client to get the project
+      if (!this.apiClient) {
+        throw new Error('API client not available - tool not properly initialized');
+      }
+
+      const slug = input.slug.toUpperCase();
+      const url = `/project/slug/${slug}`;
+      logger.debug(`Making GET request to: ${url}`);
+
+      const responseData = await this.apiClient.get<ProjectApiResponse>(url) as unknown as ProjectApiResponse;
+      const projectStandards = responseData?.projectStandards || {};
+      const changedSections = this.standardsTracker.track(slug, projectStandards);
+
+      return {
+        slug: responseData?.slug || slug,
+        projectStandards,
+        missingSections: PROJECT_STANDARDS_SECTIONS.filter(section => projectStandards[section] === undefined),
+        ...(changedSections.length > 0 && { standardsChangedSections: changedSections })
+      };
+    } catch (error) {
+      let errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
+      logger.error(`Error in get-project-standards tool: ${errorMessage}`, error instanceof Error ? error : undefined);
+
+      if (error instanceof Error && (error as any).status === 404) {
+        errorMessage = `Project with slug '${input.slug}' not found.`;
+      }
+
+      return {
+        isError: true,
+        content: [{ type: "text", text: errorMessage }]
+      };
+    }
+  }
+}
@@ -4,9 +4,11 @@
  * Retrieves project information from the CodeRide API
  */
 import { z } from 'zod';
-import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions } from '../utils/base-tool.js';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
 import { SecureApiClient, ProjectApiResponse } from '../utils/secure-api-client.js';
+import { StandardsChangeTracker } from '../utils/project-standards.js';
 import { logger } from '../utils/logger.js';
+import { ProjectContextFields, ProjectStandardsOutputSchema } from '../utils/output-schemas.js';
 
 /**
  * Schema for the get-project tool input
@@ -24,6 +26,24 @@ const GetProjectSchema = z.object({
  */
 type GetProjectInput = z.infer<typeof GetProjectSchema>;
 
+/**
+ * Schema for the get-project tool output
+ */
+const GetProjectOutputSchema = z.object({
+  slug: z.string(),
+  name: z.string(),
+  description: z.string(),
+  ...ProjectContextFields,
+  projectStandards: ProjectStandardsOutputSchema,
+  // Only present when the standards changed since they were last read in this session
+  standardsChangedSections: z.array(z.string()).optional()
+}).strict();
+
+/**
+ * Type for the get-project tool output
+ */
+type GetProjectOutput = z.infer<typeof GetProjectOutputSchema>;
+
 /**
  * Get Project Tool Implementation
  */
@@ -31,6 +51,7 @@ export class GetProjectTool extends BaseTool<typeof GetProjectSchema> {
   readonly name = 'get_project';
   readonly description = "Retrieves detailed information about a specific project using its unique 'slug' (three uppercase letters, e.g., 'CRD'). Use this at the start of your workflow to establish project context, understand the codebase architecture, and access the knowledge graph and architecture diagrams before working on tasks.";
   readonly zodSchema = GetProjectSchema; // Renamed from schema
+  readonly outputSchema = GetProjectOutputSchema;
   readonly annotations: ToolAnnotations = {
     title: "Get Project",
     readOnlyHint: true,
@@ -43,11 +64,17 @@ export class GetProjectTool extends BaseTool<typeof GetProjectSchema> {
     priority: 'primary' as const
   };
 
+  /**
+   * Standards last returned in this session, used to report standardsChangedSections
+   */
+  private readonly standardsTracker: StandardsChangeTracker;
+
   /**
    * Constructor with dependency injection
    */
-  constructor(apiClient?: SecureApiClient) {
+  constructor(apiClient?: SecureApiClient, standardsTracker?: StandardsChangeTracker) {
     super(apiClient);
+    this.standardsTracker = standardsTracker || new StandardsChangeTracker();
   }
 
   /**
@@ -70,7 +97,8 @@ export class GetProjectTool extends BaseTool<typeof GetProjectSchema> {
         },
         required: ["slug"],
         additionalProperties: false
-      }
+      },
+      outputSchema: this.getOutputJsonSchema()
     };
   }
 
@@ -78,7 +106,7 @@ export class GetProjectTool extends BaseTool<typeof GetProjectSchema> {
    * Generate agent instructions for get_project tool
    */
   protected generateAgentInstructions(input: GetProjectInput, result: any): AgentInstructions {
-    return {
+    const instructions: AgentInstructions = {
       immediateActions: [
         "Analyze project_knowledge for architectural patterns and constraints",
         "Review project_diagram for system structure and relationships",
@@ -99,33 +127,60 @@ export class GetProjectTool extends BaseTool<typeof GetProjectSchema> {
         knowledgeBase: "Project knowledge contains critical architectural decisions and patterns"
       }
     };
+
+    // Surface standards that changed since the project was last loaded in this session
+    const changedSections = Array.isArray(result?.standardsChangedSections) ? result.standardsChangedSections : [];
+    if (changedSections.length > 0) {
+      instructions.immediateActions.unshift(
+        `Project standards changed since you last loaded this project (${changedSections.join(', ')}) - re-read projectStandards before continuing`
+      );
+      instructions.criticalReminders!.unshift(
+        'Code written earlier in this session may no longer follow the updated standards - review it'
+      );
+      instructions.nextRecommendedTools.unshift('get_project_standards');
+    }
+
+    return instructions;
+  }
+
+  /**
+   * Fetch a project without recording its standards as seen by the agent.
+   * Resource reads use this so they do not consume the standardsChangedSections signal.
+   */
+  async fetchProject(slug: string): Promise<Omit<GetProjectOutput, 'standardsChangedSections'>> {
+    if (!this.apiClient) {
+      throw new Error('API client not available - tool not properly initialized');
+    }
+
+    const url = `/project/slug/${slug.toUpperCase()}`;
+    logger.debug(`Making GET request to: ${url}`);
+
+    const responseData = await this.apiClient.get<ProjectApiResponse>(url) as unknown as ProjectApiResponse;
+
+    // Return project data according to the new schema
+    return {
+      slug: responseData?.slug || '',
+      name: responseData?.name || '',
+      description: responseData?.description || '',
+      projectKnowledge: responseData?.projectKnowledge || {}, // Changed to camelCase
+      projectDiagram: responseData?.projectDiagram || '', // Changed to camelCase
+      projectStandards: responseData?.projectStandards || {} // Assuming project_standards is also camelCase from API
+    };
   }
 
   /**
    * Execute the get-project tool
    */
-  async execute(input: GetProjectInput): Promise<unknown> {
+  async execute(input: GetProjectInput): Promise<GetProjectOutput | ToolErrorResult> {
     logger.info('Executing get-project tool', input);
 
     try {
-      // Use the injected API client to get project by slug
-      if (!this.apiClient) {
-        throw new Error('API client not available - tool not properly initialized');
-      }
+      const project = await this.fetchProject(input.slug);
+      const standardsChangedSections = this.standardsTracker.track(input.slug, project.projectStandards);
 
-      const url = `/project/slug/${input.slug.toUpperCase()}`;
-      logger.debug(`Making GET request to: ${url}`);
-      
-      const responseData = await this.apiClient.get<ProjectApiResponse>(url) as unknown as ProjectApiResponse;
-      
-      // Return project data according to the new schema
       return {
-        slug: responseData?.slug || '', 
-        name: responseData?.name || '',
-        description: responseData?.description || '',
-        projectKnowledge: responseData?.projectKnowledge || {}, // Changed to camelCase
-        projectDiagram: responseData?.projectDiagram || '', // Changed to camelCase
-        projectStandards: responseData?.projectStandards || {} // Assuming project_standards is also camelCase from API
+        ...project,
+        ...(standardsChangedSections.length > 0 && { standardsChangedSections })
       };
     } catch (error) {
       const errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
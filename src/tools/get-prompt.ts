@@ -4,9 +4,10 @@
  * Retrieves task prompt from the CodeRide API for a specific task
  */
 import { z } from 'zod';
-import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions } from '../utils/base-tool.js';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
 import { SecureApiClient, TaskApiResponse } from '../utils/secure-api-client.js';
 import { logger } from '../utils/logger.js';
+import { TaskPromptFields } from '../utils/output-schemas.js';
 
 /**
  * Schema for the get-prompt tool input
@@ -23,6 +24,18 @@ const GetPromptSchema = z.object({
  */
 type GetPromptInput = z.infer<typeof GetPromptSchema>;
 
+/**
+ * Schema for the get-prompt tool output
+ */
+const GetPromptOutputSchema = z.object({
+  ...TaskPromptFields
+}).strict();
+
+/**
+ * Type for the get-prompt tool output
+ */
+type GetPromptOutput = z.infer<typeof GetPromptOutputSchema>;
+
 /**
  * Get Prompt Tool Implementation
  */
@@ -30,6 +43,7 @@ export class GetPromptTool extends BaseTool<typeof GetPromptSchema> {
   readonly name = 'get_prompt';
   readonly description = "Retrieves the specific instructions or prompt for a given task, identified by its unique task number (e.g., 'CRD-1'). Use this when you need detailed implementation guidance, acceptance criteria, or AI-specific instructions for completing a task after reviewing the basic task details.";
   readonly zodSchema = GetPromptSchema; // Renamed from schema
+  readonly outputSchema = GetPromptOutputSchema;
   readonly annotations: ToolAnnotations = {
     title: "Get Task Prompt",
     readOnlyHint: true,
@@ -132,14 +146,15 @@ export class GetPromptTool extends BaseTool<typeof GetPromptSchema> {
         },
         required: ["number"],
         additionalProperties: false
-      }
+      },
+      outputSchema: this.getOutputJsonSchema()
     };
   }
 
   /**
    * Execute the get-prompt tool
    */
-  async execute(input: GetPromptInput): Promise<unknown> {
+  async execute(input: GetPromptInput): Promise<GetPromptOutput | ToolErrorResult> {
     logger.info('Executing get-prompt tool', input);
 
     try {
@@ -4,9 +4,13 @@
  * Retrieves tasks from the CodeRide API with optional filtering
  */
 import { z } from 'zod';
-import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions } from '../utils/base-tool.js';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
 import { SecureApiClient, TaskApiResponse } from '../utils/secure-api-client.js';
+import { fetchTaskComments, TaskComment } from '../utils/task-comments.js';
+import { ChecklistSummary, fetchTaskChecklist, summarizeChecklist } from '../utils/task-checklist.js';
+import { getUnresolvedBlockers, normalizeBlockedBy, resolveBlockers } from '../utils/task-dependencies.js';
 import { logger } from '../utils/logger.js';
+import { BlockerInfoSchema, ChecklistSummarySchema, TaskCommentSchema } from '../utils/output-schemas.js';
 
 // Removed local GetTasksResponse and TaskData as TaskApiResponse from api-client.ts will be used.
 
@@ -18,6 +22,19 @@ const GetTaskSchema = z.object({
   number: z.string()
     .regex(/^[A-Za-z]{3}-\d+$/, { message: "Task number must be in the format ABC-123 (e.g., CRD-1 or crd-1). Case insensitive." })
     .describe("Task number identifier (e.g., 'CRD-1')"),
+
+  // Optionally include the latest N comments from the activity log
+  include_comments: z.number()
+    .int("include_comments must be an integer")
+    .min(0, "include_comments cannot be negative")
+    .max(20, "include_comments cannot exceed 20")
+    .optional()
+    .describe("Number of latest comments to include"),
+
+  // Optionally include the checklist completion (costs one extra request)
+  include_checklist: z.boolean()
+    .optional()
+    .describe("Include the checklist completion summary"),
 }).strict();
 
 /**
@@ -25,6 +42,33 @@ const GetTaskSchema = z.object({
  */
 type GetTaskInput = z.infer<typeof GetTaskSchema>;
 
+/**
+ * Schema for the get-task tool output
+ */
+export const GetTaskOutputSchema = z.object({
+  number: z.string(),
+  title: z.string(),
+  description: z.string(),
+  status: z.string(),
+  priority: z.string(),
+  agent: z.string(),
+  agent_prompt: z.string(),
+  context: z.string(),
+  instructions: z.string(),
+  // Only present when the task has blockers
+  blockedBy: z.array(z.string()).optional(),
+  unresolvedBlockers: z.array(BlockerInfoSchema).optional(),
+  // Only present when include_checklist is set and the task has a checklist
+  checklist: ChecklistSummarySchema.optional(),
+  // Only present when include_comments is set
+  recentComments: z.array(TaskCommentSchema).optional()
+}).strict();
+
+/**
+ * Type for the get-task tool output
+ */
+type GetTaskOutput = z.infer<typeof GetTaskOutputSchema>;
+
 /**
  * Get Task Tool Implementation
  */
@@ -32,6 +76,7 @@ export class GetTaskTool extends BaseTool<typeof GetTaskSchema> {
   readonly name = 'get_task';
   readonly description = "Retrieves detailed information for a specific task using its unique task number (e.g., 'CRD-1'). Use this when you need to understand task requirements, check current status, or gather context before starting work on a task.";
   readonly zodSchema = GetTaskSchema; // Renamed from schema
+  readonly outputSchema = GetTaskOutputSchema;
   readonly annotations: ToolAnnotations = {
     title: "Get Task",
     readOnlyHint: true,
@@ -110,6 +155,8 @@ export class GetTaskTool extends BaseTool<typeof GetTaskSchema> {
       },
       criticalReminders: [
         'Always call get_prompt after get_task to retrieve detailed implementation guidance',
+        'If unresolvedBlockers is not empty, finish the blocking tasks before starting this one',
+        'If the task has a checklist (see include_checklist or list_checklist), tick items with tick_checklist_item as you complete them',
         'Update task status to "in-progress" immediately when starting work',
         'Ensure project context is established before task analysis'
       ]
@@ -132,18 +179,57 @@ export class GetTaskTool extends BaseTool<typeof GetTaskSchema> {
             type: "string",
             pattern: "^[A-Za-z]{3}-\\d+$",
             description: "The unique task number identifier in format 'ABC-123' where ABC is the three-letter project code and 123 is the task sequence number (e.g., 'CRD-1', 'CDB-42'). Case insensitive - will be converted to uppercase internally."
+          },
+          include_comments: {
+            type: "integer",
+            minimum: 0,
+            maximum: 20,
+            description: "Optional. Include the latest N comments from the task's activity log (chronological order). Use this when resuming a task to see what previous agents recorded. Defaults to 0 (no comments)."
+          },
+          include_checklist: {
+            type: "boolean",
+            description: "Optional. Include a checklist completion summary (total, checked, completionPercent) when the task has checklist items. Costs one extra API request. Defaults to false."
           }
         },
         required: ["number"],
         additionalProperties: false
-      }
+      },
+      outputSchema: this.getOutputJsonSchema()
     };
   }
 
+  /**
+   * Fetch the latest comments for a task
+   * Comment failures are logged and reported as an empty list so the task itself is still returned
+   */
+  private async fetchRecentComments(taskNumber: string, count: number): Promise<TaskComment[]> {
+    try {
+      const comments = await fetchTaskComments(this.apiClient!, taskNumber);
+      return comments.slice(-count);
+    } catch (error) {
+      logger.warn(`Could not fetch comments for task ${taskNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return [];
+    }
+  }
+
+  /**
+   * Fetch the checklist completion of a task
+   * Checklist failures are logged and reported as no checklist so the task itself is still returned
+   */
+  private async fetchChecklistSummary(taskNumber: string): Promise<ChecklistSummary | undefined> {
+    try {
+      const summary = summarizeChecklist(await fetchTaskChecklist(this.apiClient!, taskNumber));
+      return summary.total > 0 ? summary : undefined;
+    } catch (error) {
+      logger.warn(`Could not fetch checklist for task ${taskNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return undefined;
+    }
+  }
+
   /**
    * Execute the get-task tool
    */
-  async execute(input: GetTaskInput): Promise<unknown> {
+  async execute(input: GetTaskInput): Promise<GetTaskOutput | ToolErrorResult> {
     logger.info('Executing get-task tool', input);
 
     try {
@@ -155,7 +241,18 @@ export class GetTaskTool extends BaseTool<typeof GetTaskSchema> {
       const url = `/task/number/${input.number.toUpperCase()}`;
       logger.debug(`Making GET request to: ${url}`);
       
-      const responseData = await this.apiClient.get<TaskApiResponse>(url) as unknown as TaskApiResponse;
+      // Fetch the task and, if requested, its checklist and latest comments concurrently
+      const [responseData, checklist, recentComments] = await Promise.all([
+        this.apiClient.get<TaskApiResponse>(url) as unknown as Promise<TaskApiResponse>,
+        input.include_checklist ? this.fetchChecklistSummary(input.number) : Promise.resolve(undefined),
+        input.include_comments ? this.fetchRecentComments(input.number, input.include_comments) : Promise.resolve(undefined)
+      ]);
+
+      // Report blockers that are not done yet
+      const blockedBy = normalizeBlockedBy(input.number, responseData?.blockedBy);
+      const unresolvedBlockers = blockedBy.length > 0
+        ? getUnresolvedBlockers(blockedBy, await resolveBlockers(this.apiClient, blockedBy))
+        : [];
 
       // If responseData is null, undefined, or an empty object,
       // optional chaining and fallbacks will produce an "empty task" structure.
@@ -172,7 +269,10 @@ export class GetTaskTool extends BaseTool<typeof GetTaskSchema> {
         agent: responseData?.agent || '',
         agent_prompt: responseData?.agent_prompt || '',
         context: responseData?.context || '',
-        instructions: responseData?.instructions || ''
+        instructions: responseData?.instructions || '',
+        ...(blockedBy.length > 0 && { blockedBy, unresolvedBlockers }),
+        ...(checklist && { checklist }),
+        ...(recentComments !== undefined && { recentComments })
       };
     } catch (error) {
       const errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
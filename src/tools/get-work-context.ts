@@ -0,0 +1,330 @@
+/**
+ * Get Work Context Tool
+ *
+ * Fetches the project, task, prompt and project standards for a task in one call
+ */
+import { z } from 'zod';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
+import { SecureApiClient } from '../utils/secure-api-client.js';
+import { PROJECT_STANDARDS_SECTIONS, StandardsChangeTracker } from '../utils/project-standards.js';
+import { GetProjectTool } from './get-project.js';
+import { GetTaskOutputSchema, GetTaskTool } from './get-task.js';
+import { GetPromptTool } from './get-prompt.js';
+import { logger } from '../utils/logger.js';
+import { ProjectContextFields, ProjectStandardsOutputSchema } from '../utils/output-schemas.js';
+
+/**
+ * Default size budget for the serialized context, in characters
+ */
+const DEFAULT_MAX_CHARS = 30000;
+
+/**
+ * Text fields shorter than this are never truncated
+ */
+const MIN_TRUNCATED_LENGTH = 200;
+
+/**
+ * Schema for the get-work-context tool input
+ */
+const GetWorkContextSchema = z.object({
+  // Task to gather context for
+  number: z.string({
+    required_error: "Task number is required"
+  }).regex(/^[A-Za-z]{3}-\d+$/, { message: "Task number must be in the format ABC-123 (e.g., CRD-1 or crd-1). Case insensitive." }),
+
+  // Size budget for the whole payload
+  max_chars: z.number()
+    .int("max_chars must be an integer")
+    .min(2000, "max_chars must be at least 2000")
+    .max(200000, "max_chars cannot exceed 200000")
+    .optional()
+    .describe("Maximum size of the returned context in characters"),
+
+  // Optionally include the latest N comments from the activity log
+  include_comments: z.number()
+    .int("include_comments must be an integer")
+    .min(0, "include_comments cannot be negative")
+    .max(20, "include_comments cannot exceed 20")
+    .optional()
+    .describe("Number of latest comments to include"),
+}).strict();
+
+/**
+ * Type for the get-work-context tool input
+ */
+type GetWorkContextInput = z.infer<typeof GetWorkContextSchema>;
+
+/**
+ * Schema for the get-work-context tool output
+ */
+const GetWorkContextOutputSchema = z.object({
+  number: z.string(),
+  // Empty when the project could not be loaded
+  project: z.object({
+    slug: z.string(),
+    name: z.string(),
+    description: z.string(),
+    ...ProjectContextFields
+  }).strict().partial(),
+  task: GetTaskOutputSchema,
+  prompt: z.string().describe("The task's implementation prompt (named taskPrompt in get_prompt)"),
+  standards: z.object({
+    projectStandards: ProjectStandardsOutputSchema,
+    missingSections: z.array(z.string()),
+    standardsChangedSections: z.array(z.string()).optional()
+  }).strict(),
+  warnings: z.array(z.string()).optional(),
+  budget: z.object({
+    maxChars: z.number().int(),
+    usedChars: z.number().int(),
+    truncated: z.array(z.string()).describe('Parts of the context that were shortened or removed to fit the budget')
+  }).strict()
+}).strict();
+
+/**
+ * Type for the get-work-context tool output
+ */
+type GetWorkContextOutput = z.infer<typeof GetWorkContextOutputSchema>;
+
+/**
+ * The aggregated context, before and after fitting it into the budget
+ */
+type WorkContext = Omit<GetWorkContextOutput, 'budget'>;
+
+/**
+ * Get Work Context Tool Implementation
+ */
+export class GetWorkContextTool extends BaseTool<typeof GetWorkContextSchema> {
+  readonly name = 'get_work_context';
+  readonly description = "Retrieves everything needed to start a task in one call: the project (knowledge and diagram), the task details, the task prompt and the project standards, fetched concurrently. The payload is kept within a size budget; when it would be larger, the diagram, knowledge sections, standards sections and long texts are shortened in that order and listed under budget.truncated. Use this instead of calling get_project, get_task and get_prompt one after another when starting or resuming work on a task.";
+  readonly zodSchema = GetWorkContextSchema;
+  readonly outputSchema = GetWorkContextOutputSchema;
+  readonly annotations: ToolAnnotations = {
+    title: "Get Work Context",
+    readOnlyHint: true,
+    openWorldHint: true, // Interacts with an external API
+  };
+  readonly metadata = {
+    category: 'task' as const,
+    tags: ['task', 'project', 'prompt', 'standards', 'context', 'read'],
+    usage: 'Use instead of calling get_project, get_task and get_prompt one after another when starting or resuming work on a task',
+    priority: 'primary' as const
+  };
+
+  /**
+   * Tools whose execute logic provides each part of the context
+   */
+  private readonly getProjectTool: GetProjectTool;
+  private readonly getTaskTool: GetTaskTool;
+  private readonly getPromptTool: GetPromptTool;
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(apiClient?: SecureApiClient, standardsTracker?: StandardsChangeTracker) {
+    super(apiClient);
+    this.getProjectTool = new GetProjectTool(apiClient, standardsTracker);
+    this.getTaskTool = new GetTaskTool(apiClient);
+    this.getPromptTool = new GetPromptTool(apiClient);
+  }
+
+  /**
+   * Generate agent-specific instructions for starting work with the full context
+   */
+  generateAgentInstructions(input: GetWorkContextInput, result: any): AgentInstructions {
+    if (result?.isError) {
+      return {
+        immediateActions: ['The task context could not be loaded - check the task number'],
+        nextRecommendedTools: ['list_tasks', 'next_task'],
+        workflowPhase: 'discovery'
+      };
+    }
+
+    const status = result?.task?.status;
+    const truncated = Array.isArray(result?.budget?.truncated) && result.budget.truncated.length > 0;
+
+    return {
+      immediateActions: [
+        'Review the project knowledge, diagram and standards before changing code',
+        'Follow the task prompt precisely',
+        ...(status === 'to-do' ? ['Update the task status to "in-progress" before starting'] : []),
+        ...(truncated ? ['Parts of the context were shortened to fit the size budget - fetch them with get_project or get_prompt if needed'] : [])
+      ],
+      nextRecommendedTools: status === 'to-do' ? ['update_task'] : ['update_task', 'update_project'],
+      workflowPhase: 'implementation',
+      statusUpdateRequired: status === 'to-do',
+      criticalReminders: [
+        'Project, task and prompt context are already loaded - get_project, get_task and get_prompt do not need to be called',
+        'Apply the project standards to all code changes'
+      ]
+    };
+  }
+
+  /**
+   * Returns the full tool definition conforming to MCP.
+   */
+  getMCPToolDefinition(): MCPToolDefinition {
+    return {
+      name: this.name,
+      description: this.description,
+      annotations: this.annotations,
+      metadata: this.metadata,
+      inputSchema: {
+        type: "object",
+        properties: {
+          number: {
+            type: "string",
+            pattern: "^[A-Za-z]{3}-\\d+$",
+            description: "The task number in format 'ABC-123' (e.g., 'CRD-1'). The project is taken from the prefix. Case insensitive - will be converted to uppercase internally."
+          },
+          max_chars: {
+            type: "integer",
+            minimum: 2000,
+            maximum: 200000,
+            description: `Optional. Maximum size of the returned context in characters (default ${DEFAULT_MAX_CHARS}). The task and prompt are shortened last.`
+          },
+          include_comments: {
+            type: "integer",
+            minimum: 0,
+            maximum: 20,
+            description: "Optional. Number of latest comments from the task's activity log to include (0-20)."
+          }
+        },
+        required: ["number"],
+        additionalProperties: false
+      },
+      outputSchema: this.getOutputJsonSchema()
+    };
+  }
+
+  /**
+   * Execute the get-work-context tool
+   */
+  async execute(input: GetWorkContextInput): Promise<GetWorkContextOutput | ToolErrorResult> {
+    logger.info('Executing get-work-context tool', input);
+
+    try {
+      // Use the injected API client through the underlying tools
+      if (!this.apiClient) {
+        throw new Error('API client not available - tool not properly initialized');
+      }
+
+      const number = input.number.toUpperCase();
+      const slug = number.split('-')[0];
+
+      // Standards are part of the project response, so get_project covers both without a second request
+      const [project, task, prompt] = await Promise.all([
+        this.getProjectTool.execute({ slug }),
+        this.getTaskTool.execute({ number, include_checklist: true, ...(input.include_comments !== undefined && { include_comments: input.include_comments }) }),
+        this.getPromptTool.execute({ number })
+      ]);
+
+      if ('isError' in task) {
+        return task;
+      }
+
+      const warnings: string[] = [];
+      if ('isError' in project) {
+        warnings.push(`Project ${slug} could not be loaded: ${project.content[0]?.text || 'unknown error'}`);
+      }
+      if ('isError' in prompt) {
+        warnings.push(`Prompt for ${number} could not be loaded: ${prompt.content[0]?.text || 'unknown error'}`);
+      }
+
+      const loadedProject = 'isError' in project ? undefined : project;
+      const projectStandards = loadedProject?.projectStandards || {};
+      const context: WorkContext = {
+        number,
+        project: loadedProject ? {
+          slug: loadedProject.slug || slug,
+          name: loadedProject.name,
+          description: loadedProject.description,
+          projectKnowledge: loadedProject.projectKnowledge,
+          projectDiagram: loadedProject.projectDiagram
+        } : {},
+        task,
+        prompt: 'isError' in prompt ? '' : prompt.taskPrompt,
+        standards: {
+          projectStandards,
+          missingSections: loadedProject ? PROJECT_STANDARDS_SECTIONS.filter(section => projectStandards[section] === undefined) : [],
+          ...(loadedProject?.standardsChangedSections && { standardsChangedSections: loadedProject.standardsChangedSections })
+        },
+        ...(warnings.length > 0 && { warnings })
+      };
+
+      const maxChars = input.max_chars || DEFAULT_MAX_CHARS;
+      const truncated = this.fitToBudget(context, maxChars);
+
+      return {
+        ...context,
+        budget: {
+          maxChars,
+          usedChars: JSON.stringify(context).length,
+          truncated
+        }
+      };
+    } catch (error) {
+      let errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
+      logger.error(`Error in get-work-context tool: ${errorMessage}`, error instanceof Error ? error : undefined);
+
+      if (error instanceof Error && (error as any).status === 404) {
+        errorMessage = `Task with number '${input.number}' not found.`;
+      }
+
+      return {
+        isError: true,
+        content: [{ type: "text", text: errorMessage }]
+      };
+    }
+  }
+
+  /**
+   * Shrink the context in place until it fits the budget. The least task-specific parts go first:
+   * diagram, knowledge sections, standards sections, then the prompt and task texts.
+   * Returns a description of everything that was shortened or removed.
+   */
+  private fitToBudget(context: WorkContext, maxChars: number): string[] {
+    const truncated: string[] = [];
+    // Leave room for the budget report itself
+    const limit = maxChars - 500;
+    const excess = () => JSON.stringify(context).length - limit;
+
+    const shortenText = (owner: Record<string, any>, key: string, label: string) => {
+      const value = owner[key];
+      if (excess() <= 0 || typeof value !== 'string' || value.length <= MIN_TRUNCATED_LENGTH) {
+        return;
+      }
+      const keep = Math.max(MIN_TRUNCATED_LENGTH, value.length - excess() - 50);
+      if (keep < value.length) {
+        owner[key] = `${value.slice(0, keep)}\n[... ${value.length - keep} characters truncated]`;
+        truncated.push(`${label} (${value.length} → ${keep} characters)`);
+      }
+    };
+
+    const removeSections = (owner: Record<string, any>, label: string) => {
+      const keys = Object.keys(owner).sort((a, b) => JSON.stringify(owner[b]).length - JSON.stringify(owner[a]).length);
+      for (const key of keys) {
+        if (excess() <= 0) {
+          return;
+        }
+        delete owner[key];
+        truncated.push(`${label}.${key} (removed)`);
+      }
+    };
+
+    shortenText(context.project, 'projectDiagram', 'project.projectDiagram');
+    if (context.project.projectKnowledge) {
+      removeSections(context.project.projectKnowledge, 'project.projectKnowledge');
+    }
+    removeSections(context.standards.projectStandards, 'standards.projectStandards');
+    shortenText(context, 'prompt', 'prompt');
+    for (const key of ['agent_prompt', 'context', 'instructions', 'description']) {
+      shortenText(context.task, key, `task.${key}`);
+    }
+
+    if (excess() > 0) {
+      truncated.push(`context still exceeds the budget by ${excess()} characters`);
+    }
+    return truncated;
+  }
+}
@@ -0,0 +1,510 @@
+/**
+ * Import Tasks Tool
+ *
+ * Creates the tasks of a Markdown or YAML plan in a project, skipping tasks that already exist
+ */
+import { z } from 'zod';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
+import { SecureApiClient, TaskListApiResponse, UpdateTaskDependenciesApiResponse } from '../utils/secure-api-client.js';
+import { InputValidator } from '../utils/input-validator.js';
+import { BoardTaskWithColumn, fetchTaskBoard, flattenBoardTasks, getTaskSequenceNumber } from '../utils/task-board.js';
+import { findDependencyCycle, normalizeBlockedBy } from '../utils/task-dependencies.js';
+import { PlannedTask, TaskPlanError, normalizeTaskTitle, parseTaskPlan } from '../utils/task-plan.js';
+import { CreateTaskOutput, CreateTaskTool } from './create-task.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Maximum number of tasks in one plan. The board is read once; each new task costs a create
+ * request plus a dependency update, which keeps a full import within the API rate limit.
+ */
+const MAX_PLAN_TASKS = 25;
+
+/**
+ * Maximum number of blockers on a task (matches set_task_dependencies)
+ */
+const MAX_BLOCKERS = 20;
+
+/**
+ * Schema for the import-tasks tool input
+ */
+const ImportTasksSchema = z.object({
+  // Project the tasks are created in
+  slug: z.string({
+    required_error: "Project slug is required"
+  })
+    .regex(/^[A-Za-z]{3}$/, { message: "Project slug must be three letters (e.g., CRD or crd). Case insensitive." }),
+
+  // Plan document
+  content: z.string({
+    required_error: "Plan content is required"
+  })
+    .min(1, "Plan content cannot be empty")
+    .max(40000, "Plan content cannot exceed 40000 characters")
+    .describe("Markdown or YAML plan"),
+
+  // Plan format; detected from the content when omitted
+  format: z.enum(['markdown', 'yaml'], {
+    invalid_type_error: "Format must be one of: markdown, yaml"
+  }).optional().describe("Plan format (detected when omitted)"),
+
+  // Preview without creating anything
+  dry_run: z.boolean().optional().describe("Preview the import without creating tasks"),
+}).strict();
+
+/**
+ * Type for the import-tasks tool input
+ */
+type ImportTasksInput = z.infer<typeof ImportTasksSchema>;
+
+/**
+ * Schema for the import-tasks tool output
+ */
+const ImportTasksOutputSchema = z.object({
+  slug: z.string(),
+  dryRun: z.boolean(),
+  tasks: z.array(z.object({
+    title: z.string(),
+    // Predicted on dry runs; missing for tasks that were not created
+    number: z.string().optional(),
+    priority: z.string(),
+    blockedBy: z.array(z.string()),
+    action: z.enum(['create', 'created', 'exists', 'failed', 'skipped']),
+    error: z.string().optional()
+  }).strict()),
+  summary: z.string()
+}).strict();
+
+/**
+ * Type for the import-tasks tool output
+ */
+type ImportTasksOutput = z.infer<typeof ImportTasksOutputSchema>;
+
+/**
+ * Per-task outcome reported back to the caller
+ */
+type ImportedTaskResult = ImportTasksOutput['tasks'][number];
+
+/**
+ * A plan task after validation and matching against the board
+ */
+interface ResolvedPlanTask extends PlannedTask {
+  existing?: BoardTaskWithColumn;
+}
+
+/**
+ * One line per task for the summary, e.g. "CRD-7  create  Add login form (blocked by CRD-6)"
+ */
+function formatTaskLines(results: ImportedTaskResult[]): string {
+  return results
+    .map(result => `${(result.number || '-').padEnd(8)}  ${result.action.padEnd(7)}  ${result.title}${result.blockedBy.length > 0 ? ` (blocked by ${result.blockedBy.join(', ')})` : ''}${result.error ? ` - ${result.error}` : ''}`)
+    .join('\n');
+}
+
+/**
+ * Import Tasks Tool Implementation
+ */
+export class ImportTasksTool extends BaseTool<typeof ImportTasksSchema> {
+  readonly name = 'import_tasks';
+  readonly description = "Creates the tasks of a Markdown or YAML plan in a project, in plan order. Dependencies may name another task of the plan by title or an existing task by number. Tasks whose title already exists in the project are not created again, so re-importing the same plan is safe. Use dry_run to preview the task numbers that would be assigned. Use this when the user has a written plan or backlog to load into CodeRide.";
+  readonly zodSchema = ImportTasksSchema;
+  readonly outputSchema = ImportTasksOutputSchema;
+  readonly annotations: ToolAnnotations = {
+    title: "Import Tasks",
+    readOnlyHint: false, // This tool modifies data
+    destructiveHint: false, // Only creates tasks and adds blockers
+    idempotentHint: true, // Tasks that already exist are not created again
+    openWorldHint: true, // Interacts with an external API
+  };
+  readonly metadata = {
+    category: 'task' as const,
+    tags: ['task', 'import', 'plan', 'create', 'bulk', 'write'],
+    usage: 'Use when the user has a written plan or backlog to load into CodeRide',
+    priority: 'advanced' as const
+  };
+
+  /**
+   * Task creation logic shared with create_task
+   */
+  private readonly createTaskTool: CreateTaskTool;
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(apiClient?: SecureApiClient) {
+    super(apiClient);
+    this.createTaskTool = new CreateTaskTool(apiClient);
+  }
+
+  /**
+   * Generate agent-specific instructions after an import
+   */
+  generateAgentInstructions(input: ImportTasksInput, result: any): AgentInstructions {
+    if (result?.isError) {
+      return {
+        immediateActions: ['Nothing was imported - report the error to the user and help fix the plan'],
+        nextRecommendedTools: ['list_tasks'],
+        workflowPhase: 'analysis'
+      };
+    }
+
+    if (result?.dryRun) {
+      return {
+        immediateActions: [
+          'Show the user the tasks and numbers from the preview',
+          'Run import_tasks again without dry_run once the user confirms'
+        ],
+        nextRecommendedTools: ['import_tasks'],
+        workflowPhase: 'analysis'
+      };
+    }
+
+    const failed = Array.isArray(result?.tasks) ? result.tasks.filter((task: any) => task.action === 'failed').length : 0;
+
+    return {
+      immediateActions: failed > 0
+        ? [
+            'The import stopped at a failing task',
+            'Fix the cause and run the same import again - tasks already created are skipped'
+          ]
+        : [result?.summary || 'Plan imported'],
+      nextRecommendedTools: failed > 0 ? ['import_tasks', 'list_tasks'] : ['list_tasks', 'next_task'],
+      workflowPhase: failed > 0 ? 'analysis' : 'discovery'
+    };
+  }
+
+  /**
+   * Returns the full tool definition conforming to MCP.
+   */
+  getMCPToolDefinition(): MCPToolDefinition {
+    return {
+      name: this.name,
+      description: this.description,
+      annotations: this.annotations,
+      metadata: this.metadata,
+      inputSchema: {
+        type: "object",
+        properties: {
+          slug: {
+            type: "string",
+            pattern: "^[A-Za-z]{3}$",
+            description: "The unique three-letter project identifier/code (e.g., 'CRD' for CodeRide). Case insensitive - will be converted to uppercase internally."
+          },
+          content: {
+            type: "string",
+            maxLength: 40000,
+            description: `The plan, with at most ${MAX_PLAN_TASKS} tasks. Markdown: one '## Title' heading per task (or '# Title' when the plan has no '##' headings), optionally followed by 'Priority: high' and 'Depends on: Other title, CRD-4' lines; the remaining text is the description. YAML: a list (or a 'tasks:' list) of mappings with title, description, priority (low, medium, high; default medium) and dependencies.`
+          },
+          format: {
+            type: "string",
+            enum: ["markdown", "yaml"],
+            description: "Optional. The plan format. Detected from the content when omitted."
+          },
+          dry_run: {
+            type: "boolean",
+            description: "Optional. When true, only report which tasks would be created, the numbers they would get, and which already exist."
+          }
+        },
+        required: ["slug", "content"],
+        additionalProperties: false
+      },
+      outputSchema: this.getOutputJsonSchema()
+    };
+  }
+
+  /**
+   * The plan is a whole Markdown or YAML document, so its syntax skips the suspicious pattern scan.
+   * validatePlan runs the same scan on each parsed task's title and description instead.
+   */
+  protected getUnscannedInputFields(): string[] {
+    return ['content'];
+  }
+
+  /**
+   * Execute the import-tasks tool
+   */
+  async execute(input: ImportTasksInput): Promise<ImportTasksOutput | ToolErrorResult> {
+    logger.info(`Executing import-tasks tool for project ${input.slug}`);
+
+    try {
+      // Use the injected API client to create tasks
+      if (!this.apiClient) {
+        throw new Error('API client not available - tool not properly initialized');
+      }
+
+      const slug = input.slug.toUpperCase();
+      const plan = this.validatePlan(parseTaskPlan(input.content, input.format));
+
+      const board = await fetchTaskBoard(this.apiClient, slug);
+      if (!board) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Project with slug '${slug}' not found` }]
+        };
+      }
+
+      // Tasks are matched by title, which makes re-importing the same plan a no-op
+      const boardTasks = flattenBoardTasks(board);
+      const byTitle = new Map(boardTasks.map(task => [normalizeTaskTitle(task.title || ''), task]));
+      const tasks: ResolvedPlanTask[] = plan.map(task => ({ ...task, existing: byTitle.get(normalizeTaskTitle(task.title)) }));
+
+      // Predict numbers the same way create_task allocates them
+      let highest = boardTasks.reduce((max, task) => Math.max(max, getTaskSequenceNumber(task.number)), 0);
+      const numbers = new Map<string, string>(tasks.map(task => [
+        normalizeTaskTitle(task.title),
+        task.existing ? task.existing.number.toUpperCase() : `${slug}-${++highest}`
+      ]));
+
+      const blockers = tasks.map(task => this.resolveDependencies(task, numbers, boardTasks));
+      const cycle = this.findPlanCycle(tasks, numbers, blockers, boardTasks);
+      if (cycle) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Circular dependency detected: ${cycle.join(' → ')}. Remove one of these dependencies from the plan.` }]
+        };
+      }
+
+      if (input.dry_run) {
+        const results: ImportedTaskResult[] = tasks.map((task, index) => ({
+          title: task.title,
+          number: numbers.get(normalizeTaskTitle(task.title)),
+          priority: task.existing?.priority || task.priority,
+          blockedBy: blockers[index],
+          action: task.existing ? 'exists' : 'create'
+        }));
+        const toCreate = results.filter(result => result.action === 'create').length;
+
+        return {
+          slug,
+          dryRun: true,
+          tasks: results,
+          summary: `Dry run for ${slug}: ${toCreate} task(s) would be created, ${results.length - toCreate} already exist. Numbers are predicted from the current board and may shift if other tasks are created first.\n${formatTaskLines(results)}`
+        };
+      }
+
+      return await this.importTasks(slug, board, tasks, numbers, blockers);
+    } catch (error) {
+      let errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
+      logger.error(`Error in import-tasks tool: ${errorMessage}`, error instanceof Error ? error : undefined);
+
+      if (error instanceof TaskPlanError) {
+        errorMessage = `The plan could not be imported: ${error.message}`;
+      } else if (error instanceof Error && (error as any).status === 404) {
+        errorMessage = `Project with slug '${input.slug}' not found.`;
+      }
+
+      return {
+        isError: true,
+        content: [{ type: "text", text: errorMessage }]
+      };
+    }
+  }
+
+  /**
+   * Validate plan tasks like create_task input, before anything is created
+   */
+  private validatePlan(plan: PlannedTask[]): PlannedTask[] {
+    if (plan.length > MAX_PLAN_TASKS) {
+      throw new TaskPlanError(`The plan has ${plan.length} tasks - at most ${MAX_PLAN_TASKS} can be imported at once. Split it into smaller plans.`);
+    }
+
+    return plan.map(task => {
+      try {
+        // Plan tasks bypass BaseTool validation, so scan the raw fields and validate each one here
+        InputValidator.validateUserPermissions({ title: task.title, description: task.description }, 'plan task');
+        const description = InputValidator.sanitizeDescription(task.description);
+        if (description.length > 2000) {
+          throw new Error('Description cannot exceed 2000 characters');
+        }
+        return { ...task, title: InputValidator.validateTaskTitle(task.title), description };
+      } catch (error) {
+        throw new TaskPlanError(`Task '${task.title}': ${error instanceof Error ? error.message : 'invalid task'}`);
+      }
+    });
+  }
+
+  /**
+   * Turn plan dependencies into task numbers: titles of plan tasks, titles of existing tasks, or task numbers
+   */
+  private resolveDependencies(task: ResolvedPlanTask, numbers: Map<string, string>, boardTasks: BoardTaskWithColumn[]): string[] {
+    const number = numbers.get(normalizeTaskTitle(task.title))!;
+    const resolved = task.dependencies.map(dependency => {
+      if (/^[A-Za-z]{3}-\d+$/.test(dependency)) {
+        return InputValidator.validateTaskNumber(dependency);
+      }
+      const key = normalizeTaskTitle(dependency);
+      const match = numbers.get(key) || boardTasks.find(boardTask => normalizeTaskTitle(boardTask.title || '') === key)?.number;
+      if (!match) {
+        throw new TaskPlanError(`Task '${task.title}' depends on '${dependency}', which is neither a task of the plan, an existing task title, nor a task number`);
+      }
+      return match.toUpperCase();
+    });
+
+    const blockedBy = normalizeBlockedBy(number, resolved);
+    if (blockedBy.length > MAX_BLOCKERS) {
+      throw new TaskPlanError(`Task '${task.title}' has more than ${MAX_BLOCKERS} dependencies`);
+    }
+    return blockedBy;
+  }
+
+  /**
+   * Check the board as it would look after the import for dependency cycles
+   */
+  private findPlanCycle(
+    tasks: ResolvedPlanTask[],
+    numbers: Map<string, string>,
+    blockers: string[][],
+    boardTasks: BoardTaskWithColumn[]
+  ): string[] | null {
+    const projected = new Map(boardTasks.map(task => [task.number.toUpperCase(), task]));
+    tasks.forEach((task, index) => {
+      const number = numbers.get(normalizeTaskTitle(task.title))!;
+      const current = task.existing?.blockedBy || [];
+      projected.set(number, { ...(task.existing || {}), number, blockedBy: normalizeBlockedBy(number, [...current, ...blockers[index]]) } as BoardTaskWithColumn);
+    });
+
+    const projectedTasks = [...projected.values()];
+    for (const task of projectedTasks) {
+      const cycle = findDependencyCycle(task.number, normalizeBlockedBy(task.number, task.blockedBy), projectedTasks);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Create missing tasks in plan order, then add the planned blockers.
+   * Creation stops at the first failure; running the import again resumes where it stopped.
+   */
+  private async importTasks(
+    slug: string,
+    board: TaskListApiResponse,
+    tasks: ResolvedPlanTask[],
+    predicted: Map<string, string>,
+    plannedBlockers: string[][]
+  ): Promise<ImportTasksOutput | ToolErrorResult> {
+    const apiClient = this.apiClient!;
+    const results: ImportedTaskResult[] = [];
+    const numbers = new Map(predicted);
+    let failure: string | undefined;
+
+    // Numbers are allocated from a local copy of the board, updated after each create
+    const snapshot: TaskListApiResponse = { ...board, columns: (board.columns || []).map(column => ({ ...column, tasks: [...(column.tasks || [])] })) };
+
+    for (const task of tasks) {
+      const key = normalizeTaskTitle(task.title);
+      const result: ImportedTaskResult = { title: task.title, priority: task.existing?.priority || task.priority, blockedBy: [], action: 'exists' };
+      results.push(result);
+
+      if (task.existing) {
+        result.number = task.existing.number.toUpperCase();
+        continue;
+      }
+      if (failure) {
+        result.action = 'skipped';
+        continue;
+      }
+
+      let created: CreateTaskOutput | ToolErrorResult;
+      try {
+        created = await this.createTaskTool.createOnBoard({
+          slug,
+          title: task.title,
+          description: task.description,
+          priority: task.priority
+        }, snapshot);
+      } catch (error) {
+        created = { isError: true, content: [{ type: "text", text: (error instanceof Error) ? error.message : 'An unknown error occurred' }] };
+      }
+
+      if ('isError' in created) {
+        failure = created.content[0]?.text || 'Create failed';
+        result.action = 'failed';
+        result.error = failure;
+        continue;
+      }
+
+      result.action = 'created';
+      result.number = created.number.toUpperCase();
+      numbers.set(key, result.number);
+      this.addToSnapshot(snapshot, created);
+    }
+
+    // Blockers were resolved against predicted numbers; map them to the numbers actually assigned
+    const renumber = new Map([...predicted].map(([key, number]) => [number, numbers.get(key)!]));
+    const notCreated = new Set(tasks.filter((_, index) => !results[index].number).map(task => predicted.get(normalizeTaskTitle(task.title))!));
+
+    for (const [index, task] of tasks.entries()) {
+      const result = results[index];
+      if (!result.number) {
+        continue;
+      }
+
+      const current = normalizeBlockedBy(result.number, task.existing?.blockedBy);
+      result.blockedBy = current;
+
+      // Blockers that were not created cannot be recorded yet; the next run adds them
+      if (plannedBlockers[index].some(number => notCreated.has(number))) {
+        continue;
+      }
+
+      const wanted = plannedBlockers[index].map(number => renumber.get(number) || number);
+      const blockedBy = normalizeBlockedBy(result.number, [...current, ...wanted]);
+
+      // Blockers are only added, and only when something is missing, so re-runs make no requests
+      if (blockedBy.length === current.length) {
+        continue;
+      }
+
+      try {
+        const url = `/task/number/${result.number}/dependencies`;
+        logger.debug(`Making PUT request to: ${url}`);
+        const response = await apiClient.put<UpdateTaskDependenciesApiResponse>(url, { blockedBy }) as unknown as UpdateTaskDependenciesApiResponse;
+
+        if (!response || response.success === false || response.error) {
+          throw new Error(response?.error || response?.message || 'API reported dependency update failure without a specific message.');
+        }
+        result.blockedBy = blockedBy;
+      } catch (error) {
+        const errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
+        logger.warn(`Setting dependencies for imported task ${result.number} failed: ${errorMessage}`);
+        result.error = `Dependencies not set: ${errorMessage}`;
+      }
+    }
+
+    const created = results.filter(result => result.action === 'created').length;
+    const existing = results.filter(result => result.action === 'exists').length;
+
+    return {
+      slug,
+      dryRun: false,
+      tasks: results,
+      summary: failure
+        ? `Import into ${slug} stopped: ${created} task(s) created, ${existing} already existed, then creating '${results.find(result => result.action === 'failed')?.title}' failed: ${failure}. Run the import again to continue.\n${formatTaskLines(results)}`
+        : `Imported plan into ${slug}: ${created} task(s) created, ${existing} already existed.\n${formatTaskLines(results)}`
+    };
+  }
+
+  /**
+   * Record a created task in the board snapshot so the next number is allocated without a refetch
+   */
+  private addToSnapshot(snapshot: TaskListApiResponse, created: CreateTaskOutput): void {
+    const task = {
+      id: '',
+      number: created.number,
+      title: created.title,
+      description: created.description,
+      status: created.status,
+      priority: created.priority,
+      created_at: '',
+      updated_at: ''
+    };
+
+    const column = snapshot.columns.find(entry => entry.id === created.column);
+    if (column) {
+      column.tasks.push(task);
+    } else {
+      snapshot.columns.push({ id: created.column, name: created.column, status: created.status, tasks: [task] });
+    }
+  }
+}
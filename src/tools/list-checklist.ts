@@ -0,0 +1,148 @@
+/**
+ * List Checklist Tool
+ *
+ * Lists the checklist items of a task from the CodeRide API
+ */
+import { z } from 'zod';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
+import { SecureApiClient } from '../utils/secure-api-client.js';
+import { fetchTaskChecklist, summarizeChecklist } from '../utils/task-checklist.js';
+import { logger } from '../utils/logger.js';
+import { ChecklistItemSchema, ChecklistSummarySchema } from '../utils/output-schemas.js';
+
+/**
+ * Schema for the list-checklist tool input
+ */
+const ListChecklistSchema = z.object({
+  // Task number (e.g., "CRD-1")
+  number: z.string({
+    required_error: "Task number is required"
+  }).regex(/^[A-Za-z]{3}-\d+$/, { message: "Task number must be in the format ABC-123 (e.g., CRD-1 or crd-1). Case insensitive." }),
+}).strict();
+
+/**
+ * Type for the list-checklist tool input
+ */
+type ListChecklistInput = z.infer<typeof ListChecklistSchema>;
+
+/**
+ * Schema for the list-checklist tool output
+ */
+const ListChecklistOutputSchema = z.object({
+  number: z.string(),
+  items: z.array(ChecklistItemSchema),
+  checklist: ChecklistSummarySchema
+}).strict();
+
+/**
+ * Type for the list-checklist tool output
+ */
+type ListChecklistOutput = z.infer<typeof ListChecklistOutputSchema>;
+
+/**
+ * List Checklist Tool Implementation
+ */
+export class ListChecklistTool extends BaseTool<typeof ListChecklistSchema> {
+  readonly name = 'list_checklist';
+  readonly description = "Lists the checklist items (subtasks) of a task in order with their ids and checked state, plus the completion percentage. Use this when resuming a task to see which steps are already done and which item to work on next.";
+  readonly zodSchema = ListChecklistSchema;
+  readonly outputSchema = ListChecklistOutputSchema;
+  readonly annotations: ToolAnnotations = {
+    title: "List Checklist",
+    readOnlyHint: true,
+    openWorldHint: true, // Interacts with an external API
+  };
+  readonly metadata = {
+    category: 'task' as const,
+    tags: ['task', 'checklist', 'subtask', 'progress', 'read'],
+    usage: 'Use when resuming a task to see which steps are already done and which item to work on next',
+    priority: 'advanced' as const
+  };
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(apiClient?: SecureApiClient) {
+    super(apiClient);
+  }
+
+  /**
+   * Generate agent-specific instructions for checklist review
+   */
+  generateAgentInstructions(input: ListChecklistInput, result: any): AgentInstructions {
+    const items = Array.isArray(result?.items) ? result.items : [];
+    const remaining = items.filter((item: any) => !item.checked).length;
+
+    return {
+      immediateActions: items.length === 0
+        ? ['Task has no checklist', 'Consider breaking the task into steps with add_checklist_items']
+        : remaining > 0
+          ? [`${remaining} checklist item(s) remaining`, 'Continue with the first unchecked item']
+          : ['All checklist items are done', 'Verify the work and mark the task as done'],
+      nextRecommendedTools: items.length === 0
+        ? ['add_checklist_items']
+        : remaining > 0 ? ['tick_checklist_item'] : ['update_task'],
+      workflowPhase: 'implementation'
+    };
+  }
+
+  /**
+   * Returns the full tool definition conforming to MCP.
+   */
+  getMCPToolDefinition(): MCPToolDefinition {
+    return {
+      name: this.name,
+      description: this.description,
+      annotations: this.annotations,
+      metadata: this.metadata,
+      inputSchema: {
+        type: "object",
+        properties: {
+          number: {
+            type: "string",
+            pattern: "^[A-Za-z]{3}-\\d+$",
+            description: "The unique task number identifier in format 'ABC-123' where ABC is the three-letter project code and 123 is the task sequence number (e.g., 'CRD-1', 'CDB-42'). Case insensitive - will be converted to uppercase internally."
+          }
+        },
+        required: ["number"],
+        additionalProperties: false
+      },
+      outputSchema: this.getOutputJsonSchema()
+    };
+  }
+
+  /**
+   * Execute the list-checklist tool
+   */
+  async execute(input: ListChecklistInput): Promise<ListChecklistOutput | ToolErrorResult> {
+    logger.info('Executing list-checklist tool', input);
+
+    try {
+      // Use the injected API client to get the checklist
+      if (!this.apiClient) {
+        throw new Error('API client not available - tool not properly initialized');
+      }
+
+      const taskNumber = input.number.toUpperCase();
+      const items = await fetchTaskChecklist(this.apiClient, taskNumber);
+
+      return {
+        number: taskNumber,
+        items,
+        checklist: summarizeChecklist(items)
+      };
+    } catch (error) {
+      let errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
+      logger.error(`Error in list-checklist tool: ${errorMessage}`, error instanceof Error ? error : undefined);
+
+      if (error instanceof Error && (error as any).status === 404) {
+        errorMessage = `Task with number '${input.number}' not found.`;
+      }
+
+      return {
+        isError: true,
+        content: [{ type: "text", text: errorMessage }]
+      };
+    }
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * List Project Versions Tool
+ *
+ * Lists the locally stored snapshots of a project's knowledge and diagram
+ */
+import { z } from 'zod';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
+import { SecureApiClient } from '../utils/secure-api-client.js';
+import { ProjectHistoryStore } from '../utils/project-history.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Schema for the list-project-versions tool input
+ */
+const ListProjectVersionsSchema = z.object({
+  // Project slug (URL-friendly identifier)
+  slug: z.string({
+    required_error: "Project slug is required"
+  })
+    .regex(/^[A-Za-z]{3}$/, { message: "Project slug must be three letters (e.g., CRD or crd). Case insensitive." }),
+
+  // Number of versions to return
+  limit: z.number()
+    .int("Limit must be an integer")
+    .min(1, "Limit must be at least 1")
+    .max(100, "Limit cannot exceed 100")
+    .optional()
+    .describe("Maximum number of versions to return, newest first (default 20)"),
+}).strict();
+
+/**
+ * Type for the list-project-versions tool input
+ */
+type ListProjectVersionsInput = z.infer<typeof ListProjectVersionsSchema>;
+
+/**
+ * Schema for the list-project-versions tool output
+ */
+const ListProjectVersionsOutputSchema = z.object({
+  slug: z.string(),
+  totalVersions: z.number().int(),
+  // Newest first
+  versions: z.array(z.object({
+    version: z.number().int(),
+    takenAt: z.string(),
+    reason: z.string(),
+    knowledgeSections: z.array(z.string()),
+    knowledgeSize: z.number().int(),
+    diagramLines: z.number().int()
+  }).strict())
+}).strict();
+
+/**
+ * Type for the list-project-versions tool output
+ */
+type ListProjectVersionsOutput = z.infer<typeof ListProjectVersionsOutputSchema>;
+
+/**
+ * List Project Versions Tool Implementation
+ */
+export class ListProjectVersionsTool extends BaseTool<typeof ListProjectVersionsSchema> {
+  readonly name = 'list_project_versions';
+  readonly description = "Lists the saved versions of a project's knowledge and diagram, newest first. A version is stored locally before every update_project call, so each entry is the state a later update replaced. Use this when you need to check what an update changed, or before diffing or restoring an earlier version.";
+  readonly zodSchema = ListProjectVersionsSchema;
+  readonly outputSchema = ListProjectVersionsOutputSchema;
+  readonly annotations: ToolAnnotations = {
+    title: "List Project Versions",
+    readOnlyHint: true,
+    openWorldHint: false, // Reads the local history only
+  };
+  readonly metadata = {
+    category: 'project' as const,
+    tags: ['project', 'history', 'versions', 'knowledge', 'diagram', 'read'],
+    usage: 'Use when you need to check what an update changed, or before diffing or restoring an earlier version',
+    priority: 'advanced' as const
+  };
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(apiClient?: SecureApiClient) {
+    super(apiClient);
+  }
+
+  /**
+   * Generate agent-specific instructions for version review
+   */
+  generateAgentInstructions(input: ListProjectVersionsInput, result: any): AgentInstructions {
+    const hasVersions = Array.isArray(result?.versions) && result.versions.length > 0;
+
+    return {
+      immediateActions: hasVersions
+        ? ['Use diff_project_versions to see what changed between a version and the current project']
+        : ['No versions stored yet - a version is saved the next time update_project runs for this project'],
+      nextRecommendedTools: hasVersions ? ['diff_project_versions', 'restore_project_version'] : ['get_project'],
+      workflowPhase: 'context'
+    };
+  }
+
+  /**
+   * Returns the full tool definition conforming to MCP.
+   */
+  getMCPToolDefinition(): MCPToolDefinition {
+    return {
+      name: this.name,
+      description: this.description,
+      annotations: this.annotations,
+      metadata: this.metadata,
+      inputSchema: {
+        type: "object",
+        properties: {
+          slug: {
+            type: "string",
+            pattern: "^[A-Za-z]{3}$",
+            description: "The unique three-letter project identifier/code (e.g., 'CRD' for CodeRide). Case insensitive - will be converted to uppercase internally."
+          },
+          limit: {
+            type: "integer",
+            minimum: 1,
+            maximum: 100,
+            description: "Optional. Maximum number of versions to return, newest first. Defaults to 20."
+          }
+        },
+        required: ["slug"],
+        additionalProperties: false
+      },
+      outputSchema: this.getOutputJsonSchema()
+    };
+  }
+
+  /**
+   * Version history of the account behind the API client
+   */
+  private getHistoryStore(): ProjectHistoryStore {
+    if (!this.apiClient) {
+      throw new Error('API client not available - tool not properly initialized');
+    }
+    return new ProjectHistoryStore(this.apiClient.getAccountId());
+  }
+
+  /**
+   * Execute the list-project-versions tool
+   */
+  async execute(input: ListProjectVersionsInput): Promise<ListProjectVersionsOutput | ToolErrorResult> {
+    logger.info('Executing list-project-versions tool', input);
+
+    try {
+      const slug = input.slug.toUpperCase();
+      const snapshots = await this.getHistoryStore().list(slug);
+
+      const versions = snapshots
+        .slice()
+        .reverse()
+        .slice(0, input.limit || 20)
+        .map(snapshot => ({
+          version: snapshot.version,
+          takenAt: snapshot.takenAt,
+          reason: snapshot.reason,
+          knowledgeSections: Object.keys(snapshot.projectKnowledge || {}).sort(),
+          knowledgeSize: JSON.stringify(snapshot.projectKnowledge || {}).length,
+          diagramLines: snapshot.projectDiagram ? snapshot.projectDiagram.split('\n').length : 0
+        }));
+
+      return {
+        slug,
+        totalVersions: snapshots.length,
+        versions
+      };
+    } catch (error) {
+      const errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
+      logger.error(`Error in list-project-versions tool: ${errorMessage}`, error instanceof Error ? error : undefined);
+
+      return {
+        isError: true,
+        content: [{ type: "text", text: `Could not read project history: ${errorMessage}` }]
+      };
+    }
+  }
+}
@@ -4,28 +4,81 @@
  * Lists all projects in the user workspace from the CodeRide API
  */
 import { z } from 'zod';
-import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions } from '../utils/base-tool.js';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
 import { SecureApiClient, ProjectListApiResponse } from '../utils/secure-api-client.js';
+import { scoreTaskMatch } from '../utils/task-search.js';
 import { logger } from '../utils/logger.js';
+import { ApiIdSchema, WorkspaceRefSchema } from '../utils/output-schemas.js';
 
 /**
  * Schema for the list-projects tool input
- * No input parameters required - workspace is extracted from API key
+ * All parameters are optional - workspace access is extracted from API key
  */
-const ListProjectsSchema = z.object({}).strict();
+const ListProjectsSchema = z.object({
+  // Optional filters
+  workspace: z.string()
+    .min(1, "Workspace cannot be empty")
+    .max(100, "Workspace cannot exceed 100 characters")
+    .optional()
+    .describe("Only return projects in this workspace (id or name)"),
+  query: z.string()
+    .max(200, "Query cannot exceed 200 characters")
+    .optional()
+    .describe("Only return projects whose slug, name or description match this text"),
+  project_status: z.string()
+    .regex(/^[A-Za-z][A-Za-z_-]{0,49}$/, { message: "Project status must be a single word such as active or draft" })
+    .optional()
+    .describe("Only return projects with this status"),
+
+  // Ordering and size
+  sort: z.enum(['recent', 'name', 'slug'], {
+    invalid_type_error: "Sort must be one of: recent, name, slug"
+  }).optional().describe("Sort order (default: relevance when query is given, otherwise API order)"),
+  limit: z.number()
+    .int("Limit must be an integer")
+    .min(1, "Limit must be at least 1")
+    .max(100, "Limit cannot exceed 100")
+    .optional()
+    .describe("Maximum number of projects to return"),
+}).strict();
 
 /**
  * Type for the list-projects tool input
  */
 type ListProjectsInput = z.infer<typeof ListProjectsSchema>;
 
+/**
+ * Schema for the list-projects tool output
+ */
+const ListProjectsOutputSchema = z.object({
+  projects: z.array(z.object({
+    id: ApiIdSchema.nullish(),
+    name: z.string().nullish(),
+    description: z.string().nullish(),
+    slug: z.string(),
+    status: z.string(),
+    updatedAt: z.string(),
+    workspace: WorkspaceRefSchema
+  }).strict()),
+  totalCount: z.number().int(),
+  // Only present when filters or a limit were applied
+  unfilteredCount: z.number().int().optional(),
+  hasMore: z.boolean().optional()
+}).strict();
+
+/**
+ * Type for the list-projects tool output
+ */
+type ListProjectsOutput = z.infer<typeof ListProjectsOutputSchema>;
+
 /**
  * List Projects Tool Implementation
  */
 export class ListProjectsTool extends BaseTool<typeof ListProjectsSchema> {
   readonly name = 'list_projects';
-  readonly description = "Lists all projects in the user workspace. No input parameters required as the workspace is automatically determined from the API key authentication. Use this when you need to discover available projects, find a project slug, or get an overview of all projects you have access to.";
+  readonly description = "Lists the projects you have access to, with optional filters for workspace (id or name), text query on slug, name and description, and project status, plus sorting by recent activity, name or slug and a result limit. Without parameters every project is returned; the workspaces are determined from the API key authentication. Use this when you need to discover available projects, find a project slug, or get an overview of all projects you have access to.";
   readonly zodSchema = ListProjectsSchema;
+  readonly outputSchema = ListProjectsOutputSchema;
   readonly annotations: ToolAnnotations = {
     title: "List Projects",
     readOnlyHint: true,
@@ -56,10 +109,36 @@ export class ListProjectsTool extends BaseTool<typeof ListProjectsSchema> {
       metadata: this.metadata,
       inputSchema: {
         type: "object",
-        properties: {},
+        properties: {
+          workspace: {
+            type: "string",
+            description: "Optional. Only return projects in this workspace, given by workspace id or name (case insensitive)."
+          },
+          query: {
+            type: "string",
+            maxLength: 200,
+            description: "Optional. Only return projects whose slug, name or description match this text. Results are ranked by relevance unless sort is given."
+          },
+          project_status: {
+            type: "string",
+            description: "Optional. Only return projects with this status (e.g., 'active', 'draft'). Case insensitive."
+          },
+          sort: {
+            type: "string",
+            enum: ["recent", "name", "slug"],
+            description: "Optional. 'recent' lists the most recently updated projects first; 'name' and 'slug' sort alphabetically."
+          },
+          limit: {
+            type: "integer",
+            minimum: 1,
+            maximum: 100,
+            description: "Optional. Maximum number of projects to return."
+          }
+        },
         required: [],
         additionalProperties: false
-      }
+      },
+      outputSchema: this.getOutputJsonSchema()
     };
   }
 
@@ -67,8 +146,11 @@ export class ListProjectsTool extends BaseTool<typeof ListProjectsSchema> {
    * Generate agent instructions for list_projects tool
    */
   protected generateAgentInstructions(input: ListProjectsInput, result: any): AgentInstructions {
+    const noMatches = Array.isArray(result?.projects) && result.projects.length === 0 && result.unfilteredCount > 0;
+
     return {
       immediateActions: [
+        ...(noMatches ? [`No projects match the filters out of ${result.unfilteredCount} - loosen or remove a filter`] : []),
         "Review available projects and their descriptions",
         "Help user select appropriate project for their work",
         "Consider project scope and current status for selection"
@@ -92,7 +174,7 @@ export class ListProjectsTool extends BaseTool<typeof ListProjectsSchema> {
   /**
    * Execute the list-projects tool
    */
-  async execute(input: ListProjectsInput): Promise<unknown> {
+  async execute(input: ListProjectsInput): Promise<ListProjectsOutput | ToolErrorResult> {
     logger.info('Executing list-projects tool', input);
 
     try {
@@ -108,23 +190,66 @@ export class ListProjectsTool extends BaseTool<typeof ListProjectsSchema> {
       
       if (!responseData || !Array.isArray(responseData)) {
         logger.warn(`No projects found or invalid response format from ${url}`);
-        return { projects: [] };
+        return { projects: [], totalCount: 0 };
       }
       
+      // Resolve the workspace filter against the workspaces seen in the project list
+      let workspaceId: string | undefined;
+      if (input.workspace) {
+        const wanted = input.workspace.trim().toLowerCase();
+        const match = responseData.find(project =>
+          (project.workspace?.id || '').toLowerCase() === wanted || (project.workspace?.name || '').toLowerCase() === wanted
+        );
+        if (!match) {
+          const workspaces = [...new Map(responseData
+            .filter(project => project.workspace?.id)
+            .map(project => [project.workspace.id, `${project.workspace.name || ''} (${project.workspace.id})`])).values()];
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Workspace '${input.workspace}' not found. Available workspaces: ${workspaces.join(', ') || 'none'}` }]
+          };
+        }
+        workspaceId = match.workspace.id;
+      }
+
+      const status = input.project_status?.toLowerCase();
+      const matches = responseData
+        .filter(project => !workspaceId || project.workspace?.id === workspaceId)
+        .filter(project => !status || (project.status || 'draft').toLowerCase() === status)
+        .map(project => ({
+          project,
+          score: input.query ? scoreTaskMatch({ number: project.slug, title: project.name, description: project.description }, input.query) : 0
+        }))
+        .filter(entry => !input.query || entry.score > 0);
+
+      if (input.sort) {
+        matches.sort((a, b) => this.compareProjects(a.project, b.project, input.sort!));
+      } else if (input.query) {
+        matches.sort((a, b) => b.score - a.score);
+      }
+
+      const projects = input.limit ? matches.slice(0, input.limit) : matches;
+      const isFiltered = !!(input.workspace || input.query || input.project_status || input.limit);
+
       // Return formatted project list
       return {
-        projects: responseData.map(project => ({
+        projects: projects.map(({ project }) => ({
           id: project.id,
           name: project.name,
           description: project.description,
           slug: project.slug,
-         // status: project.status || 'draft', // Fallback for projects without status
+          status: project.status || 'draft', // Fallback for projects without status
+          updatedAt: project.updated_at || '',
           workspace: {
             id: project.workspace?.id || '',
             name: project.workspace?.name || ''
           }
         })),
-        totalCount: responseData.length
+        totalCount: matches.length,
+        ...(isFiltered && {
+          unfilteredCount: responseData.length,
+          hasMore: projects.length < matches.length
+        })
       };
     } catch (error) {
       const errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
@@ -136,4 +261,18 @@ export class ListProjectsTool extends BaseTool<typeof ListProjectsSchema> {
       };
     }
   }
+
+  /**
+   * Compare two projects for the requested sort order
+   */
+  private compareProjects(a: ProjectListApiResponse, b: ProjectListApiResponse, sort: NonNullable<ListProjectsInput['sort']>): number {
+    switch (sort) {
+      case 'recent':
+        return (Date.parse(b.updated_at) || 0) - (Date.parse(a.updated_at) || 0);
+      case 'name':
+        return (a.name || '').localeCompare(b.name || '');
+      case 'slug':
+        return (a.slug || '').localeCompare(b.slug || '');
+    }
+  }
 }
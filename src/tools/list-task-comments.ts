@@ -0,0 +1,160 @@
+/**
+ * List Task Comments Tool
+ *
+ * Lists the comments of a task's activity log from the CodeRide API
+ */
+import { z } from 'zod';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
+import { SecureApiClient } from '../utils/secure-api-client.js';
+import { fetchTaskComments } from '../utils/task-comments.js';
+import { logger } from '../utils/logger.js';
+import { TaskCommentSchema } from '../utils/output-schemas.js';
+
+/**
+ * Schema for the list-task-comments tool input
+ */
+const ListTaskCommentsSchema = z.object({
+  // Task number (e.g., "CRD-1")
+  number: z.string({
+    required_error: "Task number is required"
+  }).regex(/^[A-Za-z]{3}-\d+$/, { message: "Task number must be in the format ABC-123 (e.g., CRD-1 or crd-1). Case insensitive." }),
+
+  // Optional limit to the latest N comments
+  limit: z.number()
+    .int("Limit must be an integer")
+    .min(1, "Limit must be at least 1")
+    .max(100, "Limit cannot exceed 100")
+    .optional()
+    .describe("Only return the latest N comments"),
+}).strict();
+
+/**
+ * Type for the list-task-comments tool input
+ */
+type ListTaskCommentsInput = z.infer<typeof ListTaskCommentsSchema>;
+
+/**
+ * Schema for the list-task-comments tool output
+ */
+const ListTaskCommentsOutputSchema = z.object({
+  number: z.string(),
+  comments: z.array(TaskCommentSchema),
+  // Number of comments before the limit was applied
+  totalCount: z.number().int()
+}).strict();
+
+/**
+ * Type for the list-task-comments tool output
+ */
+type ListTaskCommentsOutput = z.infer<typeof ListTaskCommentsOutputSchema>;
+
+/**
+ * List Task Comments Tool Implementation
+ */
+export class ListTaskCommentsTool extends BaseTool<typeof ListTaskCommentsSchema> {
+  readonly name = 'list_task_comments';
+  readonly description = "Lists the comments in a task's activity log in chronological order, identified by its task number (e.g., 'CRD-1'). Use this when resuming a task to see the progress notes, decisions, and blockers recorded by previous agents or teammates.";
+  readonly zodSchema = ListTaskCommentsSchema;
+  readonly outputSchema = ListTaskCommentsOutputSchema;
+  readonly annotations: ToolAnnotations = {
+    title: "List Task Comments",
+    readOnlyHint: true,
+    openWorldHint: true, // Interacts with an external API
+  };
+  readonly metadata = {
+    category: 'task' as const,
+    tags: ['task', 'comment', 'activity', 'history', 'read'],
+    usage: 'Use when resuming a task to see the progress notes, decisions, and blockers recorded by previous agents or teammates',
+    priority: 'advanced' as const
+  };
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(apiClient?: SecureApiClient) {
+    super(apiClient);
+  }
+
+  /**
+   * Generate agent-specific instructions for activity review workflow
+   */
+  generateAgentInstructions(input: ListTaskCommentsInput, result: any): AgentInstructions {
+    const hasComments = result && Array.isArray(result.comments) && result.comments.length > 0;
+
+    return {
+      immediateActions: hasComments
+        ? [
+            'Review previous progress notes before continuing',
+            'Avoid repeating work that is already recorded as done'
+          ]
+        : [
+            'No previous activity recorded for this task',
+            'Start from the task prompt'
+          ],
+      nextRecommendedTools: ['get_prompt', 'add_task_comment'],
+      workflowPhase: 'analysis'
+    };
+  }
+
+  /**
+   * Returns the full tool definition conforming to MCP.
+   */
+  getMCPToolDefinition(): MCPToolDefinition {
+    return {
+      name: this.name,
+      description: this.description,
+      annotations: this.annotations,
+      metadata: this.metadata,
+      inputSchema: {
+        type: "object",
+        properties: {
+          number: {
+            type: "string",
+            pattern: "^[A-Za-z]{3}-\\d+$",
+            description: "The unique task number identifier in format 'ABC-123' where ABC is the three-letter project code and 123 is the task sequence number (e.g., 'CRD-1', 'CDB-42'). Case insensitive - will be converted to uppercase internally."
+          },
+          limit: {
+            type: "integer",
+            minimum: 1,
+            maximum: 100,
+            description: "Optional. Only return the latest N comments (still in chronological order). Omit to return the full activity log."
+          }
+        },
+        required: ["number"],
+        additionalProperties: false
+      },
+      outputSchema: this.getOutputJsonSchema()
+    };
+  }
+
+  /**
+   * Execute the list-task-comments tool
+   */
+  async execute(input: ListTaskCommentsInput): Promise<ListTaskCommentsOutput | ToolErrorResult> {
+    logger.info('Executing list-task-comments tool', input);
+
+    try {
+      // Use the injected API client to get the comments
+      if (!this.apiClient) {
+        throw new Error('API client not available - tool not properly initialized');
+      }
+
+      const taskNumber = input.number.toUpperCase();
+      const comments = await fetchTaskComments(this.apiClient, taskNumber);
+
+      return {
+        number: taskNumber,
+        comments: input.limit ? comments.slice(-input.limit) : comments,
+        totalCount: comments.length
+      };
+    } catch (error) {
+      const errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
+      logger.error(`Error in list-task-comments tool: ${errorMessage}`, error instanceof Error ? error : undefined);
+
+      return {
+        isError: true,
+        content: [{ type: "text", text: errorMessage }]
+      };
+    }
+  }
+}
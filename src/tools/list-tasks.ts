@@ -4,9 +4,12 @@
  * Lists all tasks within a project by slug from the CodeRide API
  */
 import { z } from 'zod';
-import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions } from '../utils/base-tool.js';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
 import { SecureApiClient, TaskListApiResponse } from '../utils/secure-api-client.js';
+import { BoardTask, getTaskPriorityRank, getTaskSequenceNumber, matchesTaskStatus } from '../utils/task-board.js';
+import { scoreTaskMatch } from '../utils/task-search.js';
 import { logger } from '../utils/logger.js';
+import { ApiIdSchema } from '../utils/output-schemas.js';
 
 /**
  * Schema for the list-tasks tool input
@@ -17,6 +20,36 @@ const ListTasksSchema = z.object({
     required_error: "Project slug is required"
   })
     .regex(/^[A-Za-z]{3}$/, { message: "Project slug must be three letters (e.g., CDB or cdb). Case insensitive." }),
+
+  // Optional filters
+  status: z.enum(['to-do', 'in-progress', 'done'], {
+    invalid_type_error: "Status must be one of: to-do, in-progress, done"
+  }).optional().describe("Only return tasks with this status"),
+  priority: z.enum(['low', 'medium', 'high'], {
+    invalid_type_error: "Priority must be one of: low, medium, high"
+  }).optional().describe("Only return tasks with this priority"),
+  query: z.string()
+    .max(200, "Query cannot exceed 200 characters")
+    .optional()
+    .describe("Only return tasks whose number, title or description match this text"),
+
+  // Ordering and pagination
+  sort: z.enum(['number', 'priority', 'position', 'updated_at'], {
+    invalid_type_error: "Sort must be one of: number, priority, position, updated_at"
+  }).optional().describe("Sort order within each status column (default number)"),
+  limit: z.number()
+    .int("Limit must be an integer")
+    .min(1, "Limit must be at least 1")
+    .max(200, "Limit cannot exceed 200")
+    .optional()
+    .describe("Maximum number of tasks to return"),
+  cursor: z.string()
+    .regex(/^\d+$/, { message: "Cursor must be a value returned as nextCursor by a previous list_tasks call" })
+    .optional()
+    .describe("Pagination cursor from a previous call"),
+  compact: z.boolean()
+    .optional()
+    .describe("Omit task descriptions to reduce response size"),
 }).strict();
 
 /**
@@ -24,13 +57,60 @@ const ListTasksSchema = z.object({
  */
 type ListTasksInput = z.infer<typeof ListTasksSchema>;
 
+/**
+ * Schema for the list-tasks tool output
+ */
+const ListTasksOutputSchema = z.object({
+  project: z.object({
+    id: ApiIdSchema.nullish(),
+    name: z.string().nullish(),
+    slug: z.string().nullish(),
+    status: z.string().nullish()
+  }).strict(),
+  taskSummary: z.object({
+    totalTasks: z.number().int(),
+    statusBreakdown: z.array(z.object({
+      status: z.string(),
+      name: z.string().nullish(),
+      count: z.number().int()
+    }).strict())
+  }).strict(),
+  // Only present when filters, a limit or a cursor were applied
+  pagination: z.object({
+    matchingTasks: z.number().int(),
+    returnedTasks: z.number().int(),
+    nextCursor: z.string().nullable()
+  }).strict().optional(),
+  tasksByStatus: z.array(z.object({
+    status: z.string(),
+    name: z.string().nullish(),
+    tasks: z.array(z.object({
+      number: z.string(),
+      title: z.string().nullish(),
+      // Omitted in compact mode
+      description: z.string().nullish(),
+      status: z.string().nullish(),
+      priority: z.string().nullish(),
+      position: z.number().nullish(),
+      hasContext: z.boolean(),
+      hasInstructions: z.boolean()
+    }).strict())
+  }).strict())
+}).strict();
+
+/**
+ * Type for the list-tasks tool output
+ */
+type ListTasksOutput = z.infer<typeof ListTasksOutputSchema>;
+
 /**
  * List Tasks Tool Implementation
  */
 export class ListTasksTool extends BaseTool<typeof ListTasksSchema> {
   readonly name = 'list_tasks';
-  readonly description = "Lists all tasks within a project using the project slug (e.g., 'CDB'). Returns tasks organized by status columns with their order and current status. Use this when you need to see the full project backlog, identify tasks by status (to-do, in-progress, done), or plan your work sequence.";
+  readonly description = "Lists tasks within a project using the project slug (e.g., 'CDB'), with optional status, priority and text filters, sorting, pagination and a compact mode. Returns tasks organized by status columns with their order and current status. Use this when you need to see the project backlog, identify tasks by status (to-do, in-progress, done), or plan your work sequence.";
   readonly zodSchema = ListTasksSchema;
+  readonly outputSchema = ListTasksOutputSchema;
   readonly annotations: ToolAnnotations = {
     title: "List Tasks",
     readOnlyHint: true,
@@ -66,11 +146,45 @@ export class ListTasksTool extends BaseTool<typeof ListTasksSchema> {
             type: "string",
             pattern: "^[A-Za-z]{3}$",
             description: "The unique three-letter project identifier/code (e.g., 'CDB' for a database project, 'CRD' for CodeRide). Returns all tasks organized by status columns (to-do, in-progress, done) with their sequence numbers and metadata. Case insensitive - will be converted to uppercase internally."
+          },
+          status: {
+            type: "string",
+            enum: ["to-do", "in-progress", "done"],
+            description: "Optional. Only return tasks with this status."
+          },
+          priority: {
+            type: "string",
+            enum: ["low", "medium", "high"],
+            description: "Optional. Only return tasks with this priority."
+          },
+          query: {
+            type: "string",
+            description: "Optional. Only return tasks whose number, title or description match this text (e.g., 'auth'). Maximum 200 characters."
+          },
+          sort: {
+            type: "string",
+            enum: ["number", "priority", "position", "updated_at"],
+            description: "Optional. Sort order within each status column: 'number' (task sequence, default), 'priority' (high first), 'position' (board order), 'updated_at' (most recently updated first)."
+          },
+          limit: {
+            type: "integer",
+            minimum: 1,
+            maximum: 200,
+            description: "Optional. Maximum number of tasks to return across all columns. When more tasks match, the response includes a nextCursor for the following page."
+          },
+          cursor: {
+            type: "string",
+            description: "Optional. The nextCursor value returned by a previous list_tasks call with the same filters, to fetch the next page."
+          },
+          compact: {
+            type: "boolean",
+            description: "Optional. When true, task descriptions are omitted to keep the response small on large boards. Use get_task for the full details of a selected task."
           }
         },
         required: ["slug"],
         additionalProperties: false
-      }
+      },
+      outputSchema: this.getOutputJsonSchema()
     };
   }
 
@@ -92,15 +206,53 @@ export class ListTasksTool extends BaseTool<typeof ListTasksSchema> {
       ],
       automationHints: {
         taskSelection: "Guide user to select tasks based on priority and dependencies",
-        workflowGuidance: "Ensure project context is established before task work begins"
+        workflowGuidance: "Ensure project context is established before task work begins",
+        ...(result?.pagination?.nextCursor && {
+          pagination: `More tasks match - call list_tasks again with cursor "${result.pagination.nextCursor}" and the same filters`
+        })
       }
     };
   }
 
+  /**
+   * Check a board task against the status, priority and text filters
+   */
+  private matchesFilters(task: BoardTask, columnId: string, input: ListTasksInput): boolean {
+    if (input.status && !matchesTaskStatus(task.status || columnId, input.status)) {
+      return false;
+    }
+    if (input.priority && task.priority?.toLowerCase() !== input.priority) {
+      return false;
+    }
+    if (input.query && scoreTaskMatch(task, input.query) === 0) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Build the comparator for the requested sort order
+   * Ties always fall back to task sequence number
+   */
+  private getTaskComparator(sort: NonNullable<ListTasksInput['sort']>): (a: BoardTask, b: BoardTask) => number {
+    const byNumber = (a: BoardTask, b: BoardTask) => getTaskSequenceNumber(a.number) - getTaskSequenceNumber(b.number);
+
+    switch (sort) {
+      case 'priority':
+        return (a, b) => getTaskPriorityRank(a.priority) - getTaskPriorityRank(b.priority) || byNumber(a, b);
+      case 'position':
+        return (a, b) => (a.position ?? Number.MAX_SAFE_INTEGER) - (b.position ?? Number.MAX_SAFE_INTEGER) || byNumber(a, b);
+      case 'updated_at':
+        return (a, b) => (b.updated_at || '').localeCompare(a.updated_at || '') || byNumber(a, b);
+      default:
+        return byNumber;
+    }
+  }
+
   /**
    * Execute the list-tasks tool
    */
-  async execute(input: ListTasksInput): Promise<unknown> {
+  async execute(input: ListTasksInput): Promise<ListTasksOutput | ToolErrorResult> {
     logger.info('Executing list-tasks tool', input);
 
     try {
@@ -122,9 +274,47 @@ export class ListTasksTool extends BaseTool<typeof ListTasksSchema> {
         };
       }
       
-      // Calculate total task count across all columns
+      // Calculate total task count across all columns (unfiltered board)
       const totalTasks = responseData.columns?.reduce((total, column) => total + (column.tasks?.length || 0), 0) || 0;
-      
+
+      // Filter and sort each column, then paginate across the flattened sequence
+      const filteredColumns = (responseData.columns || []).map(column => ({
+        column,
+        tasks: (column.tasks || [])
+          .filter(task => this.matchesFilters(task, column.id, input))
+          .sort(this.getTaskComparator(input.sort || 'number'))
+      }));
+
+      const matchingTasks = filteredColumns.reduce((total, entry) => total + entry.tasks.length, 0);
+      const offset = input.cursor ? parseInt(input.cursor, 10) : 0;
+      const pageEnd = input.limit ? offset + input.limit : matchingTasks;
+      const isFiltered = !!(input.status || input.priority || input.query || input.limit || input.cursor);
+
+      let position = 0;
+      const tasksByStatus = filteredColumns.map(({ column, tasks }) => {
+        const pageTasks = tasks.filter(() => {
+          const index = position++;
+          return index >= offset && index < pageEnd;
+        });
+
+        return {
+          status: column.id,
+          name: column.name,
+          tasks: pageTasks.map(task => ({
+            number: task.number,
+            title: task.title,
+            ...(!input.compact && { description: task.description }),
+            status: task.status,
+            priority: task.priority,
+            position: task.position,
+            hasContext: !!task.context,
+            hasInstructions: !!task.instructions
+          }))
+        };
+      }).filter(column => !isFiltered || column.tasks.length > 0);
+
+      const returnedTasks = tasksByStatus.reduce((total, column) => total + column.tasks.length, 0);
+
       // Return formatted task list with project info and organized tasks
       return {
         project: {
@@ -141,27 +331,14 @@ export class ListTasksTool extends BaseTool<typeof ListTasksSchema> {
             count: column.tasks?.length || 0
           })) || []
         },
-        tasksByStatus: responseData.columns?.map(column => ({
-          status: column.id,
-          name: column.name,
-          tasks: column.tasks?.map(task => ({
-            number: task.number,
-            title: task.title,
-            description: task.description,
-            status: task.status,
-            priority: task.priority,
-            position: task.position,
-            hasContext: !!task.context,
-            hasInstructions: !!task.instructions
-          })).sort((a, b) => {
-            // Sort tasks by their number (e.g., CDB-1, CDB-2, CDB-3, etc.)
-            const getTaskNumber = (taskNumber: string) => {
-              const match = taskNumber.match(/^[A-Z]{3}-(\d+)$/);
-              return match ? parseInt(match[1], 10) : 0;
-            };
-            return getTaskNumber(a.number) - getTaskNumber(b.number);
-          }) || []
-        })) || []
+        ...(isFiltered && {
+          pagination: {
+            matchingTasks,
+            returnedTasks,
+            nextCursor: pageEnd < matchingTasks ? String(pageEnd) : null
+          }
+        }),
+        tasksByStatus
       };
     } catch (error) {
       const errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
@@ -4,8 +4,10 @@
  * Retrieves the next task in sequence from the CodeRide API
  */
 import { z } from 'zod';
-import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions } from '../utils/base-tool.js';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
 import { SecureApiClient, NextTaskApiResponse } from '../utils/secure-api-client.js';
+import { BoardTaskWithColumn, fetchTaskBoard, flattenBoardTasks, getTaskPriorityRank, getTaskSequenceNumber, isTaskDone } from '../utils/task-board.js';
+import { getUnresolvedBlockers, indexBoardTasks, normalizeBlockedBy, resolveBlockers } from '../utils/task-dependencies.js';
 import { logger } from '../utils/logger.js';
 
 /**
@@ -16,6 +18,19 @@ const NextTaskSchema = z.object({
   number: z.string({
     required_error: "Task number is required"
   }).regex(/^[A-Za-z]{3}-\d+$/, { message: "Task number must be in the format ABC-123 (e.g., CDB-23 or cdb-23). Case insensitive." }),
+
+  // Selection mode
+  mode: z.enum(['sequence', 'unblocked'], {
+    invalid_type_error: "Mode must be one of: sequence, unblocked"
+  }).optional().describe("Whether to skip tasks with unfinished blockers (default sequence)"),
+
+  // Ordering strategy
+  strategy: z.enum(['sequence', 'priority', 'oldest', 'board-position'], {
+    invalid_type_error: "Strategy must be one of: sequence, priority, oldest, board-position"
+  }).optional().describe("How to order candidate tasks (default sequence)"),
+
+  // Skip finished tasks when following the sequence
+  skipDone: z.boolean().optional().describe("Skip tasks that are already done"),
 }).strict();
 
 /**
@@ -23,13 +38,81 @@ const NextTaskSchema = z.object({
  */
 type NextTaskInput = z.infer<typeof NextTaskSchema>;
 
+/**
+ * Schema for the next-task tool output
+ */
+const NextTaskOutputSchema = z.object({
+  currentTask: z.object({
+    number: z.string(),
+    projectSlug: z.string(),
+    sequenceNumber: z.number().int()
+  }).strict(),
+  nextTask: z.object({
+    number: z.string(),
+    title: z.string().nullish(),
+    description: z.string().nullish(),
+    status: z.string().nullish(),
+    priority: z.string().nullish(),
+    sequenceNumber: z.number().int(),
+    hasContext: z.boolean(),
+    hasInstructions: z.boolean()
+  }).strict(),
+  sequenceInfo: z.object({
+    projectSlug: z.string(),
+    progression: z.string(),
+    // Only reported by the API-backed strict sequence
+    increment: z.number().int().optional(),
+    strategy: z.enum(['sequence', 'priority', 'oldest', 'board-position']),
+    mode: z.enum(['sequence', 'unblocked']),
+    reason: z.string(),
+    skippedDone: z.array(z.string()).optional(),
+    skippedBlocked: z.array(z.object({
+      number: z.string(),
+      blockedBy: z.array(z.string())
+    }).strict()).optional()
+  }).strict()
+}).strict();
+
+/**
+ * Type for the next-task tool output
+ */
+type NextTaskOutput = z.infer<typeof NextTaskOutputSchema>;
+
+/**
+ * Candidate ordering strategies
+ */
+type NextTaskStrategy = NonNullable<NextTaskInput['strategy']>;
+
+/**
+ * Explanation of each strategy, reported in sequenceInfo.reason
+ */
+const STRATEGY_REASONS: Record<NextTaskStrategy, string> = {
+  'sequence': 'Next task number after the current task',
+  'priority': 'Highest-priority to-do task, lowest number first among equal priorities',
+  'oldest': 'Oldest to-do task by creation date',
+  'board-position': 'First to-do task in board column and card order'
+};
+
+/**
+ * Reason reported when mode 'unblocked' is used without a strategy
+ */
+const UNBLOCKED_DEFAULT_REASON = 'Lowest-numbered to-do task';
+
+/**
+ * Order board tasks by their sequence number
+ */
+function compareTaskNumbers(a: BoardTaskWithColumn, b: BoardTaskWithColumn): number {
+  return getTaskSequenceNumber(a.number) - getTaskSequenceNumber(b.number);
+}
+
 /**
  * Next Task Tool Implementation
  */
 export class NextTaskTool extends BaseTool<typeof NextTaskSchema> {
   readonly name = 'next_task';
-  readonly description = "Retrieves the next task in sequence based on the current task number (e.g., CDB-23 → CDB-24). Use this after completing a task to automatically find and transition to the next task in the project workflow, maintaining continuous progress.";
+  readonly description = "Retrieves the next task to work on after the current task number: by default the next in sequence (e.g., CDB-23 → CDB-24), optionally skipping done tasks, or the best to-do task by priority, age or board position, and with mode 'unblocked' only tasks whose blockers are all done. Use this after completing a task to automatically find and transition to the next task in the project workflow, maintaining continuous progress.";
   readonly zodSchema = NextTaskSchema;
+  readonly outputSchema = NextTaskOutputSchema;
   readonly annotations: ToolAnnotations = {
     title: "Next Task",
     readOnlyHint: true,
@@ -60,7 +143,7 @@ export class NextTaskTool extends BaseTool<typeof NextTaskSchema> {
    * Generate agent-specific instructions for next task workflow
    */
   generateAgentInstructions(input: any, result: any): AgentInstructions {
-    const hasNextTask = result && !result.isError && result.number;
+    const hasNextTask = result && !result.isError && (result.nextTask?.number || result.number);
     
     const baseInstructions: AgentInstructions = {
       immediateActions: [
@@ -81,7 +164,7 @@ export class NextTaskTool extends BaseTool<typeof NextTaskSchema> {
 
     if (hasNextTask) {
       baseInstructions.immediateActions = [
-        `Next task found: ${result.number}`,
+        `Next task found: ${result.nextTask?.number || result.number}`,
         'Begin analysis of next task requirements',
         'Maintain project context for seamless transition'
       ];
@@ -143,18 +226,34 @@ export class NextTaskTool extends BaseTool<typeof NextTaskSchema> {
             type: "string",
             pattern: "^[A-Za-z]{3}-\\d+$",
             description: "The current task number in format 'ABC-123' to find the next sequential task (e.g., 'CDB-23' returns 'CDB-24', 'CRD-5' returns 'CRD-6'). Use this after completing a task to automatically continue with the next task in the project sequence. Case insensitive - will be converted to uppercase internally."
+          },
+          mode: {
+            type: "string",
+            enum: ["sequence", "unblocked"],
+            description: "Optional. 'sequence' (default) does not look at blockers. 'unblocked' only returns to-do tasks whose blockers (set via set_task_dependencies) are all done, which is correct when tasks depend on each other or were created out of order. " +
+              "Without a strategy, 'unblocked' returns the lowest-numbered such task. Combines with any strategy."
+          },
+          strategy: {
+            type: "string",
+            enum: ["sequence", "priority", "oldest", "board-position"],
+            description: "Optional. How candidate tasks are ordered. 'sequence' (default) follows task numbers after the current task, wrapping around to earlier tasks when needed. 'priority' picks the highest-priority to-do task. 'oldest' picks the to-do task created first. 'board-position' picks the first to-do task in board column and card order. Strategies other than 'sequence' only consider to-do tasks."
+          },
+          skipDone: {
+            type: "boolean",
+            description: "Optional. When true with the 'sequence' strategy, tasks that are already done are skipped so the result is always actionable work. Defaults to false, which returns the strict numeric successor whatever its status."
           }
         },
         required: ["number"],
         additionalProperties: false
-      }
+      },
+      outputSchema: this.getOutputJsonSchema()
     };
   }
 
   /**
    * Execute the next-task tool
    */
-  async execute(input: NextTaskInput): Promise<unknown> {
+  async execute(input: NextTaskInput): Promise<NextTaskOutput | ToolErrorResult> {
     logger.info('Executing next-task tool', input);
 
     try {
@@ -163,6 +262,12 @@ export class NextTaskTool extends BaseTool<typeof NextTaskSchema> {
         throw new Error('API client not available - tool not properly initialized');
       }
 
+      // The API endpoint only knows strict sequence; everything else is computed from the board
+      const strategy = input.strategy || 'sequence';
+      if (strategy !== 'sequence' || input.mode === 'unblocked' || input.skipDone) {
+        return await this.selectFromBoard(input, strategy);
+      }
+
       const url = `/task/number/${input.number.toUpperCase()}/next`;
       logger.debug(`Making GET request to: ${url}`);
       
@@ -201,7 +306,10 @@ export class NextTaskTool extends BaseTool<typeof NextTaskSchema> {
         sequenceInfo: {
           projectSlug: currentProjectSlug,
           progression: `${input.number.toUpperCase()} → ${responseData.number}`,
-          increment: 1
+          increment: 1,
+          strategy,
+          mode: 'sequence',
+          reason: STRATEGY_REASONS.sequence
         }
       };
     } catch (error) {
@@ -223,4 +331,139 @@ export class NextTaskTool extends BaseTool<typeof NextTaskSchema> {
       };
     }
   }
+
+  /**
+   * Pick the next task from the project board using the requested strategy
+   */
+  private async selectFromBoard(input: NextTaskInput, strategy: NextTaskStrategy): Promise<NextTaskOutput | ToolErrorResult> {
+    const currentNumber = input.number.toUpperCase();
+    const projectSlug = currentNumber.split('-')[0];
+    const unblockedOnly = input.mode === 'unblocked';
+    // 'unblocked' without an explicit strategy starts from the lowest task number, not after the current task
+    const lowestNumberFirst = unblockedOnly && !input.strategy;
+
+    const board = await fetchTaskBoard(this.apiClient!, projectSlug);
+    if (!board) {
+      return {
+        isError: true,
+        content: [{ type: "text", text: `Project with slug '${projectSlug}' not found` }]
+      };
+    }
+
+    const boardTasks = flattenBoardTasks(board);
+    const knownTasks = indexBoardTasks(boardTasks);
+    const columnOrder = new Map((board.columns || []).map((column, index) => [column.id, index]));
+    const currentSequence = getTaskSequenceNumber(currentNumber);
+
+    // Only strict sequence may land on tasks that are already in progress
+    const isEligible = (task: BoardTaskWithColumn): boolean => {
+      const status = task.status || task.columnId;
+      return strategy === 'sequence' && !unblockedOnly ? !isTaskDone(status) : status === 'to-do';
+    };
+
+    const ordered = boardTasks
+      .filter(task => task.number.toUpperCase() !== currentNumber)
+      .sort(lowestNumberFirst ? compareTaskNumbers : this.getStrategyComparator(strategy, currentSequence, columnOrder));
+
+    const skippedDone: string[] = [];
+    const skippedBlocked: Array<{ number: string; blockedBy: string[] }> = [];
+
+    for (const task of ordered) {
+      if (!isEligible(task)) {
+        if (strategy === 'sequence' && isTaskDone(task.status || task.columnId)) {
+          skippedDone.push(task.number);
+        }
+        continue;
+      }
+
+      if (unblockedOnly) {
+        const blockedBy = normalizeBlockedBy(task.number, task.blockedBy);
+        const unresolved = blockedBy.length > 0
+          ? getUnresolvedBlockers(blockedBy, await resolveBlockers(this.apiClient!, blockedBy, knownTasks))
+          : [];
+
+        if (unresolved.length > 0) {
+          skippedBlocked.push({ number: task.number, blockedBy: unresolved.map(blocker => blocker.number) });
+          continue;
+        }
+      }
+
+      const nextSequence = getTaskSequenceNumber(task.number);
+      const reasons = [`${lowestNumberFirst ? UNBLOCKED_DEFAULT_REASON : STRATEGY_REASONS[strategy]}${unblockedOnly ? ' with no unfinished blockers' : ''}`];
+      if (strategy === 'sequence' && !lowestNumberFirst && nextSequence < currentSequence) {
+        reasons.push('wrapped around to the start of the project because no later task qualified');
+      }
+      if (skippedDone.length > 0) {
+        reasons.push(`skipped ${skippedDone.length} done task(s)`);
+      }
+      if (skippedBlocked.length > 0) {
+        reasons.push(`skipped ${skippedBlocked.length} blocked task(s)`);
+      }
+
+      return {
+        currentTask: {
+          number: currentNumber,
+          projectSlug,
+          sequenceNumber: currentSequence
+        },
+        nextTask: {
+          number: task.number,
+          title: task.title,
+          description: task.description,
+          status: task.status || task.columnId,
+          priority: task.priority,
+          sequenceNumber: nextSequence,
+          hasContext: !!task.context,
+          hasInstructions: !!task.instructions
+        },
+        sequenceInfo: {
+          projectSlug,
+          progression: `${currentNumber} → ${task.number}`,
+          strategy,
+          mode: input.mode || 'sequence',
+          reason: reasons.join('; '),
+          ...(skippedDone.length > 0 && { skippedDone }),
+          ...(unblockedOnly && { skippedBlocked })
+        }
+      };
+    }
+
+    return {
+      isError: true,
+      content: [{
+        type: "text",
+        text: skippedBlocked.length > 0
+          ? `No unblocked to-do task found in project ${projectSlug}. Blocked tasks: ${skippedBlocked.map(task => `${task.number} (by ${task.blockedBy.join(', ')})`).join('; ')}`
+          : `No actionable tasks left in project ${projectSlug}.`
+      }]
+    };
+  }
+
+  /**
+   * Build the candidate ordering for a selection strategy
+   */
+  private getStrategyComparator(
+    strategy: NextTaskStrategy,
+    currentSequence: number,
+    columnOrder: Map<string, number>
+  ): (a: BoardTaskWithColumn, b: BoardTaskWithColumn) => number {
+    const byNumber = compareTaskNumbers;
+
+    switch (strategy) {
+      case 'priority':
+        return (a, b) => getTaskPriorityRank(a.priority) - getTaskPriorityRank(b.priority) || byNumber(a, b);
+      case 'oldest':
+        return (a, b) => (a.created_at || '\uffff').localeCompare(b.created_at || '\uffff') || byNumber(a, b);
+      case 'board-position':
+        return (a, b) =>
+          (columnOrder.get(a.columnId) ?? 0) - (columnOrder.get(b.columnId) ?? 0) ||
+          (a.position ?? Number.MAX_SAFE_INTEGER) - (b.position ?? Number.MAX_SAFE_INTEGER) ||
+          byNumber(a, b);
+      default: {
+        // Tasks after the current one first, then wrap around to earlier ones
+        const isAfter = (task: BoardTaskWithColumn) => getTaskSequenceNumber(task.number) > currentSequence ? 0 : 1;
+        return (a, b) => isAfter(a) - isAfter(b) || byNumber(a, b);
+      }
+    }
+  }
 }
@@ -0,0 +1,317 @@
+/**
+ * Project Progress Tool
+ *
+ * Derives completion metrics for a project from its task board in the CodeRide API
+ */
+import { z } from 'zod';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
+import { SecureApiClient } from '../utils/secure-api-client.js';
+import { BoardTaskWithColumn, fetchTaskBoard, flattenBoardTasks, isTaskDone } from '../utils/task-board.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Milliseconds per day
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Schema for the project-progress tool input
+ */
+const ProjectProgressSchema = z.object({
+  // Project slug (URL-friendly identifier)
+  slug: z.string({
+    required_error: "Project slug is required"
+  })
+    .regex(/^[A-Za-z]{3}$/, { message: "Project slug must be three letters (e.g., CRD or crd). Case insensitive." }),
+
+  // Throughput window
+  days: z.number()
+    .int("Days must be an integer")
+    .min(1, "Days must be at least 1")
+    .max(365, "Days cannot exceed 365")
+    .optional()
+    .describe("Number of days used for throughput metrics (default 28)"),
+
+  // Size of the oldest/in-progress lists
+  limit: z.number()
+    .int("Limit must be an integer")
+    .min(1, "Limit must be at least 1")
+    .max(50, "Limit cannot exceed 50")
+    .optional()
+    .describe("Maximum number of tasks in the oldest open and in-progress lists (default 5)"),
+}).strict();
+
+/**
+ * Type for the project-progress tool input
+ */
+type ProjectProgressInput = z.infer<typeof ProjectProgressSchema>;
+
+/**
+ * Schema for the project-progress tool output
+ */
+const ProjectProgressOutputSchema = z.object({
+  slug: z.string(),
+  name: z.string(),
+  completionPercent: z.number(),
+  totals: z.object({
+    total: z.number().int(),
+    done: z.number().int(),
+    inProgress: z.number().int(),
+    open: z.number().int()
+  }).strict(),
+  statusCounts: z.record(z.number().int()),
+  throughput: z.object({
+    windowDays: z.number().int(),
+    doneInWindow: z.number().int(),
+    averagePerWeek: z.number(),
+    perDay: z.array(z.object({ date: z.string(), count: z.number().int() }).strict()),
+    perWeek: z.array(z.object({ weekStart: z.string(), count: z.number().int() }).strict())
+  }).strict(),
+  oldestOpenTasks: z.array(z.object({
+    number: z.string(),
+    title: z.string().nullish(),
+    status: z.string(),
+    createdAt: z.string(),
+    ageDays: z.number().int()
+  }).strict()),
+  inProgressTasks: z.array(z.object({
+    number: z.string(),
+    title: z.string().nullish(),
+    updatedAt: z.string(),
+    daysSinceUpdate: z.number().int().nullable()
+  }).strict()),
+  generatedAt: z.string(),
+  summary: z.string()
+}).strict();
+
+/**
+ * Type for the project-progress tool output
+ */
+type ProjectProgressOutput = z.infer<typeof ProjectProgressOutputSchema>;
+
+/**
+ * Project Progress Tool Implementation
+ */
+export class ProjectProgressTool extends BaseTool<typeof ProjectProgressSchema> {
+  readonly name = 'project_progress';
+  readonly description = "Reports how far along a project is: completion percentage, task counts per status, tasks finished per day and per week, the oldest open tasks and how long in-progress tasks have been running, plus a short human-readable summary. Use this when asked about project status or velocity, or before planning what to work on next.";
+  readonly zodSchema = ProjectProgressSchema;
+  readonly outputSchema = ProjectProgressOutputSchema;
+  readonly annotations: ToolAnnotations = {
+    title: "Project Progress",
+    readOnlyHint: true,
+    openWorldHint: true, // Interacts with an external API
+  };
+  readonly metadata = {
+    category: 'project' as const,
+    tags: ['project', 'progress', 'metrics', 'report', 'read'],
+    usage: 'Use when asked about project status or velocity, or before planning what to work on next',
+    priority: 'primary' as const
+  };
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(apiClient?: SecureApiClient) {
+    super(apiClient);
+  }
+
+  /**
+   * Generate agent-specific instructions for progress reporting
+   */
+  generateAgentInstructions(input: ProjectProgressInput, result: any): AgentInstructions {
+    const staleInProgress = Array.isArray(result?.inProgressTasks)
+      ? result.inProgressTasks.filter((task: any) => task.daysSinceUpdate >= 7).length
+      : 0;
+
+    return {
+      immediateActions: [
+        'Share the summary with the user',
+        ...(staleInProgress > 0
+          ? [`${staleInProgress} in-progress task(s) have not been updated for a week or more - check whether they are stuck`]
+          : [])
+      ],
+      nextRecommendedTools: ['list_tasks', 'next_task'],
+      workflowPhase: 'discovery',
+      automationHints: {
+        dataSource: 'Metrics are derived from the task board; per-day and per-week counts use each done task\'s last update time'
+      }
+    };
+  }
+
+  /**
+   * Returns the full tool definition conforming to MCP.
+   */
+  getMCPToolDefinition(): MCPToolDefinition {
+    return {
+      name: this.name,
+      description: this.description,
+      annotations: this.annotations,
+      metadata: this.metadata,
+      inputSchema: {
+        type: "object",
+        properties: {
+          slug: {
+            type: "string",
+            pattern: "^[A-Za-z]{3}$",
+            description: "The unique three-letter project identifier/code (e.g., 'CRD' for CodeRide). Case insensitive - will be converted to uppercase internally."
+          },
+          days: {
+            type: "integer",
+            minimum: 1,
+            maximum: 365,
+            description: "Optional. Number of days used for the done-per-day and done-per-week metrics. Defaults to 28."
+          },
+          limit: {
+            type: "integer",
+            minimum: 1,
+            maximum: 50,
+            description: "Optional. Maximum number of tasks listed in oldestOpenTasks and inProgressTasks. Defaults to 5."
+          }
+        },
+        required: ["slug"],
+        additionalProperties: false
+      },
+      outputSchema: this.getOutputJsonSchema()
+    };
+  }
+
+  /**
+   * Execute the project-progress tool
+   */
+  async execute(input: ProjectProgressInput): Promise<ProjectProgressOutput | ToolErrorResult> {
+    logger.info('Executing project-progress tool', input);
+
+    try {
+      // Use the injected API client to get the task board
+      if (!this.apiClient) {
+        throw new Error('API client not available - tool not properly initialized');
+      }
+
+      const slug = input.slug.toUpperCase();
+      const days = input.days || 28;
+      const limit = input.limit || 5;
+      const now = Date.now();
+
+      const board = await fetchTaskBoard(this.apiClient, slug);
+      if (!board) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Project with slug '${slug}' not found` }]
+        };
+      }
+
+      const tasks = flattenBoardTasks(board);
+      const statusOf = (task: BoardTaskWithColumn) => task.status || task.columnId || 'unknown';
+
+      const statusCounts: Record<string, number> = {};
+      tasks.forEach(task => {
+        statusCounts[statusOf(task)] = (statusCounts[statusOf(task)] || 0) + 1;
+      });
+
+      const doneTasks = tasks.filter(task => isTaskDone(statusOf(task)));
+      const openTasks = tasks.filter(task => !isTaskDone(statusOf(task)));
+      const inProgress = tasks.filter(task => statusOf(task) === 'in-progress');
+      const completionPercent = tasks.length > 0 ? Math.round((doneTasks.length / tasks.length) * 100) : 0;
+
+      const throughput = this.computeThroughput(doneTasks, days, now);
+
+      const oldestOpenTasks = openTasks
+        .filter(task => !isNaN(Date.parse(task.created_at)))
+        .sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at))
+        .slice(0, limit)
+        .map(task => ({
+          number: task.number,
+          title: task.title,
+          status: statusOf(task),
+          createdAt: task.created_at,
+          ageDays: Math.floor((now - Date.parse(task.created_at)) / DAY_MS)
+        }));
+
+      // The board has no status-change timestamp, so the last update approximates when work started
+      const inProgressTasks = inProgress
+        .map(task => ({
+          number: task.number,
+          title: task.title,
+          updatedAt: task.updated_at || '',
+          daysSinceUpdate: isNaN(Date.parse(task.updated_at)) ? null : Math.floor((now - Date.parse(task.updated_at)) / DAY_MS)
+        }))
+        .sort((a, b) => (b.daysSinceUpdate ?? -1) - (a.daysSinceUpdate ?? -1))
+        .slice(0, limit);
+
+      const summary = [
+        `${board.project?.name || board.name || slug} (${slug}) is ${completionPercent}% complete: ${doneTasks.length} of ${tasks.length} tasks done, ${inProgress.length} in progress, ${openTasks.length - inProgress.length} to do.`,
+        `${throughput.doneInWindow} task(s) finished in the last ${days} day(s), about ${throughput.averagePerWeek} per week.`,
+        ...(oldestOpenTasks.length > 0 ? [`Oldest open task: ${oldestOpenTasks[0].number} (${oldestOpenTasks[0].ageDays} days old).`] : []),
+        ...(inProgressTasks.length > 0 && inProgressTasks[0].daysSinceUpdate !== null
+          ? [`Longest-running in-progress task: ${inProgressTasks[0].number} (no update for ${inProgressTasks[0].daysSinceUpdate} days).`]
+          : [])
+      ].join(' ');
+
+      return {
+        slug,
+        name: board.project?.name || board.name || '',
+        completionPercent,
+        totals: {
+          total: tasks.length,
+          done: doneTasks.length,
+          inProgress: inProgress.length,
+          open: openTasks.length
+        },
+        statusCounts,
+        throughput,
+        oldestOpenTasks,
+        inProgressTasks,
+        generatedAt: new Date(now).toISOString(),
+        summary
+      };
+    } catch (error) {
+      let errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
+      logger.error(`Error in project-progress tool: ${errorMessage}`, error instanceof Error ? error : undefined);
+
+      if (error instanceof Error && (error as any).status === 404) {
+        errorMessage = `Project with slug '${input.slug}' not found.`;
+      }
+
+      return {
+        isError: true,
+        content: [{ type: "text", text: errorMessage }]
+      };
+    }
+  }
+
+  /**
+   * Count done tasks per UTC day and per ISO week (starting Monday) within the window,
+   * using each task's last update time as its completion time
+   */
+  private computeThroughput(doneTasks: BoardTaskWithColumn[], days: number, now: number) {
+    const windowStart = now - days * DAY_MS;
+    const perDay = new Map<string, number>();
+    const perWeek = new Map<string, number>();
+
+    for (const task of doneTasks) {
+      const doneAt = Date.parse(task.updated_at);
+      if (isNaN(doneAt) || doneAt < windowStart || doneAt > now) {
+        continue;
+      }
+
+      const date = new Date(doneAt);
+      const dayKey = date.toISOString().slice(0, 10);
+      const weekStart = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - ((date.getUTCDay() + 6) % 7)));
+      const weekKey = weekStart.toISOString().slice(0, 10);
+
+      perDay.set(dayKey, (perDay.get(dayKey) || 0) + 1);
+      perWeek.set(weekKey, (perWeek.get(weekKey) || 0) + 1);
+    }
+
+    const doneInWindow = [...perDay.values()].reduce((sum, count) => sum + count, 0);
+
+    return {
+      windowDays: days,
+      doneInWindow,
+      averagePerWeek: Math.round((doneInWindow / days) * 7 * 10) / 10,
+      perDay: [...perDay.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([date, count]) => ({ date, count })),
+      perWeek: [...perWeek.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([weekStart, count]) => ({ weekStart, count }))
+    };
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Restore Project Version Tool
+ *
+ * Restores a stored version of a project's knowledge and/or diagram through update_project
+ */
+import { z } from 'zod';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
+import { SecureApiClient } from '../utils/secure-api-client.js';
+import { ProjectHistoryStore } from '../utils/project-history.js';
+import { UpdateProjectOutputSchema, UpdateProjectTool } from './update-project.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Schema for the restore-project-version tool input
+ */
+const RestoreProjectVersionSchema = z.object({
+  // Project slug (URL-friendly identifier)
+  slug: z.string({
+    required_error: "Project slug is required"
+  })
+    .regex(/^[A-Za-z]{3}$/, { message: "Project slug must be three letters (e.g., CRD or crd). Case insensitive." }),
+
+  // Version to restore
+  version: z.number({
+    required_error: "Version is required"
+  })
+    .int("Version must be an integer")
+    .min(1, "Version must be at least 1"),
+
+  // Parts of the project to restore
+  scope: z.enum(['all', 'knowledge', 'diagram']).optional().describe("What to restore (default all)"),
+}).strict();
+
+/**
+ * Type for the restore-project-version tool input
+ */
+type RestoreProjectVersionInput = z.infer<typeof RestoreProjectVersionSchema>;
+
+/**
+ * Schema for the restore-project-version tool output
+ */
+const RestoreProjectVersionOutputSchema = UpdateProjectOutputSchema.extend({
+  restoredVersion: z.number().int(),
+  restoredFrom: z.string().describe('When the restored version was taken (ISO 8601)'),
+  scope: z.enum(['all', 'knowledge', 'diagram'])
+});
+
+/**
+ * Type for the restore-project-version tool output
+ */
+type RestoreProjectVersionOutput = z.infer<typeof RestoreProjectVersionOutputSchema>;
+
+/**
+ * Restore Project Version Tool Implementation
+ */
+export class RestoreProjectVersionTool extends BaseTool<typeof RestoreProjectVersionSchema> {
+  readonly name = 'restore_project_version';
+  readonly description = "Restores a saved version of a project's knowledge, diagram, or both. The restore runs through update_project, so the state being replaced is saved as a new version first and the restore can itself be undone. Use this when an update removed or damaged knowledge or diagram content and the user wants the earlier version back.";
+  readonly zodSchema = RestoreProjectVersionSchema;
+  readonly outputSchema = RestoreProjectVersionOutputSchema;
+  readonly annotations: ToolAnnotations = {
+    title: "Restore Project Version",
+    readOnlyHint: false, // This tool modifies data
+    destructiveHint: false, // The replaced state is saved as a new version first
+    idempotentHint: true, // Restoring the same version twice has the same outcome
+    openWorldHint: true, // Interacts with an external API
+  };
+  readonly metadata = {
+    category: 'project' as const,
+    tags: ['project', 'history', 'versions', 'restore', 'write'],
+    usage: 'Use when an update removed or damaged knowledge or diagram content and the user wants the earlier version back',
+    priority: 'advanced' as const
+  };
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(apiClient?: SecureApiClient) {
+    super(apiClient);
+  }
+
+  /**
+   * Generate agent-specific instructions after a restore
+   */
+  generateAgentInstructions(input: RestoreProjectVersionInput, result: any): AgentInstructions {
+    if (result?.isError) {
+      return {
+        immediateActions: ['The restore did not happen - report the error to the user'],
+        nextRecommendedTools: ['list_project_versions'],
+        workflowPhase: 'context'
+      };
+    }
+
+    return {
+      immediateActions: [
+        `Project restored to version ${input.version}`,
+        ...(result?.snapshotVersion !== undefined
+          ? [`The replaced state was saved as version ${result.snapshotVersion} and can be restored if needed`]
+          : [])
+      ],
+      nextRecommendedTools: ['get_project', 'diff_project_versions'],
+      workflowPhase: 'completion',
+      criticalReminders: [
+        'Tell the user which version was restored'
+      ]
+    };
+  }
+
+  /**
+   * Returns the full tool definition conforming to MCP.
+   */
+  getMCPToolDefinition(): MCPToolDefinition {
+    return {
+      name: this.name,
+      description: this.description,
+      annotations: this.annotations,
+      metadata: this.metadata,
+      inputSchema: {
+        type: "object",
+        properties: {
+          slug: {
+            type: "string",
+            pattern: "^[A-Za-z]{3}$",
+            description: "The unique three-letter project identifier/code (e.g., 'CRD' for CodeRide). Case insensitive - will be converted to uppercase internally."
+          },
+          version: {
+            type: "integer",
+            minimum: 1,
+            description: "The version to restore, as listed by list_project_versions."
+          },
+          scope: {
+            type: "string",
+            enum: ["all", "knowledge", "diagram"],
+            description: "Optional. Restore only the knowledge, only the diagram, or both. Defaults to 'all'."
+          }
+        },
+        required: ["slug", "version"],
+        additionalProperties: false
+      },
+      outputSchema: this.getOutputJsonSchema()
+    };
+  }
+
+  /**
+   * Version history of the account behind the API client
+   */
+  private getHistoryStore(): ProjectHistoryStore {
+    if (!this.apiClient) {
+      throw new Error('API client not available - tool not properly initialized');
+    }
+    return new ProjectHistoryStore(this.apiClient.getAccountId());
+  }
+
+  /**
+   * Execute the restore-project-version tool
+   */
+  async execute(input: RestoreProjectVersionInput): Promise<RestoreProjectVersionOutput | ToolErrorResult> {
+    logger.info('Executing restore-project-version tool', input);
+
+    try {
+      // Use the injected API client to update the project
+      if (!this.apiClient) {
+        throw new Error('API client not available - tool not properly initialized');
+      }
+
+      const slug = input.slug.toUpperCase();
+      const scope = input.scope || 'all';
+
+      const snapshot = await this.getHistoryStore().get(slug, input.version);
+      if (!snapshot) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Version ${input.version} of project ${slug} not found. Use list_project_versions to see the stored versions.` }]
+        };
+      }
+
+      // Go through update_project so its validation applies and the current state is saved first
+      const updateTool = new UpdateProjectTool(this.apiClient);
+      const updateInput = await updateTool.validateInput({
+        slug,
+        ...(scope !== 'diagram' && { project_knowledge: snapshot.projectKnowledge || {} }),
+        ...(scope !== 'knowledge' && { project_diagram: snapshot.projectDiagram || '' })
+      });
+      const updateResult = await updateTool.execute(updateInput);
+
+      if ('isError' in updateResult) {
+        return updateResult;
+      }
+
+      return {
+        ...updateResult,
+        restoredVersion: snapshot.version,
+        restoredFrom: snapshot.takenAt,
+        scope
+      };
+    } catch (error) {
+      let errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
+      logger.error(`Error in restore-project-version tool: ${errorMessage}`, error instanceof Error ? error : undefined);
+
+      if (error instanceof Error && (error as any).status === 404) {
+        errorMessage = `Project with slug '${input.slug}' not found.`;
+      }
+
+      return {
+        isError: true,
+        content: [{ type: "text", text: errorMessage }]
+      };
+    }
+  }
+}
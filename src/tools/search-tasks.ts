@@ -0,0 +1,381 @@
+/**
+ * Search Tasks Tool
+ *
+ * Searches tasks across all projects in the workspace using the CodeRide API,
+ * falling back to client-side search over project boards
+ */
+import { z } from 'zod';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
+import { SecureApiClient, ProjectListApiResponse, TaskSearchApiResponse } from '../utils/secure-api-client.js';
+import { InputValidator } from '../utils/input-validator.js';
+import { fetchTaskBoard, flattenBoardTasks, matchesTaskStatus } from '../utils/task-board.js';
+import { scoreTaskMatch, buildMatchSnippet } from '../utils/task-search.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * HTTP statuses meaning the search endpoint does not exist on this API, so client-side search is used
+ */
+const SEARCH_UNAVAILABLE_STATUSES = [404, 405];
+
+/**
+ * Maximum number of project boards fetched in parallel during fallback search
+ */
+const BOARD_FETCH_CONCURRENCY = 4;
+
+/**
+ * Schema for the search-tasks tool input
+ */
+const SearchTasksSchema = z.object({
+  // Free-text query matched against task number, title and description
+  query: z.string()
+    .max(200, "Query cannot exceed 200 characters")
+    .optional()
+    .describe("Free-text search query"),
+
+  // Optional filters
+  status: z.enum(['to-do', 'in-progress', 'done'], {
+    invalid_type_error: "Status must be one of: to-do, in-progress, done"
+  }).optional().describe("Only return tasks with this status"),
+  priority: z.enum(['low', 'medium', 'high'], {
+    invalid_type_error: "Priority must be one of: low, medium, high"
+  }).optional().describe("Only return tasks with this priority"),
+  projects: z.array(
+    z.string().regex(/^[A-Za-z]{3}$/, { message: "Project slug must be three letters (e.g., CRD or crd). Case insensitive." })
+  ).max(50, "Too many projects").optional().describe("Only search these project slugs"),
+  updated_since: z.string()
+    .refine(value => !isNaN(Date.parse(value)), { message: "updated_since must be an ISO 8601 date (e.g., 2025-01-31)" })
+    .optional()
+    .describe("Only return tasks updated on or after this date"),
+  limit: z.number()
+    .int("Limit must be an integer")
+    .min(1, "Limit must be at least 1")
+    .max(100, "Limit cannot exceed 100")
+    .optional()
+    .describe("Maximum number of results (default 20)"),
+}).strict().refine(
+  // Ensure the search is not completely unbounded
+  (data) => ['query', 'status', 'priority', 'projects', 'updated_since'].some(field => field in data),
+  {
+    message: 'At least a query or one filter must be provided',
+    path: ['query']
+  }
+);
+
+/**
+ * Type for the search-tasks tool input
+ */
+type SearchTasksInput = z.infer<typeof SearchTasksSchema>;
+
+/**
+ * Schema for the search-tasks tool output
+ */
+const SearchTasksOutputSchema = z.object({
+  query: z.string(),
+  filters: z.object({
+    status: z.string().nullable(),
+    priority: z.string().nullable(),
+    projects: z.array(z.string()).nullable(),
+    updatedSince: z.string().nullable()
+  }).strict(),
+  // 'client' when the API search endpoint was unavailable and project boards were searched instead
+  searchMode: z.enum(['api', 'client']),
+  projectsSearched: z.array(z.string()),
+  totalMatches: z.number().int(),
+  results: z.array(z.object({
+    number: z.string(),
+    title: z.string(),
+    status: z.string(),
+    priority: z.string(),
+    projectSlug: z.string(),
+    updatedAt: z.string(),
+    score: z.number(),
+    snippet: z.string()
+  }).strict())
+}).strict();
+
+/**
+ * Type for the search-tasks tool output
+ */
+type SearchTasksOutput = z.infer<typeof SearchTasksOutputSchema>;
+
+/**
+ * Normalized search result entry
+ */
+type TaskSearchResult = SearchTasksOutput['results'][number];
+
+/**
+ * Search Tasks Tool Implementation
+ */
+export class SearchTasksTool extends BaseTool<typeof SearchTasksSchema> {
+  readonly name = 'search_tasks';
+  readonly description = "Searches tasks across all projects in the workspace by free text and filters (status, priority, project slugs, last update date), returning ranked matches. Use this when you need to find a task without knowing its number, check whether similar work already exists, or locate tasks by topic across projects.";
+  readonly zodSchema = SearchTasksSchema;
+  readonly outputSchema = SearchTasksOutputSchema;
+  readonly annotations: ToolAnnotations = {
+    title: "Search Tasks",
+    readOnlyHint: true,
+    openWorldHint: true, // Interacts with an external API
+  };
+  readonly metadata = {
+    category: 'task' as const,
+    tags: ['task', 'search', 'find', 'filter', 'read'],
+    usage: 'Use when you need to find a task without knowing its number, check whether similar work already exists, or locate tasks by topic across projects',
+    priority: 'primary' as const
+  };
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(apiClient?: SecureApiClient) {
+    super(apiClient);
+  }
+
+  /**
+   * Generate agent-specific instructions for search workflow
+   */
+  generateAgentInstructions(input: SearchTasksInput, result: any): AgentInstructions {
+    const hasResults = result && Array.isArray(result.results) && result.results.length > 0;
+
+    return {
+      immediateActions: hasResults
+        ? [
+            'Review the ranked matches and pick the relevant task',
+            'Check the project of the selected task before starting work'
+          ]
+        : [
+            'No matching tasks found',
+            'Broaden the query or remove filters',
+            'Consider creating a task if the work is not tracked yet'
+          ],
+      nextRecommendedTools: hasResults ? ['get_project', 'get_task'] : ['list_tasks', 'create_task'],
+      workflowPhase: 'discovery',
+      criticalReminders: [
+        'Establish project context with get_project before working on a found task'
+      ]
+    };
+  }
+
+  /**
+   * Returns the full tool definition conforming to MCP.
+   */
+  getMCPToolDefinition(): MCPToolDefinition {
+    return {
+      name: this.name,
+      description: this.description,
+      annotations: this.annotations,
+      metadata: this.metadata,
+      inputSchema: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "Optional. Free-text query matched against task numbers, titles and descriptions (e.g., 'login timeout', 'CRD-12'). Results are ranked by relevance, with title matches scoring higher than description matches. Maximum 200 characters."
+          },
+          status: {
+            type: "string",
+            enum: ["to-do", "in-progress", "done"],
+            description: "Optional. Only return tasks with this status."
+          },
+          priority: {
+            type: "string",
+            enum: ["low", "medium", "high"],
+            description: "Optional. Only return tasks with this priority."
+          },
+          projects: {
+            type: "array",
+            items: { type: "string", pattern: "^[A-Za-z]{3}$" },
+            description: "Optional. Restrict the search to these three-letter project slugs (e.g., ['CRD', 'API']). Defaults to every project returned by list_projects."
+          },
+          updated_since: {
+            type: "string",
+            description: "Optional. ISO 8601 date or timestamp (e.g., '2025-01-31'). Only return tasks updated on or after this moment."
+          },
+          limit: {
+            type: "integer",
+            minimum: 1,
+            maximum: 100,
+            description: "Optional. Maximum number of results to return. Defaults to 20."
+          }
+        },
+        required: [], // Zod .refine() requires a query or at least one filter at runtime.
+        additionalProperties: false
+      },
+      outputSchema: this.getOutputJsonSchema()
+    };
+  }
+
+  /**
+   * Execute the search-tasks tool
+   */
+  async execute(input: SearchTasksInput): Promise<SearchTasksOutput | ToolErrorResult> {
+    logger.info('Executing search-tasks tool', input);
+
+    try {
+      // Use the injected API client to search tasks
+      if (!this.apiClient) {
+        throw new Error('API client not available - tool not properly initialized');
+      }
+
+      const limit = input.limit || 20;
+      const projects = input.projects?.map(slug => InputValidator.validateProjectSlug(slug));
+
+      let searchMode: 'api' | 'client' = 'api';
+      let projectsSearched: string[] = projects || [];
+      let matches = await this.searchViaApi(input, projects);
+
+      if (!matches) {
+        searchMode = 'client';
+        const fallback = await this.searchClientSide(input, projects);
+        matches = fallback.matches;
+        projectsSearched = fallback.projectsSearched;
+      }
+
+      const ranked = matches
+        .filter(task => this.matchesFilters(task, input, projects))
+        .sort((a, b) => b.score - a.score || b.updatedAt.localeCompare(a.updatedAt));
+
+      return {
+        query: input.query || '',
+        filters: {
+          status: input.status || null,
+          priority: input.priority || null,
+          projects: projects || null,
+          updatedSince: input.updated_since || null
+        },
+        searchMode,
+        projectsSearched,
+        totalMatches: ranked.length,
+        results: ranked.slice(0, limit)
+      };
+    } catch (error) {
+      const errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
+      logger.error(`Error in search-tasks tool: ${errorMessage}`, error instanceof Error ? error : undefined);
+
+      return {
+        isError: true,
+        content: [{ type: "text", text: errorMessage }]
+      };
+    }
+  }
+
+  /**
+   * Search using the API search endpoint.
+   * Returns null when the endpoint is unavailable (404/405) so the caller can fall back;
+   * any other API error is rethrown and reported to the caller.
+   */
+  private async searchViaApi(input: SearchTasksInput, projects?: string[]): Promise<TaskSearchResult[] | null> {
+    try {
+      const url = `/task/search`;
+      logger.debug(`Making POST request to: ${url}`);
+
+      const responseData = await this.apiClient!.post<TaskSearchApiResponse>(url, {
+        query: input.query || '',
+        status: input.status,
+        priority: input.priority,
+        projects,
+        updated_since: input.updated_since
+      }) as unknown as TaskSearchApiResponse;
+
+      if (!responseData || !Array.isArray(responseData.results)) {
+        logger.warn(`Search endpoint returned no results array, falling back to client-side search`);
+        return null;
+      }
+
+      return responseData.results.map(task => ({
+        number: task.number,
+        title: task.title || '',
+        status: task.status || '',
+        priority: task.priority || '',
+        projectSlug: task.project_slug || task.number?.split('-')[0] || '',
+        updatedAt: task.updated_at || '',
+        score: task.score ?? (input.query ? scoreTaskMatch(task, input.query) : 0),
+        snippet: input.query ? buildMatchSnippet(task.description, input.query) : ''
+      }));
+    } catch (error) {
+      const status = (error as { status?: number }).status;
+      if (status === undefined || !SEARCH_UNAVAILABLE_STATUSES.includes(status)) {
+        throw error;
+      }
+      logger.warn(`Search endpoint unavailable (HTTP ${status}), falling back to client-side search`);
+      return null;
+    }
+  }
+
+  /**
+   * Search by fetching project boards and matching tasks locally
+   */
+  private async searchClientSide(input: SearchTasksInput, projects?: string[]): Promise<{ matches: TaskSearchResult[]; projectsSearched: string[] }> {
+    let slugs = projects;
+
+    if (!slugs) {
+      const url = `/project/list`;
+      logger.debug(`Making GET request to: ${url}`);
+
+      const projectList = await this.apiClient!.get<ProjectListApiResponse[]>(url) as unknown as ProjectListApiResponse[];
+      slugs = Array.isArray(projectList) ? projectList.map(project => project.slug.toUpperCase()) : [];
+    }
+
+    const boards = await mapWithConcurrency(slugs, BOARD_FETCH_CONCURRENCY, async slug => {
+      try {
+        return { slug, board: await fetchTaskBoard(this.apiClient!, slug) };
+      } catch (error) {
+        logger.warn(`Skipping project ${slug} in search: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return { slug, board: null };
+      }
+    });
+
+    const matches: TaskSearchResult[] = [];
+    for (const { slug, board } of boards) {
+      if (!board) {
+        continue;
+      }
+
+      for (const task of flattenBoardTasks(board)) {
+        const score = input.query ? scoreTaskMatch(task, input.query) : 0;
+        if (input.query && score === 0) {
+          continue;
+        }
+
+        matches.push({
+          number: task.number,
+          title: task.title || '',
+          status: task.status || task.columnId || '',
+          priority: task.priority || '',
+          projectSlug: slug,
+          updatedAt: task.updated_at || '',
+          score,
+          snippet: input.query ? buildMatchSnippet(task.description, input.query) : ''
+        });
+      }
+    }
+
+    return {
+      matches,
+      projectsSearched: boards.filter(entry => entry.board).map(entry => entry.slug)
+    };
+  }
+
+  /**
+   * Apply the structured filters to a search result
+   * Applied to API results as well, in case the endpoint ignores some filters
+   */
+  private matchesFilters(task: TaskSearchResult, input: SearchTasksInput, projects?: string[]): boolean {
+    if (input.status && !matchesTaskStatus(task.status, input.status)) {
+      return false;
+    }
+    if (input.priority && task.priority?.toLowerCase() !== input.priority) {
+      return false;
+    }
+    if (projects && !projects.includes(task.projectSlug.toUpperCase())) {
+      return false;
+    }
+    if (input.updated_since) {
+      const updatedAt = Date.parse(task.updatedAt);
+      if (isNaN(updatedAt) || updatedAt < Date.parse(input.updated_since)) {
+        return false;
+      }
+    }
+    return true;
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Set Task Dependencies Tool
+ *
+ * Declares which tasks block a task using the CodeRide API
+ */
+import { z } from 'zod';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
+import { SecureApiClient, UpdateTaskDependenciesApiResponse } from '../utils/secure-api-client.js';
+import { InputValidator } from '../utils/input-validator.js';
+import { fetchTaskBoard, flattenBoardTasks } from '../utils/task-board.js';
+import { findDependencyCycle, getUnresolvedBlockers, indexBoardTasks, normalizeBlockedBy, resolveBlockers } from '../utils/task-dependencies.js';
+import { logger } from '../utils/logger.js';
+import { BlockerInfoSchema } from '../utils/output-schemas.js';
+
+/**
+ * Schema for the set-task-dependencies tool input
+ */
+const SetTaskDependenciesSchema = z.object({
+  // Task whose blockers are being declared
+  number: z.string({
+    required_error: "Task number is required"
+  }).regex(/^[A-Za-z]{3}-\d+$/, { message: "Task number must be in the format ABC-123 (e.g., CRD-1 or crd-1). Case insensitive." }),
+
+  // Complete list of blocking tasks (replaces the existing list)
+  blocked_by: z.array(
+    z.string().regex(/^[A-Za-z]{3}-\d+$/, { message: "Blocking task numbers must be in the format ABC-123 (e.g., CRD-1). Case insensitive." })
+  ).max(20, "A task cannot have more than 20 blockers")
+    .describe("Task numbers that must be done before this task can start"),
+}).strict();
+
+/**
+ * Type for the set-task-dependencies tool input
+ */
+type SetTaskDependenciesInput = z.infer<typeof SetTaskDependenciesSchema>;
+
+/**
+ * Schema for the set-task-dependencies tool output
+ */
+const SetTaskDependenciesOutputSchema = z.object({
+  number: z.string(),
+  blockedBy: z.array(z.string()),
+  // Blockers that are not done yet
+  unresolvedBlockers: z.array(BlockerInfoSchema),
+  dependencyConfirmation: z.string()
+}).strict();
+
+/**
+ * Type for the set-task-dependencies tool output
+ */
+type SetTaskDependenciesOutput = z.infer<typeof SetTaskDependenciesOutputSchema>;
+
+/**
+ * Set Task Dependencies Tool Implementation
+ */
+export class SetTaskDependenciesTool extends BaseTool<typeof SetTaskDependenciesSchema> {
+  readonly name = 'set_task_dependencies';
+  readonly description = "Sets the list of tasks that block a given task (e.g., CRD-5 is blocked by CRD-2 and CRD-3), replacing any previous blockers and rejecting circular dependencies. Use this when tasks must be done in a specific order that differs from their numbering, so next_task can skip work that cannot start yet.";
+  readonly zodSchema = SetTaskDependenciesSchema;
+  readonly outputSchema = SetTaskDependenciesOutputSchema;
+  readonly annotations: ToolAnnotations = {
+    title: "Set Task Dependencies",
+    readOnlyHint: false, // This tool modifies data
+    destructiveHint: false, // Replaces only the dependency list
+    idempotentHint: true, // Setting the same list twice has the same outcome
+    openWorldHint: true, // Interacts with an external API
+  };
+  readonly metadata = {
+    category: 'task' as const,
+    tags: ['task', 'dependencies', 'blockers', 'sequence', 'write'],
+    usage: 'Use when tasks must be done in a specific order that differs from their numbering, so next_task can skip work that cannot start yet',
+    priority: 'advanced' as const
+  };
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(apiClient?: SecureApiClient) {
+    super(apiClient);
+  }
+
+  /**
+   * Generate agent-specific instructions for dependency management
+   */
+  generateAgentInstructions(input: SetTaskDependenciesInput, result: any): AgentInstructions {
+    const unresolved = Array.isArray(result?.unresolvedBlockers) ? result.unresolvedBlockers.length : 0;
+
+    return {
+      immediateActions: unresolved > 0
+        ? [
+            `Task is blocked by ${unresolved} unfinished task(s)`,
+            'Work on the blocking tasks first'
+          ]
+        : ['Dependencies recorded - task has no unfinished blockers'],
+      nextRecommendedTools: ['next_task'],
+      workflowPhase: 'analysis',
+      automationHints: {
+        dependencyAwareSelection: 'Call next_task with mode "unblocked" to pick the lowest-numbered task whose blockers are all done'
+      }
+    };
+  }
+
+  /**
+   * Returns the full tool definition conforming to MCP.
+   */
+  getMCPToolDefinition(): MCPToolDefinition {
+    return {
+      name: this.name,
+      description: this.description,
+      annotations: this.annotations,
+      metadata: this.metadata,
+      inputSchema: {
+        type: "object",
+        properties: {
+          number: {
+            type: "string",
+            pattern: "^[A-Za-z]{3}-\\d+$",
+            description: "The task number in format 'ABC-123' whose blockers are being set (e.g., 'CRD-5'). Case insensitive - will be converted to uppercase internally."
+          },
+          blocked_by: {
+            type: "array",
+            items: { type: "string", pattern: "^[A-Za-z]{3}-\\d+$" },
+            maxItems: 20,
+            description: "The complete list of task numbers that must be done before this task can start (e.g., ['CRD-2', 'CRD-3']). Replaces the existing list; pass an empty array to clear all blockers. Circular dependencies between tasks of the same project are rejected."
+          }
+        },
+        required: ["number", "blocked_by"],
+        additionalProperties: false
+      },
+      outputSchema: this.getOutputJsonSchema()
+    };
+  }
+
+  /**
+   * Execute the set-task-dependencies tool
+   */
+  async execute(input: SetTaskDependenciesInput): Promise<SetTaskDependenciesOutput | ToolErrorResult> {
+    logger.info('Executing set-task-dependencies tool', input);
+
+    try {
+      // Use the injected API client to update dependencies
+      if (!this.apiClient) {
+        throw new Error('API client not available - tool not properly initialized');
+      }
+
+      const taskNumber = input.number.toUpperCase();
+      const blockedBy = normalizeBlockedBy(
+        taskNumber,
+        input.blocked_by.map(number => InputValidator.validateTaskNumber(number))
+      );
+
+      // Reject dependency cycles within the task's project
+      const board = await fetchTaskBoard(this.apiClient, taskNumber.split('-')[0]);
+      const boardTasks = board ? flattenBoardTasks(board) : [];
+      const cycle = findDependencyCycle(taskNumber, blockedBy, boardTasks);
+
+      if (cycle) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Circular dependency detected: ${cycle.join(' → ')}. Remove one of these relationships first.` }]
+        };
+      }
+
+      const url = `/task/number/${taskNumber}/dependencies`;
+      logger.debug(`Making PUT request to: ${url}`);
+
+      const responseData = await this.apiClient.put<UpdateTaskDependenciesApiResponse>(url, { blockedBy }) as unknown as UpdateTaskDependenciesApiResponse;
+
+      if (!responseData || responseData.success === false || responseData.error) {
+        const apiErrorMessage = responseData?.error || responseData?.message || 'API reported dependency update failure without a specific message.';
+        logger.warn(`Set dependencies API call for ${taskNumber} failed. Message: ${apiErrorMessage}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Setting dependencies for task ${taskNumber} failed: ${apiErrorMessage}` }]
+        };
+      }
+
+      const blockers = await resolveBlockers(this.apiClient, blockedBy, indexBoardTasks(boardTasks));
+
+      return {
+        number: taskNumber,
+        blockedBy,
+        unresolvedBlockers: getUnresolvedBlockers(blockedBy, blockers),
+        dependencyConfirmation: `Task ${taskNumber} blocked by: ${blockedBy.join(', ') || 'none'}. API: ${responseData.message || 'Dependencies successfully updated.'}`
+      };
+    } catch (error) {
+      let errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
+      logger.error(`Error in set-task-dependencies tool: ${errorMessage}`, error instanceof Error ? error : undefined);
+
+      if (error instanceof Error && (error as any).status === 404) {
+        errorMessage = `Task with number '${input.number}' not found.`;
+      }
+
+      return {
+        isError: true,
+        content: [{ type: "text", text: errorMessage }]
+      };
+    }
+  }
+}
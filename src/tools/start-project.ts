@@ -4,7 +4,7 @@
  * Retrieves task prompt from the first task of a project
  */
 import { z } from 'zod';
-import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions } from '../utils/base-tool.js';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
 import { SecureApiClient, StartProjectApiResponse } from '../utils/secure-api-client.js';
 import { logger } from '../utils/logger.js';
 
@@ -27,6 +27,31 @@ const StartProjectSchema = z.object({
  */
 type StartProjectInput = z.infer<typeof StartProjectSchema>;
 
+/**
+ * Schema for the start-project tool output
+ */
+const StartProjectOutputSchema = z.object({
+  project: z.object({
+    slug: z.string(),
+    name: z.string()
+  }).strict(),
+  task: z.object({
+    number: z.string(),
+    title: z.string(),
+    prompt: z.string().describe("The task's implementation prompt (named taskPrompt in get_prompt)")
+  }).strict(),
+  gitSetup: z.object({
+    status: z.enum(['existing', 'initialized', 'failed', 'error']),
+    message: z.string(),
+    actions: z.array(z.string())
+  }).strict()
+}).strict();
+
+/**
+ * Type for the start-project tool output
+ */
+type StartProjectOutput = z.infer<typeof StartProjectOutputSchema>;
+
 /**
  * Start Project Tool Implementation
  */
@@ -34,6 +59,7 @@ export class StartProjectTool extends BaseTool<typeof StartProjectSchema> {
   readonly name = 'start_project';
   readonly description = "Retrieves the project details and the prompt for the very first task of a specified project using the project's unique slug (e.g., 'CRD'). Use this when beginning work on a new project to get both the project context and the initial task in a single call, streamlining the workflow startup.";
   readonly zodSchema = StartProjectSchema; // Renamed from schema
+  readonly outputSchema = StartProjectOutputSchema;
   readonly annotations: ToolAnnotations = {
     title: "Start Project",
     readOnlyHint: true,
@@ -73,7 +99,8 @@ export class StartProjectTool extends BaseTool<typeof StartProjectSchema> {
         },
         required: ["slug"],
         additionalProperties: false
-      }
+      },
+      outputSchema: this.getOutputJsonSchema()
     };
   }
 
@@ -107,7 +134,7 @@ export class StartProjectTool extends BaseTool<typeof StartProjectSchema> {
   /**
    * Execute the start-project tool
    */
-  async execute(input: StartProjectInput): Promise<unknown> {
+  async execute(input: StartProjectInput): Promise<StartProjectOutput | ToolErrorResult> {
     logger.info('Executing start-project tool', input);
 
     try {
@@ -162,7 +189,7 @@ export class StartProjectTool extends BaseTool<typeof StartProjectSchema> {
   /**
    * Set up git repository for the project
    */
-  private async setupGitRepository(projectData: any): Promise<{ status: string; message: string; actions: string[] }> {
+  private async setupGitRepository(projectData: any): Promise<StartProjectOutput['gitSetup']> {
     try {
       const projectSlug = projectData?.slug;
       const projectName = projectData?.name || projectSlug;
@@ -0,0 +1,185 @@
+/**
+ * Tick Checklist Item Tool
+ *
+ * Checks or unchecks a single checklist item of a task using the CodeRide API
+ */
+import { z } from 'zod';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
+import { SecureApiClient, UpdateChecklistItemApiResponse } from '../utils/secure-api-client.js';
+import { fetchTaskChecklist, formatChecklistItem, summarizeChecklist } from '../utils/task-checklist.js';
+import { logger } from '../utils/logger.js';
+import { ChecklistItemSchema, ChecklistSummarySchema } from '../utils/output-schemas.js';
+
+/**
+ * Schema for the tick-checklist-item tool input
+ */
+const TickChecklistItemSchema = z.object({
+  // Task number (e.g., "CRD-1")
+  number: z.string({
+    required_error: "Task number is required"
+  }).regex(/^[A-Za-z]{3}-\d+$/, { message: "Task number must be in the format ABC-123 (e.g., CRD-1 or crd-1). Case insensitive." }),
+
+  // Checklist item identifier as returned by list_checklist
+  item_id: z.string({
+    required_error: "Checklist item id is required"
+  }).regex(/^[\w-]{1,64}$/, { message: "Checklist item id must be the id returned by list_checklist" }),
+
+  // New checked state
+  checked: z.boolean().optional().describe("Whether the item is done (default true)"),
+}).strict();
+
+/**
+ * Type for the tick-checklist-item tool input
+ */
+type TickChecklistItemInput = z.infer<typeof TickChecklistItemSchema>;
+
+/**
+ * Schema for the tick-checklist-item tool output
+ */
+const TickChecklistItemOutputSchema = z.object({
+  number: z.string(),
+  // Only id and checked are known when the item is missing from the API response
+  item: ChecklistItemSchema.partial({ text: true, position: true }),
+  checklist: ChecklistSummarySchema,
+  remainingItems: z.array(z.string())
+}).strict();
+
+/**
+ * Type for the tick-checklist-item tool output
+ */
+type TickChecklistItemOutput = z.infer<typeof TickChecklistItemOutputSchema>;
+
+/**
+ * Tick Checklist Item Tool Implementation
+ */
+export class TickChecklistItemTool extends BaseTool<typeof TickChecklistItemSchema> {
+  readonly name = 'tick_checklist_item';
+  readonly description = "Marks a single checklist item of a task as done (or not done again) and returns the task's updated checklist completion. Use this as soon as you finish a step of a task that was broken down with add_checklist_items.";
+  readonly zodSchema = TickChecklistItemSchema;
+  readonly outputSchema = TickChecklistItemOutputSchema;
+  readonly annotations: ToolAnnotations = {
+    title: "Tick Checklist Item",
+    readOnlyHint: false, // This tool modifies data
+    destructiveHint: false, // Only the checked state changes
+    idempotentHint: true, // Setting the same state twice has the same outcome
+    openWorldHint: true, // Interacts with an external API
+  };
+  readonly metadata = {
+    category: 'task' as const,
+    tags: ['task', 'checklist', 'subtask', 'progress', 'write'],
+    usage: 'Use as soon as you finish a step of a task that was broken down with add_checklist_items',
+    priority: 'advanced' as const
+  };
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(apiClient?: SecureApiClient) {
+    super(apiClient);
+  }
+
+  /**
+   * Generate agent-specific instructions for checklist progress
+   */
+  generateAgentInstructions(input: TickChecklistItemInput, result: any): AgentInstructions {
+    const summary = result?.checklist;
+    const allDone = summary && summary.total > 0 && summary.checked === summary.total;
+
+    return {
+      immediateActions: allDone
+        ? ['All checklist items are done', 'Verify the work and mark the task as done']
+        : ['Checklist item updated', 'Continue with the next unchecked item'],
+      nextRecommendedTools: allDone ? ['update_task'] : ['list_checklist'],
+      workflowPhase: allDone ? 'completion' : 'implementation'
+    };
+  }
+
+  /**
+   * Returns the full tool definition conforming to MCP.
+   */
+  getMCPToolDefinition(): MCPToolDefinition {
+    return {
+      name: this.name,
+      description: this.description,
+      annotations: this.annotations,
+      metadata: this.metadata,
+      inputSchema: {
+        type: "object",
+        properties: {
+          number: {
+            type: "string",
+            pattern: "^[A-Za-z]{3}-\\d+$",
+            description: "The unique task number identifier in format 'ABC-123' where ABC is the three-letter project code and 123 is the task sequence number (e.g., 'CRD-1', 'CDB-42'). Case insensitive - will be converted to uppercase internally."
+          },
+          item_id: {
+            type: "string",
+            pattern: "^[\\w-]{1,64}$",
+            description: "The id of the checklist item, as returned by list_checklist or add_checklist_items."
+          },
+          checked: {
+            type: "boolean",
+            description: "Optional. true (default) marks the item as done; false marks it as not done again."
+          }
+        },
+        required: ["number", "item_id"],
+        additionalProperties: false
+      },
+      outputSchema: this.getOutputJsonSchema()
+    };
+  }
+
+  /**
+   * Execute the tick-checklist-item tool
+   */
+  async execute(input: TickChecklistItemInput): Promise<TickChecklistItemOutput | ToolErrorResult> {
+    logger.info('Executing tick-checklist-item tool', input);
+
+    try {
+      // Use the injected API client to update the item
+      if (!this.apiClient) {
+        throw new Error('API client not available - tool not properly initialized');
+      }
+
+      const taskNumber = input.number.toUpperCase();
+      const checked = input.checked ?? true;
+
+      const url = `/task/number/${taskNumber}/checklist/${input.item_id}`;
+      logger.debug(`Making PUT request to: ${url}`);
+
+      const responseData = await this.apiClient.put<UpdateChecklistItemApiResponse>(url, { checked }) as unknown as UpdateChecklistItemApiResponse;
+
+      if (!responseData || responseData.success === false || responseData.error) {
+        const apiErrorMessage = responseData?.error || responseData?.message || 'API reported checklist failure without a specific message.';
+        logger.warn(`Tick checklist item API call for ${taskNumber} failed. Message: ${apiErrorMessage}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Updating checklist item ${input.item_id} of task ${taskNumber} failed: ${apiErrorMessage}` }]
+        };
+      }
+
+      const checklist = await fetchTaskChecklist(this.apiClient, taskNumber);
+      const item = responseData.item
+        ? formatChecklistItem(responseData.item)
+        : checklist.find(entry => entry.id === input.item_id);
+
+      return {
+        number: taskNumber,
+        item: item || { id: input.item_id, checked },
+        checklist: summarizeChecklist(checklist),
+        remainingItems: checklist.filter(entry => !entry.checked).map(entry => entry.text)
+      };
+    } catch (error) {
+      let errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
+      logger.error(`Error in tick-checklist-item tool: ${errorMessage}`, error instanceof Error ? error : undefined);
+
+      if (error instanceof Error && (error as any).status === 404) {
+        errorMessage = `Task '${input.number}' or checklist item '${input.item_id}' not found.`;
+      }
+
+      return {
+        isError: true,
+        content: [{ type: "text", text: errorMessage }]
+      };
+    }
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * Update Project Standards Tool
+ *
+ * Updates the coding standards of a project using the CodeRide API
+ */
+import { z } from 'zod';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
+import { SecureApiClient, ProjectApiResponse, UpdateProjectApiResponse } from '../utils/secure-api-client.js';
+import { InputValidator } from '../utils/input-validator.js';
+import { ProjectStandardsSchema, getChangedStandardsSections } from '../utils/project-standards.js';
+import { logger } from '../utils/logger.js';
+import { ProjectStandardsOutputSchema } from '../utils/output-schemas.js';
+
+/**
+ * Schema for the update-project-standards tool input
+ */
+const UpdateProjectStandardsSchema = z.object({
+  // Required field to identify the project
+  slug: z.string({
+    required_error: "Project slug is required to identify the project"
+  })
+  .regex(/^[A-Za-z]{3}$/, { message: "Project slug must be three letters (e.g., CRD or crd). Case insensitive." })
+  .describe("Project slug to identify the project to update (case insensitive)"),
+
+  // Standards sections to write
+  standards: ProjectStandardsSchema
+    .refine(value => Object.keys(value).length > 0, { message: "At least one standards section must be provided" })
+    .describe("Standards sections to set"),
+
+  // Replace the whole standards object instead of merging sections
+  replace: z.boolean().optional().describe("Replace all standards instead of only the given sections"),
+}).strict();
+
+/**
+ * Type for the update-project-standards tool input
+ */
+type UpdateProjectStandardsInput = z.infer<typeof UpdateProjectStandardsSchema>;
+
+/**
+ * Schema for the update-project-standards tool output
+ */
+const UpdateProjectStandardsOutputSchema = z.object({
+  slug: z.string(),
+  projectStandards: ProjectStandardsOutputSchema,
+  changedSections: z.array(z.string()),
+  updateConfirmation: z.string()
+}).strict();
+
+/**
+ * Type for the update-project-standards tool output
+ */
+type UpdateProjectStandardsOutput = z.infer<typeof UpdateProjectStandardsOutputSchema>;
+
+/**
+ * Update Project Standards Tool Implementation
+ */
+export class UpdateProjectStandardsTool extends BaseTool<typeof UpdateProjectStandardsSchema> {
+  readonly name = 'update_project_standards';
+  readonly description = "Updates a project's coding standards with a structured object (languages, lint_rules, naming_conventions, testing_requirements, commit_conventions, notes). By default only the given sections are replaced and the others are kept. Use this when the team agrees on a new convention, a tool or language version changes, or testing and commit rules need to evolve.";
+  readonly zodSchema = UpdateProjectStandardsSchema;
+  readonly outputSchema = UpdateProjectStandardsOutputSchema;
+  readonly annotations: ToolAnnotations = {
+    title: "Update Project Standards",
+    readOnlyHint: false, // This tool modifies data
+    destructiveHint: false, // Only the given sections change unless replace is set
+    idempotentHint: true, // Writing the same sections twice has the same outcome
+    openWorldHint: true, // Interacts with an external API
+  };
+  readonly metadata = {
+    category: 'project' as const,
+    tags: ['project', 'standards', 'conventions', 'lint', 'write'],
+    usage: 'Use when the team agrees on a new convention, a tool or language version changes, or testing and commit rules need to evolve',
+    priority: 'advanced' as const
+  };
+
+  /**
+   * Constructor with dependency injection
+   */
+  constructor(apiClient?: SecureApiClient) {
+    super(apiClient);
+  }
+
+  /**
+   * Generate agent-specific instructions after a standards change
+   */
+  generateAgentInstructions(input: UpdateProjectStandardsInput, result: any): AgentInstructions {
+    const changed = Array.isArray(result?.changedSections) ? result.changedSections : [];
+
+    return {
+      immediateActions: changed.length > 0
+        ? [
+            `Project standards updated: ${changed.join(', ')}`,
+            'Check whether in-progress work still follows the updated standards'
+          ]
+        : ['Project standards unchanged - the new values match the existing ones'],
+      nextRecommendedTools: ['get_project_standards'],
+      workflowPhase: 'context',
+      criticalReminders: [
+        'Mention the standards change to the user so the team is aware of it'
+      ]
+    };
+  }
+
+  /**
+   * Returns the full tool definition conforming to MCP.
+   */
+  getMCPToolDefinition(): MCPToolDefinition {
+    return {
+      name: this.name,
+      description: this.description,
+      annotations: this.annotations,
+      metadata: this.metadata,
+      inputSchema: {
+        type: "object",
+        properties: {
+          slug: {
+            type: "string",
+            pattern: "^[A-Za-z]{3}$",
+            description: "The unique three-letter project identifier/code (e.g., 'CRD' for CodeRide). Case insensitive - will be converted to uppercase internally."
+          },
+          standards: {
+            type: "object",
+            description: "The standards sections to set. Structure: { languages: [string | { name, version, notes }], lint_rules: [string | { rule, level: 'error'|'warn'|'off', description }], naming_conventions: { [subject]: convention }, testing_requirements: { framework, min_coverage (0-100), required_for: [], notes }, commit_conventions: { style, format, rules: [], examples: [] }, notes: string }. Each given section replaces that section entirely.",
+            properties: {
+              languages: { type: "array", maxItems: 20 },
+              lint_rules: { type: "array", maxItems: 100 },
+              naming_conventions: { type: "object" },
+              testing_requirements: { type: "object" },
+              commit_conventions: { type: "object" },
+              notes: { type: "string" }
+            },
+            additionalProperties: false
+          },
+          replace: {
+            type: "boolean",
+            description: "Optional. When true, the given standards replace the whole standards object and sections that are not given are removed. Defaults to false (merge by section)."
+          }
+        },
+        required: ["slug", "standards"],
+        additionalProperties: false
+      },
+      outputSchema: this.getOutputJsonSchema()
+    };
+  }
+
+  /**
+   * Execute the update-project-standards tool
+   */
+  async execute(input: UpdateProjectStandardsInput): Promise<UpdateProjectStandardsOutput | ToolErrorResult> {
+    logger.info('Executing update-project-standards tool', input);
+
+    try {
+      // Use the injected API client to update the project
+      if (!this.apiClient) {
+        throw new Error('API client not available - tool not properly initialized');
+      }
+
+      const slug = input.slug.toUpperCase();
+      const url = `/project/slug/${slug}`;
+      const standards = InputValidator.validateJsonInput(input.standards);
+
+      // Read the current standards to merge sections and report what changed
+      logger.debug(`Making GET request to: ${url}`);
+      const project = await this.apiClient.get<ProjectApiResponse>(url) as unknown as ProjectApiResponse;
+      const currentStandards = project?.projectStandards || {};
+      const projectStandards = input.replace ? standards : { ...currentStandards, ...standards };
+
+      logger.debug(`Making PUT request to: ${url}`);
+      const responseData = await this.apiClient.put<UpdateProjectApiResponse>(url, {
+        project_standards: projectStandards
+      }) as unknown as UpdateProjectApiResponse;
+
+      if (!responseData || !responseData.success) {
+        const apiErrorMessage = responseData?.message || responseData?.error || 'API reported update failure without a specific message.';
+        logger.warn(`Update project standards API call for ${slug} failed. Message: ${apiErrorMessage}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Updating standards for project ${slug} failed: ${apiErrorMessage}` }]
+        };
+      }
+
+      const changedSections = getChangedStandardsSections(currentStandards, projectStandards);
+
+      return {
+        slug,
+        projectStandards,
+        changedSections,
+        updateConfirmation: `Project ${slug} standards ${changedSections.length > 0 ? `updated sections: ${changedSections.join(', ')}` : 'unchanged'}. API: ${responseData.message || 'Project successfully updated.'}`
+      };
+    } catch (error) {
+      let errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
+      logger.error(`Error in update-project-standards tool: ${errorMessage}`, error instanceof Error ? error : undefined);
+
+      if (error instanceof Error && (error as any).status === 404) {
+        errorMessage = `Project with slug '${input.slug}' not found.`;
+      }
+
+      return {
+        isError: true,
+        content: [{ type: "text", text: errorMessage }]
+      };
+    }
+  }
+}
@@ -4,8 +4,12 @@
  * Updates project knowledge and diagram using the CodeRide API
  */
 import { z } from 'zod';
-import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions } from '../utils/base-tool.js';
-import { SecureApiClient, UpdateProjectApiResponse } from '../utils/secure-api-client.js';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
+import { SecureApiClient, ProjectApiResponse, UpdateProjectApiResponse } from '../utils/secure-api-client.js';
+import { InputValidator } from '../utils/input-validator.js';
+import { JsonPatchError, JsonPatchOperation, applyJsonPatch, applyMergePatch, diffJsonPaths } from '../utils/json-patch.js';
+import { ProjectHistoryStore } from '../utils/project-history.js';
+import { fixMermaid, formatMermaidErrors, validateMermaid } from '../utils/mermaid.js';
 import { logger } from '../utils/logger.js';
 
 // Removed local UpdateProjectResponse as UpdateProjectApiResponse from api-client.ts will be used.
@@ -14,7 +18,7 @@ import { logger } from '../utils/logger.js';
  * Flexible schema for project knowledge data
  * Supports both simple strings and structured objects for maximum usability
  */
-const ProjectKnowledgeSchema = z.object({
+export const ProjectKnowledgeSchema = z.object({
   // Core project information - flexible to support both strings and objects
   components: z.array(
     z.union([
@@ -76,6 +80,22 @@ const ProjectKnowledgeSchema = z.object({
   ).optional(),
 }).passthrough(); // Allow additional properties for maximum flexibility
 
+/**
+ * Schema for a single RFC 6902 operation in a knowledge patch
+ */
+const KnowledgePatchOperationSchema = z.object({
+  op: z.enum(['add', 'remove', 'replace', 'move', 'copy', 'test']),
+  path: z.string().max(500, "Patch path too long"),
+  value: z.any().optional(),
+  from: z.string().max(500, "Patch 'from' path too long").optional(),
+}).strict()
+  .refine(operation => !['add', 'replace', 'test'].includes(operation.op) || operation.value !== undefined, {
+    message: "'value' is required for add, replace and test operations"
+  })
+  .refine(operation => !['move', 'copy'].includes(operation.op) || operation.from !== undefined, {
+    message: "'from' is required for move and copy operations"
+  });
+
 /**
  * Schema for the update-project tool input
  */
@@ -94,16 +114,32 @@ const UpdateProjectSchema = z.object({
     .max(15000, "Project diagram cannot exceed 15000 characters")
     .optional()
     .describe("Project structure diagram (Mermaid.js format)"),
+  fix_diagram: z.boolean()
+    .optional()
+    .describe("Automatically fix common Mermaid mistakes in project_diagram before validating it"),
+  knowledge_patch: z.union([
+    z.array(KnowledgePatchOperationSchema).min(1, "Patch must contain at least one operation").max(100, "Too many patch operations"),
+    z.record(z.any())
+  ])
+    .optional()
+    .describe("Partial project knowledge change: an RFC 7386 merge patch object or an array of RFC 6902 operations"),
 }).strict().refine(
   // Ensure at least one field to update is provided
   (data) => {
-    const updateFields = ['project_knowledge', 'project_diagram'];
+    const updateFields = ['project_knowledge', 'project_diagram', 'knowledge_patch'];
     return updateFields.some(field => field in data);
   },
   {
     message: 'At least one field to update must be provided',
     path: ['updateFields']
   }
+).refine(
+  // A patch is applied to the stored knowledge, so it cannot be combined with a full replacement
+  (data) => !(data.project_knowledge !== undefined && data.knowledge_patch !== undefined),
+  {
+    message: "Provide either 'project_knowledge' or 'knowledge_patch', not both",
+    path: ['knowledge_patch']
+  }
 );
 
 /**
@@ -111,13 +147,38 @@ const UpdateProjectSchema = z.object({
  */
 type UpdateProjectInput = z.infer<typeof UpdateProjectSchema>;
 
+/**
+ * Schema for the update-project tool output
+ */
+export const UpdateProjectOutputSchema = z.object({
+  slug: z.string(),
+  name: z.string(),
+  description: z.string(),
+  // snake_case like the update_project input (get_project returns projectKnowledge and projectDiagram)
+  project_knowledge: z.record(z.any()).describe('Structured project knowledge after the update'),
+  project_diagram: z.string().describe('Project architecture diagram in Mermaid syntax after the update'),
+  updateConfirmation: z.string(),
+  // JSON Pointers changed by knowledge_patch
+  changedPaths: z.array(z.string()).optional(),
+  // Fixes applied by fix_diagram
+  diagramFixes: z.array(z.string()).optional(),
+  // Local history version holding the state before the update
+  snapshotVersion: z.number().int().optional()
+}).strict();
+
+/**
+ * Type for the update-project tool output
+ */
+type UpdateProjectOutput = z.infer<typeof UpdateProjectOutputSchema>;
+
 /**
  * Update Project Tool Implementation
  */
 export class UpdateProjectTool extends BaseTool<typeof UpdateProjectSchema> {
   readonly name = 'update_project';
-  readonly description = "Updates a project's knowledge graph data and/or its structure diagram (in Mermaid.js format). The project is identified by its unique 'slug'. At least one of 'project_knowledge' or 'project_diagram' must be provided for an update to occur. Use this when you've completed tasks that affect the codebase architecture, discovered new patterns, or need to document implementation impacts in the project's knowledge base.";
+  readonly description = "Updates a project's knowledge graph data and/or its structure diagram (in Mermaid.js format). The project is identified by its unique 'slug'. At least one of 'project_knowledge', 'knowledge_patch' or 'project_diagram' must be provided; prefer 'knowledge_patch' for partial knowledge changes. Use this when you've completed tasks that affect the codebase architecture, discovered new patterns, or need to document implementation impacts in the project's knowledge base.";
   readonly zodSchema = UpdateProjectSchema; // Renamed from schema
+  readonly outputSchema = UpdateProjectOutputSchema;
   readonly annotations: ToolAnnotations = {
     title: "Update Project",
     readOnlyHint: false, // This tool modifies data
@@ -142,10 +203,21 @@ export class UpdateProjectTool extends BaseTool<typeof UpdateProjectSchema> {
   /**
    * Generate agent-specific instructions for project update workflow
    */
-  generateAgentInstructions(input: any): AgentInstructions {
-    const isKnowledgeUpdate = input.project_knowledge !== undefined;
+  generateAgentInstructions(input: any, result?: any): AgentInstructions {
+    const isKnowledgeUpdate = input.project_knowledge !== undefined || input.knowledge_patch !== undefined;
     const isDiagramUpdate = input.project_diagram !== undefined;
-    
+
+    if (result?.isError) {
+      return {
+        immediateActions: [
+          'The project was not updated - fix the reported problem and retry',
+          ...(isDiagramUpdate ? ['For diagram errors, correct the listed lines or retry with fix_diagram: true'] : [])
+        ],
+        nextRecommendedTools: ['update_project', 'get_project'],
+        workflowPhase: 'completion'
+      };
+    }
+
     const baseInstructions: AgentInstructions = {
       immediateActions: [
         'Project update completed successfully',
@@ -190,6 +262,16 @@ export class UpdateProjectTool extends BaseTool<typeof UpdateProjectSchema> {
       ];
     }
 
+    if (Array.isArray(result?.changedPaths)) {
+      baseInstructions.immediateActions.unshift(result.changedPaths.length > 0
+        ? `Knowledge patch changed: ${result.changedPaths.map((path: string) => path || '(whole document)').join(', ')}`
+        : 'Knowledge patch made no changes - the knowledge already matched');
+    }
+
+    if (Array.isArray(result?.diagramFixes) && result.diagramFixes.length > 0) {
+      baseInstructions.immediateActions.push(`Diagram was auto-fixed before saving: ${result.diagramFixes.join('; ')}`);
+    }
+
     // Add automation hints for knowledge maintenance
     baseInstructions.automationHints = {
       knowledgeUpdateTriggers: [
@@ -227,23 +309,71 @@ export class UpdateProjectTool extends BaseTool<typeof UpdateProjectSchema> {
           },
           project_knowledge: {
             type: "object",
-            description: "Optional. A structured JSON object representing the project's knowledge graph containing components, dependencies, technologies, architecture patterns, and notes. Structure: { components: [], dependencies: [], technologies: [], architecture: string, patterns: [], notes: string, links: [], metadata: {} }. Limits: max 50 components, 30 technologies, 30 patterns, 10000 chars for notes. Use this to document architectural decisions, implementation impacts, and project learnings after completing tasks."
+            description: "Optional. A structured JSON object representing the project's knowledge graph containing components, dependencies, technologies, architecture patterns, and notes. " +
+              "Structure: { components: [], dependencies: [], technologies: [], architecture: string, patterns: [], notes: string, links: [], metadata: {} }. " +
+              "Limits: max 50 components, 30 technologies, 30 patterns, 10000 chars for notes. Use this to document architectural decisions, implementation impacts, and project learnings after completing tasks."
+          },
+          knowledge_patch: {
+            oneOf: [
+              {
+                type: "object",
+                description: "RFC 7386 JSON Merge Patch: members are merged into the current knowledge recursively, null removes a member, arrays replace the existing array (e.g. { \"notes\": \"...\", \"metadata\": { \"owner\": null } })."
+              },
+              {
+                type: "array",
+                minItems: 1,
+                maxItems: 100,
+                description: "RFC 6902 JSON Patch operations applied in order; any failing operation aborts the whole patch (e.g. [{ \"op\": \"add\", \"path\": \"/components/-\", \"value\": { \"name\": \"Cache\" } }]).",
+                items: {
+                  type: "object",
+                  properties: {
+                    op: { type: "string", enum: ["add", "remove", "replace", "move", "copy", "test"] },
+                    path: { type: "string", description: "JSON Pointer into project_knowledge, e.g. '/components/0/status'" },
+                    value: { description: "Value for add, replace and test" },
+                    from: { type: "string", description: "Source JSON Pointer for move and copy" }
+                  },
+                  required: ["op", "path"],
+                  additionalProperties: false
+                }
+              }
+            ],
+            description: "Optional. A partial change to the project knowledge, applied to the current knowledge from get_project before saving, so untouched parts are kept. " +
+              "Prefer it over project_knowledge to change part of the knowledge (e.g. add one component) without re-sending the whole object. " +
+              "Either an RFC 7386 merge patch object or an array of RFC 6902 operations. Cannot be combined with project_knowledge. " +
+              "The result's changedPaths lists the JSON Pointers that changed."
           },
           project_diagram: {
             type: "string",
-            description: "Optional. A Mermaid.js format diagram representing the project's architecture, component relationships, and data flow (e.g., 'graph TD; A-->B; B-->C'). Maximum 15000 characters. Use this to visualize system structure, component dependencies, or architectural changes made during task implementation. Update this whenever you add new components or modify relationships."
+            description: "Optional. A Mermaid.js format diagram representing the project's architecture, component relationships, and data flow (e.g., 'graph TD; A-->B; B-->C'). Maximum 15000 characters. " +
+              "Flowchart/graph, sequence and class diagrams are validated before saving; an invalid diagram is rejected with line and column errors. " +
+              "Use this to visualize system structure, component dependencies, or architectural changes made during task implementation. Update this whenever you add new components or modify relationships."
+          },
+          fix_diagram: {
+            type: "boolean",
+            description: "Optional. When true, common Mermaid mistakes in project_diagram are fixed before validation: unquoted labels containing parentheses, brackets or quotes are quoted, '->' in flowcharts becomes '-->', and a missing 'flowchart TD' declaration is added. The applied fixes are listed in diagramFixes."
           }
         },
         required: ["slug"], // Zod .refine() handles the "at least one update field" logic at runtime.
         additionalProperties: false
-      }
+      },
+      outputSchema: this.getOutputJsonSchema()
     };
   }
 
+  /**
+   * Version history of the account behind the API client
+   */
+  private getHistoryStore(): ProjectHistoryStore {
+    if (!this.apiClient) {
+      throw new Error('API client not available - tool not properly initialized');
+    }
+    return new ProjectHistoryStore(this.apiClient.getAccountId());
+  }
+
   /**
    * Execute the update-project tool
    */
-  async execute(input: UpdateProjectInput): Promise<unknown> {
+  async execute(input: UpdateProjectInput): Promise<UpdateProjectOutput | ToolErrorResult> {
     logger.info('Executing update-project tool', input);
 
     try {
@@ -253,10 +383,63 @@ export class UpdateProjectTool extends BaseTool<typeof UpdateProjectSchema> {
       }
 
       // Extract project slug
-      const { slug, ...updateData } = input;
+      const { slug, knowledge_patch, fix_diagram, ...updateData } = input;
       
       // Update project using the API endpoint
       const url = `/project/slug/${slug.toUpperCase()}`;
+
+      // Reject broken Mermaid before anything is read or written; an empty diagram clears it
+      let diagramFixes: string[] | undefined;
+      if (updateData.project_diagram?.trim()) {
+        if (fix_diagram) {
+          const fixed = fixMermaid(updateData.project_diagram);
+          updateData.project_diagram = fixed.diagram;
+          diagramFixes = fixed.fixes;
+        }
+
+        const validation = validateMermaid(updateData.project_diagram);
+        if (!validation.valid) {
+          const fixHint = !fix_diagram && validation.errors.some(error => error.fixable)
+            ? '\nSome of these errors can be fixed automatically by passing fix_diagram: true.'
+            : '';
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Project diagram for ${slug.toUpperCase()} is not valid Mermaid and was not saved:\n${formatMermaidErrors(validation.errors)}${fixHint}` }]
+          };
+        }
+      }
+
+      // Read the stored state to snapshot it and to apply a knowledge patch against
+      logger.debug(`Making GET request to: ${url}`);
+      const project = await this.apiClient.get<ProjectApiResponse>(url) as unknown as ProjectApiResponse;
+      const currentKnowledge = project?.projectKnowledge || {};
+
+      // Apply a knowledge patch to the stored knowledge so untouched parts are kept
+      let changedPaths: string[] | undefined;
+      if (knowledge_patch !== undefined) {
+        const patch = InputValidator.validateJsonInput(knowledge_patch);
+        const patchedKnowledge = Array.isArray(patch)
+          ? applyJsonPatch(currentKnowledge, patch as JsonPatchOperation[])
+          : applyMergePatch(currentKnowledge, patch);
+
+        const parsedKnowledge = ProjectKnowledgeSchema.safeParse(patchedKnowledge);
+        if (!parsedKnowledge.success) {
+          const issues = parsedKnowledge.error.errors.map(issue => `${issue.path.length > 0 ? `/${issue.path.join('/')}` : '(whole document)'}: ${issue.message}`).join('; ');
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Knowledge patch for project ${slug.toUpperCase()} produces invalid project knowledge: ${issues}` }]
+          };
+        }
+
+        // The merged document gets the same JSON security checks as a full project_knowledge input
+        InputValidator.validateJsonInput(patchedKnowledge);
+
+        changedPaths = diffJsonPaths(currentKnowledge, patchedKnowledge);
+        updateData.project_knowledge = patchedKnowledge as UpdateProjectInput['project_knowledge'];
+      }
+
+      const snapshotVersion = await this.snapshotProject(slug, currentKnowledge, project?.projectDiagram || '');
+
       logger.debug(`Making PUT request to: ${url}`);
       
       const responseData = await this.apiClient.put<UpdateProjectApiResponse>(url, updateData) as unknown as UpdateProjectApiResponse;
@@ -273,17 +456,21 @@ export class UpdateProjectTool extends BaseTool<typeof UpdateProjectSchema> {
       // At this point, responseData.success is true
       const updatedFieldsList = Object.keys(updateData).join(', ') || 'no specific fields (refresh)';
       const apiMessage = responseData.message || 'Project successfully updated.';
+      const historyNote = snapshotVersion !== undefined ? ` Previous state saved as version ${snapshotVersion}.` : '';
 
       if (responseData.project) {
         const diagramFromResponse = responseData.project.project_diagram; // snake_case access
 
         return {
-          slug: responseData.project.slug,
-          name: responseData.project.name, 
-          description: responseData.project.description, 
+          slug: responseData.project.slug || slug,
+          name: responseData.project.name || '',
+          description: responseData.project.description || '',
           project_knowledge: responseData.project.project_knowledge || {}, // snake_case access and output
           project_diagram: diagramFromResponse || '', // Use the new variable (already snake_case)
-          updateConfirmation: `Project ${responseData.project.slug} updated fields: ${updatedFieldsList}. API: ${apiMessage}`
+          updateConfirmation: `Project ${responseData.project.slug} updated fields: ${updatedFieldsList}. API: ${apiMessage}${historyNote}`,
+          ...(changedPaths && { changedPaths }),
+          ...(diagramFixes && diagramFixes.length > 0 && { diagramFixes }),
+          ...(snapshotVersion !== undefined && { snapshotVersion })
         };
       } else {
         // responseData.success is true, but responseData.project is missing.
@@ -292,16 +479,21 @@ export class UpdateProjectTool extends BaseTool<typeof UpdateProjectSchema> {
           slug: slug, 
           name: '', 
           description: '', 
-          project_knowledge: input.project_knowledge || {}, // Input is snake_case from Zod schema
-          project_diagram: input.project_diagram || '',   // Input is snake_case from Zod schema
-          updateConfirmation: `Project ${slug} update reported success by API, but full project details were not returned. Attempted to update fields: ${updatedFieldsList}. API: ${apiMessage}`
+          project_knowledge: updateData.project_knowledge || {}, // Input is snake_case from Zod schema
+          project_diagram: updateData.project_diagram || '',   // The diagram as sent, after any fix_diagram repairs
+          updateConfirmation: `Project ${slug} update reported success by API, but full project details were not returned. Attempted to update fields: ${updatedFieldsList}. API: ${apiMessage}${historyNote}`,
+          ...(changedPaths && { changedPaths }),
+          ...(diagramFixes && diagramFixes.length > 0 && { diagramFixes }),
+          ...(snapshotVersion !== undefined && { snapshotVersion })
         };
       }
     } catch (error) {
       let errorMessage = (error instanceof Error) ? error.message : 'An unknown error occurred';
       logger.error(`Error in update-project tool: ${errorMessage}`, error instanceof Error ? error : undefined);
 
-      if (error instanceof Error && (error as any).status === 404) {
+      if (error instanceof JsonPatchError) {
+         errorMessage = `Knowledge patch for project ${input.slug.toUpperCase()} could not be applied: ${error.message}`;
+      } else if (error instanceof Error && (error as any).status === 404) {
          errorMessage = `Project with slug '${input.slug}' not found.`;
       } else if (error instanceof Error && error.message.includes('not found')) { // Fallback for other not found indications
          errorMessage = `Project with slug '${input.slug}' not found or update failed.`;
@@ -313,4 +505,18 @@ export class UpdateProjectTool extends BaseTool<typeof UpdateProjectSchema> {
       };
     }
   }
+
+  /**
+   * Store the current knowledge and diagram in the local history before they are overwritten.
+   * A failing history write is logged but does not block the update.
+   */
+  private async snapshotProject(slug: string, projectKnowledge: Record<string, any>, projectDiagram: string): Promise<number | undefined> {
+    try {
+      const snapshot = await this.getHistoryStore().append(slug, { projectKnowledge, projectDiagram }, 'update_project');
+      return snapshot.version;
+    } catch (error) {
+      logger.warn(`Could not store project history for ${slug.toUpperCase()}: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
 }
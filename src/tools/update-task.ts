@@ -4,8 +4,9 @@
  * Updates an existing task using the CodeRide API
  */
 import { z } from 'zod';
-import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions } from '../utils/base-tool.js';
+import { BaseTool, MCPToolDefinition, ToolAnnotations, AgentInstructions, ToolErrorResult } from '../utils/base-tool.js';
 import { SecureApiClient, UpdateTaskApiResponse } from '../utils/secure-api-client.js';
+import { fetchTaskChecklist } from '../utils/task-checklist.js';
 import { logger } from '../utils/logger.js';
 
 // Removed local UpdateTaskResponse as UpdateTaskApiResponse from api-client.ts will be used.
@@ -23,6 +24,11 @@ const UpdateTaskSchema = z.object({
   .describe("Task number to identify the task to update (case insensitive)"),
   
   // Optional fields that can be updated with security constraints
+  title: z.string()
+    .min(1, "Title cannot be empty")
+    .max(200, "Title cannot exceed 200 characters")
+    .optional()
+    .describe("New task title"),
   description: z.string()
     .max(2000, "Description cannot exceed 2000 characters")
     .optional()
@@ -30,10 +36,21 @@ const UpdateTaskSchema = z.object({
   status: z.enum(['to-do', 'in-progress', 'done'], {
     invalid_type_error: "Status must be one of: to-do, in-progress, done"
   }).optional().describe("New task status"),
+  priority: z.enum(['low', 'medium', 'high'], {
+    invalid_type_error: "Priority must be one of: low, medium, high"
+  }).optional().describe("New task priority"),
+  context: z.string()
+    .max(5000, "Context cannot exceed 5000 characters")
+    .optional()
+    .describe("New task context"),
+  instructions: z.string()
+    .max(5000, "Instructions cannot exceed 5000 characters")
+    .optional()
+    .describe("New task instructions"),
 }).strict().refine(
   // Ensure at least one field to update is provided
   (data) => {
-    const updateFields = ['description', 'status'];
+    const updateFields = ['title', 'description', 'status', 'priority', 'context', 'instructions'];
     return updateFields.some(field => field in data);
   },
   {
@@ -56,13 +73,33 @@ const exampleInput = {
  */
 type UpdateTaskInput = z.infer<typeof UpdateTaskSchema>;
 
+/**
+ * Schema for the update-task tool output
+ */
+const UpdateTaskOutputSchema = z.object({
+  number: z.string(),
+  title: z.string().nullish(),
+  description: z.string().nullish(),
+  status: z.string().nullish(),
+  priority: z.string().nullish(),
+  updateConfirmation: z.string(),
+  // Only present when the task was set to done with unticked checklist items
+  uncheckedChecklistItems: z.array(z.string()).optional()
+}).strict();
+
+/**
+ * Type for the update-task tool output
+ */
+type UpdateTaskOutput = z.infer<typeof UpdateTaskOutputSchema>;
+
 /**
  * Update Task Tool Implementation
  */
 export class UpdateTaskTool extends BaseTool<typeof UpdateTaskSchema> {
   readonly name = 'update_task';
-  readonly description = "Updates an existing task's 'description' and/or 'status'. The task is identified by its unique 'number' (e.g., 'CRD-1'). At least one of 'description' or 'status' must be provided for an update. Use this when you need to change task status (e.g., moving from 'to-do' to 'in-progress'), update progress notes, or modify task descriptions as work evolves.";
+  readonly description = "Updates an existing task's 'title', 'description', 'status', 'priority', 'context' and/or 'instructions'. The task is identified by its unique 'number' (e.g., 'CRD-1'). At least one of these fields must be provided for an update. Use this when you need to change task status (e.g., moving from 'to-do' to 'in-progress'), update progress notes, re-prioritise or retitle a task as scope changes, or modify task descriptions as work evolves.";
   readonly zodSchema = UpdateTaskSchema; // Renamed from schema
+  readonly outputSchema = UpdateTaskOutputSchema;
   readonly annotations: ToolAnnotations = {
     title: "Update Task",
     readOnlyHint: false, // This tool modifies data
@@ -72,8 +109,8 @@ export class UpdateTaskTool extends BaseTool<typeof UpdateTaskSchema> {
   };
   readonly metadata = {
     category: 'task' as const,
-    tags: ['task', 'update', 'status', 'description', 'write'],
-    usage: 'Use when you need to change task status (e.g., moving from to-do to in-progress), update progress notes, or modify task descriptions as work evolves',
+    tags: ['task', 'update', 'status', 'priority', 'description', 'write'],
+    usage: 'Use when you need to change task status (e.g., moving from to-do to in-progress), update progress notes, re-prioritise or retitle a task as scope changes, or modify task descriptions as work evolves',
     priority: 'primary' as const
   };
 
@@ -94,7 +131,7 @@ export class UpdateTaskTool extends BaseTool<typeof UpdateTaskSchema> {
   /**
    * Generate agent-specific instructions for task update workflow
    */
-  generateAgentInstructions(input: any): AgentInstructions {
+  generateAgentInstructions(input: any, result?: any): AgentInstructions {
     const isStatusUpdate = input.status !== undefined;
     const newStatus = input.status;
     
@@ -138,6 +175,17 @@ export class UpdateTaskTool extends BaseTool<typeof UpdateTaskSchema> {
             'Document any architectural changes or new patterns',
             'Find and start next task in sequence'
           ];
+
+          // Warn when the task is closed with open checklist items
+          if (Array.isArray(result?.uncheckedChecklistItems) && result.uncheckedChecklistItems.length > 0) {
+            baseInstructions.immediateActions.unshift(
+              `WARNING: ${result.uncheckedChecklistItems.length} checklist item(s) are still unchecked`
+            );
+            baseInstructions.criticalReminders.unshift(
+              'Finish and tick the remaining checklist items, or set the task back to "in-progress" if work remains'
+            );
+            baseInstructions.nextRecommendedTools.unshift('list_checklist');
+          }
           break;
 
         case 'to-do':
@@ -152,6 +200,18 @@ export class UpdateTaskTool extends BaseTool<typeof UpdateTaskSchema> {
       }
     }
 
+    // Scope-change guidance for title and priority edits
+    if (input.title !== undefined || input.priority !== undefined) {
+      baseInstructions.immediateActions.push(
+        input.priority !== undefined
+          ? `Task priority changed to "${input.priority}" - review whether the current work order still makes sense`
+          : 'Task retitled - make sure the description still matches the new scope'
+      );
+      if (!baseInstructions.nextRecommendedTools.includes('list_tasks')) {
+        baseInstructions.nextRecommendedTools.push('list_tasks');
+      }
+    }
+
     // Add workflow correction guidance
     baseInstructions.workflowCorrection = {
       correctSequence: ['get_project', 'get_task', 'get_prompt', 'update_task'],
@@ -178,6 +238,10 @@ export class UpdateTaskTool extends BaseTool<typeof UpdateTaskSchema> {
             pattern: "^[A-Za-z]{3}-\\d+$",
             description: "The unique task number identifier in format 'ABC-123' where ABC is the three-letter project code and 123 is the task sequence number (e.g., 'CRD-1', 'CDB-42'). Case insensitive - will be converted to uppercase internally."
           },
+          title: {
+            type: "string",
+            description: "Optional. The new title for the task. Maximum 200 characters. Use this when the scope of the task has changed and the current title no longer describes it."
+          },
           description: {
             type: "string",
             description: "Optional. The new description for the task. If provided, it will completely replace the existing task description. Maximum 2000 characters. Use this to add implementation notes, progress updates, or clarify requirements as work progresses."
@@ -186,18 +250,32 @@ export class UpdateTaskTool extends BaseTool<typeof UpdateTaskSchema> {
             type: "string",
             enum: ["to-do", "in-progress", "done"],
             description: "Optional. The new status for the task. Valid values: 'to-do' (not started), 'in-progress' (actively working), 'done' (completed). Use this to track task progress through the workflow. When marking a task 'done', ensure you update project knowledge and diagram if architectural changes were made."
+          },
+          priority: {
+            type: "string",
+            enum: ["low", "medium", "high"],
+            description: "Optional. The new priority for the task. Valid values: 'low', 'medium', 'high'. Use this to re-prioritise work as scope or urgency changes."
+          },
+          context: {
+            type: "string",
+            description: "Optional. The new background context for the task (e.g., related decisions, affected components). If provided, it will completely replace the existing context. Maximum 5000 characters."
+          },
+          instructions: {
+            type: "string",
+            description: "Optional. The new implementation instructions for the task. If provided, they will completely replace the existing instructions. Maximum 5000 characters."
           }
         },
         required: ["number"], // Zod .refine() handles the "at least one update field" logic at runtime.
         additionalProperties: false
-      }
+      },
+      outputSchema: this.getOutputJsonSchema()
     };
   }
 
   /**
    * Execute the update-task tool
    */
-  async execute(input: UpdateTaskInput): Promise<unknown> {
+  async execute(input: UpdateTaskInput): Promise<UpdateTaskOutput | ToolErrorResult> {
     logger.info('Executing update-task tool', input);
 
     try {
@@ -231,23 +309,33 @@ export class UpdateTaskTool extends BaseTool<typeof UpdateTaskSchema> {
       const updatedFieldsList = Object.keys(updateData).join(', ') || 'no specific fields (refresh)'; // Handle case where updateData is empty if API allows
       const apiMessage = responseData.message || 'Task successfully updated.';
 
+      // Closing a task with open checklist items is allowed, but reported back
+      const uncheckedChecklistItems = input.status === 'done'
+        ? await this.fetchUncheckedChecklistItems(taskNumber)
+        : [];
+      const checklistWarning = uncheckedChecklistItems.length > 0 && { uncheckedChecklistItems };
+
       if (responseData.task) {
         return {
           number: responseData.task.number,
           title: responseData.task.title,
           description: responseData.task.description,
           status: responseData.task.status,
-          updateConfirmation: `Task ${responseData.task.number} updated fields: ${updatedFieldsList}. API: ${apiMessage}`
+          priority: responseData.task.priority,
+          updateConfirmation: `Task ${responseData.task.number} updated fields: ${updatedFieldsList}. API: ${apiMessage}`,
+          ...checklistWarning
         };
       } else {
         // responseData.success is true, but responseData.task is missing.
         logger.warn(`Update task API call for ${taskNumber} succeeded but returned no task data. API message: ${apiMessage}`);
         return {
           number: taskNumber, // Use input taskNumber as fallback
-          title: '', // No title info available from response
+          title: input.title || '', // Fallback to input title if available
           description: input.description || '', // Fallback to input description if available
           status: input.status || '',       // Fallback to input status if available
-          updateConfirmation: `Task ${taskNumber} update reported success by API, but full task details were not returned. Attempted to update fields: ${updatedFieldsList}. API: ${apiMessage}`
+          priority: input.priority || '',   // Fallback to input priority if available
+          updateConfirmation: `Task ${taskNumber} update reported success by API, but full task details were not returned. Attempted to update fields: ${updatedFieldsList}. API: ${apiMessage}`,
+          ...checklistWarning
         };
       }
     } catch (error) {
@@ -268,4 +356,18 @@ export class UpdateTaskTool extends BaseTool<typeof UpdateTaskSchema> {
       };
     }
   }
+
+  /**
+   * Texts of checklist items that are not ticked yet
+   * Checklist failures are logged and ignored so the update result is still returned
+   */
+  private async fetchUncheckedChecklistItems(taskNumber: string): Promise<string[]> {
+    try {
+      const checklist = await fetchTaskChecklist(this.apiClient!, taskNumber);
+      return checklist.filter(item => !item.checked).map(item => item.text);
+    } catch (error) {
+      logger.warn(`Could not fetch checklist for task ${taskNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return [];
+    }
+  }
 }
@@ -2,11 +2,13 @@
  * Base tool class for MCP tools with security enhancements
  */
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { toJsonSchemaCompat } from '@modelcontextprotocol/sdk/server/zod-json-schema-compat.js';
 import { z } from 'zod';
 import { logger } from './logger.js';
 import { validateNoTokenPassthrough, redactSensitiveTokens } from './token-security.js';
 import { InputValidator, ValidationError, SecurityError } from './input-validator.js';
 import { SecureApiClient } from './secure-api-client.js';
+import { AgentInstructionsSchema } from './output-schemas.js';
 
 /**
  * Abstract base class for all MCP tools
@@ -105,10 +107,19 @@ export interface MCPToolDefinition {
   name: string;
   description: string;
   inputSchema: Record<string, any>; // JSON Schema representation
+  outputSchema?: Record<string, any>; // JSON Schema of the structured result
   annotations?: ToolAnnotations;
   metadata?: MCPToolMetadata;
 }
 
+/**
+ * Result returned by a tool when it fails; carries no structured content
+ */
+export interface ToolErrorResult {
+  isError: true;
+  content: Array<{ type: 'text'; text: string }>;
+}
+
 /**
  * Abstract base class for all MCP tools
  */
@@ -128,6 +139,12 @@ export abstract class BaseTool<T extends z.ZodType> {
    */
   abstract readonly zodSchema: T;
 
+  /**
+   * Zod schema of the successful result. Results are validated against it and
+   * returned to clients as structured content.
+   */
+  abstract readonly outputSchema: z.AnyZodObject;
+
   /**
    * Tool annotations providing hints about its behavior.
    */
@@ -169,6 +186,16 @@ export abstract class BaseTool<T extends z.ZodType> {
    */
   abstract getMCPToolDefinition(): MCPToolDefinition;
 
+  /**
+   * JSON Schema of the structured result for getMCPToolDefinition(),
+   * including the _agentInstructions added by secureExecute.
+   */
+  protected getOutputJsonSchema(): Record<string, any> {
+    return toJsonSchemaCompat(this.outputSchema.extend({
+      _agentInstructions: AgentInstructionsSchema.optional()
+    }));
+  }
+
   /**
    * Validate input against the Zod schema with security enhancements.
    */
@@ -214,14 +241,19 @@ export abstract class BaseTool<T extends z.ZodType> {
   private performSecurityValidation(input: any, requestId: string): void {
     // Priority 4: Validate user permissions and detect suspicious content
     try {
-      InputValidator.validateUserPermissions(input, `tool ${this.name} input`);
+      const unscannedFields = this.getUnscannedInputFields();
+      const scannedInput = unscannedFields.length > 0
+        ? Object.fromEntries(Object.entries(input).filter(([field]) => !unscannedFields.includes(field)))
+        : input;
+      InputValidator.validateUserPermissions(scannedInput, `tool ${this.name} input`);
     } catch (error) {
       throw new SecurityError(`Security validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
 
-    // Priority 4: Rate limiting for update operations (only for update tools)
-    if (this.name.includes('update')) {
-      const identifier = input.slug || input.number || 'unknown';
+    // Priority 4: Rate limiting for write operations (update and create tools, and task comments),
+    // counted per project or task so that unrelated writes do not share one limit
+    const identifier = input.slug || input.number;
+    if (identifier && (this.name.includes('update') || this.name.includes('create') || this.name === 'add_task_comment')) {
       try {
         InputValidator.validateRateLimit(this.name, identifier);
       } catch (error) {
@@ -256,6 +288,24 @@ export abstract class BaseTool<T extends z.ZodType> {
       }
     }
 
+    // Validate task titles
+    if (input.title !== undefined) {
+      try {
+        input.title = InputValidator.validateTaskTitle(input.title);
+      } catch (error) {
+        throw new ValidationError(`Invalid task title: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    // Validate task priority
+    if (input.priority !== undefined) {
+      try {
+        input.priority = InputValidator.validateTaskPriority(input.priority);
+      } catch (error) {
+        throw new ValidationError(`Invalid task priority: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
     // Validate and sanitize descriptions
     if (input.description !== undefined) {
       try {
@@ -265,6 +315,23 @@ export abstract class BaseTool<T extends z.ZodType> {
       }
     }
 
+    // Sanitize task context and instructions
+    if (input.context !== undefined) {
+      try {
+        input.context = InputValidator.sanitizeDescription(input.context);
+      } catch (error) {
+        throw new ValidationError(`Invalid task context: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    if (input.instructions !== undefined) {
+      try {
+        input.instructions = InputValidator.sanitizeDescription(input.instructions);
+      } catch (error) {
+        throw new ValidationError(`Invalid task instructions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
     // Validate JSON inputs (project_knowledge, project_diagram)
     if (input.project_knowledge !== undefined) {
       try {
@@ -325,6 +392,14 @@ export abstract class BaseTool<T extends z.ZodType> {
     return guidance;
   }
 
+  /**
+   * Input fields holding whole documents (e.g. a Markdown plan) that are excluded from the
+   * suspicious pattern scan. Tools listing fields here must validate their content themselves.
+   */
+  protected getUnscannedInputFields(): string[] {
+    return [];
+  }
+
   /**
    * Check if this tool requires project context.
    * Override in subclasses that need project context.
@@ -373,6 +448,19 @@ export abstract class BaseTool<T extends z.ZodType> {
     return guidance;
   }
 
+  /**
+   * Validate a successful result against the output schema. A mismatch means the tool's result
+   * shape drifted from what it publishes, so the result is rejected rather than sent to the client.
+   */
+  private validateOutput(result: unknown, requestId: string): void {
+    const parsed = this.outputSchema.safeParse(result);
+    if (!parsed.success) {
+      const issues = parsed.error.errors.map(issue => `${issue.path.join('.') || '(result)'}: ${issue.message}`).join('; ');
+      logger.error(`Output of tool ${this.name} does not match its output schema [${requestId}]: ${issues}`);
+      throw new ValidationError(`Output of tool ${this.name} does not match its output schema: ${issues}`);
+    }
+  }
+
   /**
    * Enhanced secure execute wrapper with agent instruction integration
    */
@@ -389,6 +477,11 @@ export abstract class BaseTool<T extends z.ZodType> {
       
       // Sanitize output to remove other sensitive information
       const sanitizedResult = InputValidator.sanitizeOutput(tokenRedactedResult);
+
+      // Successful results must match the declared output schema
+      if (!sanitizedResult?.isError) {
+        this.validateOutput(sanitizedResult, requestId);
+      }
       
       // Generate agent instructions for workflow guidance
       const agentInstructions = this.generateAgentInstructions(input, sanitizedResult);
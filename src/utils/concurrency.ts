@@ -0,0 +1,29 @@
+/**
+ * Bounded concurrency helper for fanning out API requests
+ * Keeps the number of in-flight requests below the API client's rate limits
+ */
+
+/**
+ * Map over items with at most `limit` operations in flight at once.
+ * Results are returned in input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  operation: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await operation(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  return results;
+}
@@ -0,0 +1,68 @@
+/**
+ * Confirmation tokens for destructive tools
+ *
+ * A preview call issues a short-lived, single-use token for one action on one task;
+ * the destructive call must echo it back in its `confirm` argument.
+ */
+import { randomBytes } from 'crypto';
+
+/**
+ * Issued confirmation returned to the caller of a preview
+ */
+export interface IssuedConfirmation {
+  confirm: string;
+  expiresAt: string;
+}
+
+/**
+ * In-memory store of pending confirmation tokens
+ */
+export class ConfirmationTokenStore {
+  private readonly pending = new Map<string, { token: string; expiresAt: number }>();
+
+  /**
+   * @param ttlMs How long an issued token stays valid
+   */
+  constructor(private readonly ttlMs: number = 5 * 60 * 1000) {}
+
+  /**
+   * Issue a new token for an action on a subject, replacing any earlier one
+   */
+  issue(action: string, subject: string): IssuedConfirmation {
+    this.pruneExpired();
+
+    const token = randomBytes(8).toString('hex');
+    const expiresAt = Date.now() + this.ttlMs;
+    this.pending.set(this.key(action, subject), { token, expiresAt });
+
+    return { confirm: token, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  /**
+   * Check and consume a token. Tokens are single-use and bound to the action and subject.
+   */
+  consume(action: string, subject: string, token: string): boolean {
+    const key = this.key(action, subject);
+    const entry = this.pending.get(key);
+
+    if (!entry || entry.token !== token.toLowerCase() || Date.now() > entry.expiresAt) {
+      return false;
+    }
+
+    this.pending.delete(key);
+    return true;
+  }
+
+  private key(action: string, subject: string): string {
+    return `${action}:${subject.toUpperCase()}`;
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.pending.entries()) {
+      if (now > entry.expiresAt) {
+        this.pending.delete(key);
+      }
+    }
+  }
+}
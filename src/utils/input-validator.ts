@@ -218,7 +218,7 @@ export class InputValidator {
       throw new ValidationError('Task status is required and must be a string');
     }
     
-    const allowedStatuses = ['to-do', 'in-progress', 'completed'];
+    const allowedStatuses = ['to-do', 'in-progress', 'done', 'completed'];
     const cleanStatus = status.trim().toLowerCase();
     
     if (!allowedStatuses.includes(cleanStatus)) {
@@ -229,6 +229,51 @@ export class InputValidator {
     return cleanStatus;
   }
 
+  /**
+   * Validate task title
+   * Must be a non-empty single line within the title length limit
+   */
+  static validateTaskTitle(title: unknown): string {
+    if (!title || typeof title !== 'string') {
+      throw new ValidationError('Task title is required and must be a string');
+    }
+
+    // Collapse line breaks and sanitize like other free-text fields
+    const cleanTitle = this.sanitizeDescription(title.replace(/[\r\n]+/g, ' '));
+
+    if (cleanTitle.length === 0) {
+      throw new ValidationError('Task title cannot be empty');
+    }
+
+    const maxLength = 200;
+    if (cleanTitle.length > maxLength) {
+      throw new ValidationError(`Task title cannot exceed ${maxLength} characters`);
+    }
+
+    logger.debug(`Validated task title: ${title.length} -> ${cleanTitle.length} characters`);
+    return cleanTitle;
+  }
+
+  /**
+   * Validate task priority
+   * Must be one of the allowed priorities
+   */
+  static validateTaskPriority(priority: unknown): string {
+    if (!priority || typeof priority !== 'string') {
+      throw new ValidationError('Task priority is required and must be a string');
+    }
+
+    const allowedPriorities = ['low', 'medium', 'high'];
+    const cleanPriority = priority.trim().toLowerCase();
+
+    if (!allowedPriorities.includes(cleanPriority)) {
+      throw new ValidationError(`Priority must be one of: ${allowedPriorities.join(', ')}`);
+    }
+
+    logger.debug(`Validated task priority: ${priority} -> ${cleanPriority}`);
+    return cleanPriority;
+  }
+
   /**
    * Sanitize and validate description text
    * Removes potentially dangerous content and limits length
@@ -358,8 +403,9 @@ export class InputValidator {
   /**
    * Validate API endpoint path
    * Prevents path traversal and ensures allowed endpoints
+   * DELETE requests are only allowed on the separate delete whitelist
    */
-  static validateEndpoint(endpoint: unknown): string {
+  static validateEndpoint(endpoint: unknown, method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET'): string {
     if (!endpoint || typeof endpoint !== 'string') {
       throw new ValidationError('Endpoint must be a string');
     }
@@ -382,20 +428,35 @@ export class InputValidator {
       /^\/project\/slug\/[A-Z]{3}$/,                           // /project/slug/ABC
       /^\/project\/slug\/[A-Z]{3}\/first-task$/,               // /project/slug/ABC/first-task
       /^\/project\/list$/,                                     // /project/list
+      /^\/project\/create$/,                                   // /project/create
       
       // Task endpoints
       /^\/task\/number\/[A-Z]{3}-\d+$/,                        // /task/number/ABC-123
       /^\/task\/number\/[A-Z]{3}-\d+\/prompt$/,                // /task/number/ABC-123/prompt
       /^\/task\/number\/[A-Z]{3}-\d+\/next$/,                  // /task/number/ABC-123/next
+      /^\/task\/number\/[A-Z]{3}-\d+\/comments$/,              // /task/number/ABC-123/comments
+      /^\/task\/number\/[A-Z]{3}-\d+\/dependencies$/,          // /task/number/ABC-123/dependencies
+      /^\/task\/number\/[A-Z]{3}-\d+\/checklist$/,             // /task/number/ABC-123/checklist
+      /^\/task\/number\/[A-Z]{3}-\d+\/checklist\/[\w-]+$/,     // /task/number/ABC-123/checklist/item-id
+      /^\/task\/number\/[A-Z]{3}-\d+\/archive$/,               // /task/number/ABC-123/archive
+      /^\/task\/number\/[A-Z]{3}-\d+\/unarchive$/,             // /task/number/ABC-123/unarchive
       /^\/task\/project\/slug\/[A-Z]{3}$/,                     // /task/project/slug/ABC
+      /^\/task\/project\/slug\/[A-Z]{3}\/create$/,             // /task/project/slug/ABC/create
+      /^\/task\/search$/,                                      // /task/search
       
       // Health check
       /^\/api\/health$/                                        // /api/health
     ];
     
-    const isAllowed = allowedPatterns.some(pattern => pattern.test(cleanEndpoint));
+    // Whitelist of endpoints that may receive DELETE requests
+    const allowedDeletePatterns = [
+      /^\/task\/number\/[A-Z]{3}-\d+$/                         // /task/number/ABC-123
+    ];
+    
+    const patterns = method === 'DELETE' ? allowedDeletePatterns : allowedPatterns;
+    const isAllowed = patterns.some(pattern => pattern.test(cleanEndpoint));
     if (!isAllowed) {
-      throw new SecurityError(`Endpoint not allowed: ${cleanEndpoint}`);
+      throw new SecurityError(`Endpoint not allowed${method === 'DELETE' ? ' for DELETE' : ''}: ${cleanEndpoint}`);
     }
     
     logger.debug(`Validated endpoint: ${endpoint} -> ${cleanEndpoint}`);
@@ -0,0 +1,268 @@
+/**
+ * JSON patch helpers for partial project knowledge updates
+ * Implements RFC 7386 (JSON Merge Patch) and RFC 6902 (JSON Patch) on plain JSON values,
+ * plus a path-level diff used to report what a patch changed
+ */
+
+export class JsonPatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JsonPatchError';
+  }
+}
+
+/**
+ * A single RFC 6902 operation
+ */
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  path: string;
+  value?: unknown;
+  from?: string;
+}
+
+/**
+ * Path segments that could reach object prototypes
+ */
+const FORBIDDEN_SEGMENTS = ['__proto__', 'constructor', 'prototype'];
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function cloneJson<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Structural equality of two JSON values
+ */
+export function jsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => jsonEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => key in b && jsonEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+/**
+ * Apply an RFC 7386 merge patch: objects merge recursively, null removes a member,
+ * any other value (including arrays) replaces the target
+ */
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isPlainObject(patch)) {
+    return cloneJson(patch);
+  }
+
+  const result: Record<string, any> = isPlainObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (FORBIDDEN_SEGMENTS.includes(key)) {
+      throw new JsonPatchError(`Merge patch member '${key}' is not allowed`);
+    }
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Split a JSON Pointer (RFC 6901) into unescaped segments
+ */
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') {
+    return [];
+  }
+  if (!pointer.startsWith('/')) {
+    throw new JsonPatchError(`Invalid JSON Pointer '${pointer}': must be empty or start with '/'`);
+  }
+
+  const segments = pointer.slice(1).split('/').map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+  if (segments.some(segment => FORBIDDEN_SEGMENTS.includes(segment))) {
+    throw new JsonPatchError(`JSON Pointer '${pointer}' is not allowed`);
+  }
+  return segments;
+}
+
+/**
+ * Escape a member name for use in a JSON Pointer
+ */
+function escapeSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Parse an array index segment; '-' (end of array) is only valid when adding
+ */
+function parseIndex(segment: string, length: number, allowEnd: boolean): number {
+  if (allowEnd && segment === '-') {
+    return length;
+  }
+  if (!/^(0|[1-9]\d*)$/.test(segment)) {
+    throw new JsonPatchError(`Invalid array index '${segment}'`);
+  }
+
+  const index = parseInt(segment, 10);
+  if (index > length || (!allowEnd && index === length)) {
+    throw new JsonPatchError(`Array index ${index} is out of bounds`);
+  }
+  return index;
+}
+
+/**
+ * Resolve the value at a pointer, throwing when it does not exist
+ */
+function getAt(document: unknown, segments: string[]): unknown {
+  let current: any = document;
+  for (const segment of segments) {
+    if (Array.isArray(current)) {
+      current = current[parseIndex(segment, current.length, false)];
+    } else if (isPlainObject(current) && Object.prototype.hasOwnProperty.call(current, segment)) {
+      current = current[segment];
+    } else {
+      throw new JsonPatchError(`Path '/${segments.map(escapeSegment).join('/')}' does not exist`);
+    }
+  }
+  return current;
+}
+
+/**
+ * Read the value at a JSON Pointer, or undefined when the path does not exist
+ */
+export function getJsonPointerValue(document: unknown, pointer: string): unknown {
+  try {
+    return getAt(document, parsePointer(pointer));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolve the container holding the last segment of a pointer
+ */
+function getParent(document: unknown, segments: string[]): any {
+  const parent = getAt(document, segments.slice(0, -1));
+  if (!Array.isArray(parent) && !isPlainObject(parent)) {
+    throw new JsonPatchError(`Parent of '/${segments.map(escapeSegment).join('/')}' is not an object or array`);
+  }
+  return parent;
+}
+
+function addAt(document: unknown, segments: string[], value: unknown): unknown {
+  if (segments.length === 0) {
+    return value;
+  }
+
+  const parent = getParent(document, segments);
+  const last = segments[segments.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(parseIndex(last, parent.length, true), 0, value);
+  } else {
+    parent[last] = value;
+  }
+  return document;
+}
+
+function removeAt(document: unknown, segments: string[]): unknown {
+  if (segments.length === 0) {
+    throw new JsonPatchError('Cannot remove the whole document');
+  }
+
+  getAt(document, segments);
+  const parent = getParent(document, segments);
+  const last = segments[segments.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(parseIndex(last, parent.length, false), 1);
+  } else {
+    delete parent[last];
+  }
+  return document;
+}
+
+/**
+ * Replacing the root swaps the document; replacing a member removes it first so arrays do not grow
+ */
+function removeAtForReplace(document: unknown, segments: string[]): unknown {
+  return segments.length === 0 ? document : removeAt(document, segments);
+}
+
+/**
+ * Apply RFC 6902 operations in order. The input document is not modified.
+ * Any failing operation aborts the whole patch.
+ */
+export function applyJsonPatch(document: unknown, operations: JsonPatchOperation[]): unknown {
+  let result = cloneJson(document);
+
+  operations.forEach((operation, index) => {
+    try {
+      const path = parsePointer(operation.path);
+
+      switch (operation.op) {
+        case 'add':
+          result = addAt(result, path, cloneJson(operation.value));
+          break;
+        case 'remove':
+          result = removeAt(result, path);
+          break;
+        case 'replace':
+          getAt(result, path);
+          result = addAt(removeAtForReplace(result, path), path, cloneJson(operation.value));
+          break;
+        case 'move': {
+          const from = parsePointer(operation.from ?? '');
+          if (operation.path.startsWith(`${operation.from}/`)) {
+            throw new JsonPatchError('Cannot move a value into one of its own children');
+          }
+          const value = getAt(result, from);
+          result = addAt(removeAt(result, from), path, value);
+          break;
+        }
+        case 'copy':
+          result = addAt(result, path, cloneJson(getAt(result, parsePointer(operation.from ?? ''))));
+          break;
+        case 'test':
+          if (!jsonEqual(getAt(result, path), operation.value)) {
+            throw new JsonPatchError('Test failed: value does not match');
+          }
+          break;
+        default:
+          throw new JsonPatchError(`Unknown operation '${(operation as any).op}'`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new JsonPatchError(`Operation ${index} (${operation.op} ${operation.path}) failed: ${message}`);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * List the JSON Pointers of the values that differ between two documents.
+ * Objects and arrays are compared member by member; '' denotes the whole document.
+ */
+export function diffJsonPaths(before: unknown, after: unknown, pointer: string = ''): string[] {
+  if (jsonEqual(before, after)) {
+    return [];
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    return keys.flatMap(key => diffJsonPaths(before[key], after[key], `${pointer}/${escapeSegment(key)}`));
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    return Array.from({ length }, (_, index) => diffJsonPaths(before[index], after[index], `${pointer}/${index}`)).flat();
+  }
+
+  return [pointer];
+}
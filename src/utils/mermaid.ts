@@ -0,0 +1,628 @@
+/**
+ * Mermaid diagram validation for project diagrams
+ * Checks flowchart/graph, sequence and class diagrams line by line and reports errors with
+ * 1-based line and column numbers. Other diagram types are recognized but not checked.
+ * Errors caused by common mistakes carry an edit, which fixMermaid applies.
+ */
+
+/**
+ * A problem found in a diagram
+ */
+export interface MermaidDiagnostic {
+  line: number;
+  column: number;
+  message: string;
+  fixable: boolean;
+}
+
+/**
+ * Outcome of validating a diagram
+ */
+export interface MermaidValidationResult {
+  valid: boolean;
+  diagramType: string | null;
+  // False for diagram types that are recognized but whose body is not checked
+  checked: boolean;
+  errors: MermaidDiagnostic[];
+}
+
+/**
+ * Outcome of fixing a diagram
+ */
+export interface MermaidFixResult {
+  diagram: string;
+  fixes: string[];
+}
+
+/**
+ * A replacement in the normalized source text
+ */
+interface MermaidEdit {
+  offset: number;
+  length: number;
+  text: string;
+  description: string;
+}
+
+interface SourceLine {
+  number: number;
+  offset: number;
+  text: string;
+}
+
+/**
+ * Collects diagnostics and the edits that fix them
+ */
+class DiagnosticCollector {
+  readonly errors: MermaidDiagnostic[] = [];
+  readonly edits: MermaidEdit[] = [];
+
+  report(line: SourceLine, column: number, message: string, edit?: Omit<MermaidEdit, 'offset'> & { column: number }): void {
+    this.errors.push({ line: line.number, column: column + 1, message, fixable: edit !== undefined });
+    if (edit) {
+      this.edits.push({ offset: line.offset + edit.column, length: edit.length, text: edit.text, description: `Line ${line.number}: ${edit.description}` });
+    }
+  }
+}
+
+/**
+ * Diagram types that are recognized but not checked
+ */
+const UNCHECKED_DIAGRAM_TYPES = [
+  'stateDiagram', 'stateDiagram-v2', 'erDiagram', 'gantt', 'pie', 'journey', 'gitGraph', 'mindmap', 'timeline',
+  'quadrantChart', 'requirementDiagram', 'C4Context', 'C4Container', 'C4Component', 'C4Dynamic', 'C4Deployment',
+  'sankey-beta', 'xychart-beta', 'block-beta', 'packet-beta', 'architecture-beta', 'kanban', 'zenuml'
+];
+
+const FLOWCHART_DIRECTIONS = ['TB', 'TD', 'BT', 'RL', 'LR'];
+
+/**
+ * Validate a Mermaid diagram
+ */
+export function validateMermaid(source: string): MermaidValidationResult {
+  const { diagramType, checked, collector } = analyzeMermaid(source);
+  const errors = [...collector.errors].sort((a, b) => a.line - b.line || a.column - b.column);
+  return { valid: errors.length === 0, diagramType, checked, errors };
+}
+
+/**
+ * Fix common mistakes (unquoted labels with brackets or parentheses, '->' arrows in flowcharts,
+ * a missing flowchart declaration). Fixing repeats until nothing more can be fixed, since one
+ * fix can reveal the next error on the same line.
+ */
+export function fixMermaid(source: string): MermaidFixResult {
+  let diagram = source.replace(/\r\n?/g, '\n');
+  const fixes: string[] = [];
+
+  for (let pass = 0; pass < 10; pass++) {
+    const edits = analyzeMermaid(diagram).collector.edits.sort((a, b) => b.offset - a.offset);
+    if (edits.length === 0) {
+      break;
+    }
+
+    let lastOffset = Infinity;
+    for (const edit of edits) {
+      // Overlapping edits are left for the next pass
+      if (edit.offset + edit.length > lastOffset) {
+        continue;
+      }
+      diagram = diagram.slice(0, edit.offset) + edit.text + diagram.slice(edit.offset + edit.length);
+      fixes.push(edit.description);
+      lastOffset = edit.offset;
+    }
+  }
+
+  return { diagram, fixes: fixes.reverse() };
+}
+
+/**
+ * Format diagnostics for an error message, one per line
+ */
+export function formatMermaidErrors(errors: MermaidDiagnostic[], limit = 10): string {
+  const lines = errors.slice(0, limit).map(error => `Line ${error.line}, column ${error.column}: ${error.message}`);
+  if (errors.length > limit) {
+    lines.push(`... and ${errors.length - limit} more error(s)`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Find the diagram type and check the body
+ */
+function analyzeMermaid(source: string): { diagramType: string | null; checked: boolean; collector: DiagnosticCollector } {
+  const collector = new DiagnosticCollector();
+  const text = source.replace(/\r\n?/g, '\n');
+  let offset = 0;
+  const lines: SourceLine[] = text.split('\n').map((line, index) => {
+    const sourceLine = { number: index + 1, offset, text: line };
+    offset += line.length + 1;
+    return sourceLine;
+  });
+
+  const isContent = (line: SourceLine) => line.text.trim() !== '' && !line.text.trim().startsWith('%%');
+  let index = lines.findIndex(isContent);
+
+  // Front matter (--- ... ---) holds configuration and is skipped
+  if (index >= 0 && lines[index].text.trim() === '---') {
+    const close = lines.findIndex((line, lineIndex) => lineIndex > index && line.text.trim() === '---');
+    if (close < 0) {
+      collector.report(lines[index], 0, "Front matter is not closed with '---'");
+      return { diagramType: null, checked: true, collector };
+    }
+    index = lines.findIndex((line, lineIndex) => lineIndex > close && isContent(line));
+  }
+
+  if (index < 0) {
+    return { diagramType: null, checked: true, collector };
+  }
+
+  const header = lines[index];
+  const keyword = header.text.trim().split(/[\s;]/)[0];
+  const body = lines.slice(index + 1).filter(isContent);
+
+  if (keyword === 'graph' || keyword === 'flowchart' || keyword === 'flowchart-elk') {
+    checkFlowchart(collector, header, body);
+    return { diagramType: 'flowchart', checked: true, collector };
+  }
+  if (keyword === 'sequenceDiagram') {
+    checkSequenceDiagram(collector, body);
+    return { diagramType: 'sequence', checked: true, collector };
+  }
+  if (keyword === 'classDiagram' || keyword === 'classDiagram-v2') {
+    checkClassDiagram(collector, body);
+    return { diagramType: 'class', checked: true, collector };
+  }
+  if (UNCHECKED_DIAGRAM_TYPES.includes(keyword)) {
+    return { diagramType: keyword, checked: false, collector };
+  }
+
+  const column = header.text.indexOf(keyword);
+  if (/(-->|---|==>|-\.->)/.test(header.text)) {
+    // Edges without a declaration: a flowchart whose first line was left out
+    collector.report(header, column, "Missing diagram type - start the diagram with a declaration such as 'flowchart TD'", {
+      column: 0,
+      length: 0,
+      text: 'flowchart TD\n',
+      description: "added the missing 'flowchart TD' declaration"
+    });
+    checkFlowchart(collector, null, [header, ...body]);
+    return { diagramType: 'flowchart', checked: true, collector };
+  }
+
+  collector.report(header, column, `Unknown diagram type '${keyword}' - expected flowchart, graph, sequenceDiagram, classDiagram or another Mermaid diagram type`);
+  return { diagramType: null, checked: true, collector };
+}
+
+// ---------------------------------------------------------------------------
+// Flowcharts
+// ---------------------------------------------------------------------------
+
+/**
+ * Node shapes by opening delimiter, longest first
+ */
+const NODE_SHAPES: Array<[string, string[]]> = [
+  ['(((', [')))']], ['((', ['))']], ['([', ['])']], ['[[', [']]']], ['[(', [')]']],
+  ['[/', ['/]', '\\]']], ['[\\', ['\\]', '/]']], ['{{', ['}}']],
+  ['(', [')']], ['[', [']']], ['{', ['}']], ['>', [']']]
+];
+
+const NODE_ID_PATTERN = /^[A-Za-z0-9_\u00C0-\uFFFF]+(?:[.-][A-Za-z0-9_\u00C0-\uFFFF]+)*/;
+
+/**
+ * Links without text, e.g. -->, ---, -.->, ==>, <-->, --o, ~~~
+ */
+const LINK_PATTERN = /^(?:<|o|x)?(?:-{2,}>|-{3,}|-{2,}[ox]|={2,}>|={3,}|={2,}[ox]|-\.+->|-\.+-|~{3,})/;
+
+/**
+ * Links with inline text, e.g. -- text -->, == text ==>, -. text .->
+ */
+const TEXT_LINK_PATTERNS = [
+  /^<?--(?![->])\s*(.+?)\s*(?:-{2,}>|-{3,}|-{2,}[ox])/,
+  /^<?==(?![=>])\s*(.+?)\s*(?:={2,}>|={3,}|={2,}[ox])/,
+  /^<?-\.(?![-.])\s*(.+?)\s*(?:\.+->|\.+-)/
+];
+
+/**
+ * Characters that may follow a node's closing delimiter
+ */
+const NODE_CONTINUATION_PATTERN = /^($|\s|:::|&|@|[-=~<])/;
+
+/**
+ * Characters that end an unquoted label early or start a nested shape
+ */
+const UNQUOTED_LABEL_FORBIDDEN = /["()[\]{}]/;
+
+function checkFlowchart(collector: DiagnosticCollector, header: SourceLine | null, body: SourceLine[]): void {
+  const subgraphs: Array<{ line: SourceLine; column: number }> = [];
+  const statements: Array<{ line: SourceLine; column: number; text: string }> = [];
+
+  if (header) {
+    const match = header.text.match(/^(\s*)(\S+?)(?:\s+([^\s;]+))?\s*(;.*)?$/);
+    if (!match) {
+      collector.report(header, 0, 'Invalid flowchart declaration');
+      return;
+    }
+    const direction = match[3];
+    if (direction && !FLOWCHART_DIRECTIONS.includes(direction)) {
+      collector.report(header, header.text.indexOf(direction, match[1].length + match[2].length), `Unknown direction '${direction}' - use TB, TD, BT, RL or LR`);
+    }
+    if (match[4]) {
+      const restColumn = header.text.length - match[4].length + 1;
+      statements.push(...splitStatements(header.text.slice(restColumn)).map(statement => ({ line: header, column: restColumn + statement.column, text: statement.text })));
+    }
+  }
+
+  for (const line of body) {
+    statements.push(...splitStatements(line.text).map(statement => ({ line, ...statement })));
+  }
+
+  for (const statement of statements) {
+    const keyword = statement.text.match(/^(\w+)(?=\s|$)/)?.[1];
+
+    if (keyword === 'subgraph') {
+      if (statement.text === 'subgraph') {
+        collector.report(statement.line, statement.column, "'subgraph' needs an id or a title");
+      }
+      subgraphs.push({ line: statement.line, column: statement.column });
+    } else if (statement.text === 'end') {
+      if (!subgraphs.pop()) {
+        collector.report(statement.line, statement.column, "'end' without an open subgraph");
+      }
+    } else if (keyword === 'direction') {
+      const direction = statement.text.slice('direction'.length).trim();
+      if (!FLOWCHART_DIRECTIONS.includes(direction)) {
+        collector.report(statement.line, statement.column, `Unknown direction '${direction}' - use TB, TD, BT, RL or LR`);
+      }
+    } else if (keyword && ['classDef', 'class', 'style', 'linkStyle', 'click'].includes(keyword)) {
+      if (statement.text === keyword) {
+        collector.report(statement.line, statement.column, `'${keyword}' needs arguments`);
+      }
+    } else if (!/^(accTitle|accDescr|title)\s*[:{]/.test(statement.text)) {
+      checkFlowchartChain(collector, statement.line, statement.column, statement.text);
+    }
+  }
+
+  for (const subgraph of subgraphs) {
+    collector.report(subgraph.line, subgraph.column, "'subgraph' is not closed with 'end'");
+  }
+}
+
+/**
+ * Split a line into ';'-separated statements, ignoring ';' inside quotes and in entity codes like #quot;
+ */
+function splitStatements(text: string): Array<{ column: number; text: string }> {
+  const statements: Array<{ column: number; text: string }> = [];
+  let start = 0;
+  let inQuotes = false;
+
+  const push = (end: number) => {
+    const raw = text.slice(start, end);
+    const trimmed = raw.trim();
+    if (trimmed) {
+      statements.push({ column: start + raw.indexOf(trimmed), text: trimmed });
+    }
+  };
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ';' && !inQuotes && !/#\w+$/.test(text.slice(start, index))) {
+      push(index);
+      start = index + 1;
+    }
+  }
+  push(text.length);
+  return statements;
+}
+
+/**
+ * Check a chain of nodes and links, e.g. A[Start] --> B{Ok?} -->|yes| C & D
+ */
+function checkFlowchartChain(collector: DiagnosticCollector, line: SourceLine, column: number, text: string): void {
+  let position = 0;
+  const skipSpaces = () => {
+    while (position < text.length && /\s/.test(text[position])) {
+      position++;
+    }
+  };
+  const fail = (message: string, at = position, edit?: Omit<MermaidEdit, 'offset'> & { column: number }) => {
+    collector.report(line, column + at, message, edit);
+    return false;
+  };
+
+  const parseNode = (): boolean => {
+    const id = text.slice(position).match(NODE_ID_PATTERN)?.[0];
+    if (!id) {
+      return fail(/^["[({>]/.test(text.slice(position)) ? 'Node shape without a node id' : 'Expected a node id');
+    }
+    if (id === 'end') {
+      return fail("'end' is a reserved word and cannot be used as a node id - use 'End' or another id");
+    }
+    position += id.length;
+
+    const shape = NODE_SHAPES.find(([open]) => text.startsWith(open, position));
+    if (shape && !parseLabel(id, shape[0], shape[1])) {
+      return false;
+    }
+
+    const className = text.slice(position).match(/^:::[\w-]+/)?.[0];
+    position += className?.length || 0;
+
+    // Node metadata, e.g. A@{ shape: rect }
+    if (text.startsWith('@{', position)) {
+      const close = text.indexOf('}', position);
+      if (close < 0) {
+        return fail("Node metadata is not closed with '}'");
+      }
+      position = close + 1;
+    }
+    return true;
+  };
+
+  const parseLabel = (id: string, open: string, closes: string[]): boolean => {
+    const openAt = position;
+    const start = position + open.length;
+    const leading = text.slice(start).match(/^\s*/)![0].length;
+
+    if (text[start + leading] === '"') {
+      const endQuote = text.indexOf('"', start + leading + 1);
+      if (endQuote < 0) {
+        return fail('Quoted label is not closed with \'"\'', start + leading);
+      }
+      position = endQuote + 1;
+      skipSpaces();
+      const close = closes.find(candidate => text.startsWith(candidate, position));
+      if (!close) {
+        return fail(`Expected '${closes[0]}' after the quoted label of node '${id}'`);
+      }
+      position += close.length;
+      return true;
+    }
+
+    const found = findLabelEnd(text, start, closes);
+    if (!found) {
+      // A label starting with '/', '(' etc. is read as a different shape, e.g. A[/api/users]
+      const single = NODE_SHAPES.find(([candidate]) => candidate === open[0]);
+      const fallback = open.length > 1 && single ? findLabelEnd(text, openAt + 1, single[1]) : null;
+      if (fallback && single) {
+        const content = text.slice(openAt + 1, fallback.end);
+        position = fallback.end + fallback.close.length;
+        return fail(`Label of node '${id}' starts with '${content[0]}', which Mermaid reads as a different shape - wrap the label in double quotes`, openAt + 1, {
+          column: column + openAt + 1,
+          length: content.length,
+          text: quoteLabel(content),
+          description: `quoted the label of node '${id}'`
+        });
+      }
+      return fail(`Label of node '${id}' is not closed with '${closes[0]}'`, openAt);
+    }
+
+    const content = text.slice(start, found.end);
+    const forbidden = content.search(UNQUOTED_LABEL_FORBIDDEN);
+    position = found.end + found.close.length;
+    if (forbidden >= 0) {
+      return fail(`Label of node '${id}' contains '${content[forbidden]}' - wrap the label in double quotes, e.g. ${id}${open}"${content.trim()}"${found.close}`, start + forbidden, {
+        column: column + start,
+        length: content.length,
+        text: quoteLabel(content),
+        description: `quoted the label of node '${id}'`
+      });
+    }
+    return true;
+  };
+
+  const parseNodeGroup = (): boolean => {
+    if (!parseNode()) {
+      return false;
+    }
+    skipSpaces();
+    while (text[position] === '&') {
+      position++;
+      skipSpaces();
+      if (!parseNode()) {
+        return false;
+      }
+      skipSpaces();
+    }
+    return true;
+  };
+
+  const parseLink = (): boolean => {
+    const rest = text.slice(position);
+
+    const link = rest.match(LINK_PATTERN)?.[0];
+    if (link) {
+      position += link.length;
+      skipSpaces();
+      if (text[position] === '|') {
+        const close = text.indexOf('|', position + 1);
+        if (close < 0) {
+          return fail("Link text is not closed with '|'");
+        }
+        position = close + 1;
+      }
+      return true;
+    }
+
+    const textLink = TEXT_LINK_PATTERNS.map(pattern => rest.match(pattern)).find(Boolean);
+    if (textLink) {
+      position += textLink[0].length;
+      return true;
+    }
+
+    const arrow = rest.match(/^-+>|^->/)?.[0];
+    if (arrow === '->') {
+      return fail("'->' is not a flowchart link - use '-->'", position, {
+        column: column + position,
+        length: 2,
+        text: '-->',
+        description: "replaced '->' with '-->'"
+      });
+    }
+    return fail("Expected a link such as '-->' between nodes");
+  };
+
+  skipSpaces();
+  if (!parseNodeGroup()) {
+    return;
+  }
+  while (position < text.length) {
+    if (!parseLink()) {
+      return;
+    }
+    skipSpaces();
+    if (position >= text.length) {
+      fail('Link has no target node');
+      return;
+    }
+    if (!parseNodeGroup()) {
+      return;
+    }
+  }
+}
+
+/**
+ * Find the closing delimiter of an unquoted label: the first one followed by something that can follow a node
+ */
+function findLabelEnd(text: string, start: number, closes: string[]): { end: number; close: string } | null {
+  for (let index = start; index < text.length; index++) {
+    for (const close of closes) {
+      if (text.startsWith(close, index) && NODE_CONTINUATION_PATTERN.test(text.slice(index + close.length))) {
+        return { end: index, close };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Quote a label, escaping quotes inside it as Mermaid entity codes
+ */
+function quoteLabel(content: string): string {
+  return `"${content.trim().replace(/"/g, '#quot;')}"`;
+}
+
+// ---------------------------------------------------------------------------
+// Sequence diagrams
+// ---------------------------------------------------------------------------
+
+const SEQUENCE_MESSAGE_PATTERN = /^(.+?)\s*(<<-->>|<<->>|-->>|->>|-->|->|--x|-x|--\)|-\))\s*[+-]?\s*([^:]*?)\s*(:.*)?$/;
+
+/**
+ * Blocks closed by 'end', with the statements allowed to split them
+ */
+const SEQUENCE_BLOCKS: Record<string, string | null> = {
+  loop: null, alt: 'else', opt: null, par: 'and', critical: 'option', break: null, rect: null, box: null
+};
+
+function checkSequenceDiagram(collector: DiagnosticCollector, body: SourceLine[]): void {
+  const blocks: Array<{ kind: string; line: SourceLine; column: number }> = [];
+
+  for (const line of body) {
+    const statement = line.text.trim();
+    const column = line.text.indexOf(statement);
+    const keyword = statement.match(/^\w+/)?.[0] || '';
+
+    if (keyword in SEQUENCE_BLOCKS && (statement === keyword || /^\w+\s/.test(statement))) {
+      blocks.push({ kind: keyword, line, column });
+    } else if (statement === 'end') {
+      if (!blocks.pop()) {
+        collector.report(line, column, "'end' without an open block");
+      }
+    } else if (['else', 'and', 'option'].includes(keyword)) {
+      const block = blocks[blocks.length - 1];
+      if (!block || SEQUENCE_BLOCKS[block.kind] !== keyword) {
+        const owner = Object.keys(SEQUENCE_BLOCKS).find(kind => SEQUENCE_BLOCKS[kind] === keyword);
+        collector.report(line, column, `'${keyword}' is only allowed inside '${owner}'`);
+      }
+    } else if (/^(create\s+)?(participant|actor)\b/.test(statement)) {
+      if (!/^(create\s+)?(participant|actor)\s+\S/.test(statement)) {
+        collector.report(line, column, 'Participant declaration needs a name');
+      }
+    } else if (/^note\b/i.test(statement)) {
+      if (!/^note\s+(left of|right of|over)\s+[^:]+:/i.test(statement)) {
+        collector.report(line, column, "Note must look like 'Note right of A: text' or 'Note over A,B: text'");
+      }
+    } else if (['activate', 'deactivate', 'destroy'].includes(keyword)) {
+      if (statement === keyword) {
+        collector.report(line, column, `'${keyword}' needs a participant`);
+      }
+    } else if (['autonumber', 'title', 'accTitle', 'accDescr', 'link', 'links', 'properties', 'details'].includes(keyword)) {
+      continue;
+    } else {
+      const message = statement.match(SEQUENCE_MESSAGE_PATTERN);
+      if (!message) {
+        collector.report(line, column, 'Unrecognized statement - expected a message (A->>B: text), participant, note or block');
+      } else if (!message[3]) {
+        collector.report(line, column + statement.length, 'Message has no receiving participant');
+      } else if (!message[4]) {
+        collector.report(line, column + statement.length, "Message is missing its text - add ': text' after the receiving participant");
+      }
+    }
+  }
+
+  for (const block of blocks) {
+    collector.report(block.line, block.column, `'${block.kind}' is not closed with 'end'`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Class diagrams
+// ---------------------------------------------------------------------------
+
+const CLASS_NAME = '(?:`[^`]+`|[\\w.-]+(?:~[^~]+~)?)';
+const CLASS_DECLARATION_PATTERN = new RegExp(`^class\\s+${CLASS_NAME}(?:\\["[^"]*"\\])?\\s*(?::::[\\w-]+)?\\s*(\\{)?\\s*$`);
+const CLASS_RELATION_PATTERN = new RegExp(
+  `^${CLASS_NAME}\\s*(?:"[^"]*"\\s*)?(?:<\\||\\*|o|<|\\(\\))?(?:--|\\.\\.)(?:\\|>|\\*|o|>|\\(\\))?\\s*(?:"[^"]*"\\s*)?${CLASS_NAME}\\s*(?::.*)?$`
+);
+const CLASS_MEMBER_PATTERN = new RegExp(`^${CLASS_NAME}\\s*:\\s*\\S`);
+
+function checkClassDiagram(collector: DiagnosticCollector, body: SourceLine[]): void {
+  const scopes: Array<{ kind: 'class' | 'namespace'; line: SourceLine; column: number }> = [];
+
+  for (const line of body) {
+    const statement = line.text.trim();
+    const column = line.text.indexOf(statement);
+    const scope = scopes[scopes.length - 1];
+
+    // Class bodies hold members in free form
+    if (scope?.kind === 'class') {
+      if (statement === '}') {
+        scopes.pop();
+      }
+      continue;
+    }
+
+    if (statement === '}') {
+      if (!scopes.pop()) {
+        collector.report(line, column, "Unexpected '}'");
+      }
+    } else if (/^class\s/.test(statement)) {
+      const declaration = statement.match(CLASS_DECLARATION_PATTERN);
+      if (!declaration) {
+        collector.report(line, column, "Invalid class declaration - class names cannot contain spaces (use `Backticks` for special names)");
+      } else if (declaration[1]) {
+        scopes.push({ kind: 'class', line, column });
+      }
+    } else if (/^namespace\s/.test(statement)) {
+      if (/^namespace\s+[\w.-]+\s*\{\s*$/.test(statement)) {
+        scopes.push({ kind: 'namespace', line, column });
+      } else {
+        collector.report(line, column, "Namespace must look like 'namespace Name {'");
+      }
+    } else if (/^direction\b/.test(statement)) {
+      if (!/^direction\s+(TB|BT|RL|LR)$/.test(statement)) {
+        collector.report(line, column, 'Unknown direction - use TB, BT, RL or LR');
+      }
+    } else if (/^<<[^>]+>>\s*\S/.test(statement) || /^(note|classDef|cssClass|style|link|click|callback|title|accTitle|accDescr)\b/.test(statement)) {
+      continue;
+    } else if (!CLASS_RELATION_PATTERN.test(statement) && !CLASS_MEMBER_PATTERN.test(statement)) {
+      collector.report(line, column, "Unrecognized statement - expected a class, a relation (A <|-- B) or a member (A : +field)");
+    }
+  }
+
+  for (const scope of scopes) {
+    collector.report(scope.line, scope.column, `'${scope.kind}' is not closed with '}'`);
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Shared output schema fragments
+ *
+ * Tools that return the same data build their output schemas from these fragments, so a field that is
+ * renamed or reshaped in one tool fails output validation instead of drifting apart from the others.
+ */
+import { z } from 'zod';
+
+/**
+ * Identifier assigned by the CodeRide API (string or numeric, depending on the entity)
+ */
+export const ApiIdSchema = z.union([z.string(), z.number()]);
+
+/**
+ * Implementation prompt of a task, as returned by get_prompt
+ */
+export const TaskPromptFields = {
+  taskPrompt: z.string().describe("The task's implementation prompt")
+};
+
+/**
+ * Project knowledge and architecture diagram, as returned by get_project
+ */
+export const ProjectContextFields = {
+  projectKnowledge: z.record(z.any()).describe('Structured project knowledge (components, technologies, patterns, ...)'),
+  projectDiagram: z.string().describe('Project architecture diagram in Mermaid syntax')
+};
+
+/**
+ * Project coding standards; sections are described by ProjectStandardsSchema
+ */
+export const ProjectStandardsOutputSchema = z.record(z.any());
+
+/**
+ * Workspace a project belongs to
+ */
+export const WorkspaceRefSchema = z.object({
+  id: z.string(),
+  name: z.string()
+}).strict();
+
+/**
+ * A task blocking another task
+ */
+export const BlockerInfoSchema = z.object({
+  number: z.string(),
+  title: z.string(),
+  status: z.string()
+}).strict();
+
+/**
+ * A task as shown in confirmation previews
+ */
+export const TaskSummarySchema = z.object({
+  number: z.string(),
+  title: z.string().nullish(),
+  status: z.string().nullish(),
+  priority: z.string().nullish()
+}).strict();
+
+/**
+ * Confirmation value issued by a destructive tool's preview
+ */
+export const ConfirmationSchema = z.object({
+  confirm: z.string(),
+  expiresAt: z.string()
+}).strict();
+
+/**
+ * A checklist item of a task
+ */
+export const ChecklistItemSchema = z.object({
+  id: ApiIdSchema,
+  text: z.string(),
+  checked: z.boolean(),
+  position: z.number()
+}).strict();
+
+/**
+ * Completion summary of a checklist
+ */
+export const ChecklistSummarySchema = z.object({
+  total: z.number().int(),
+  checked: z.number().int(),
+  completionPercent: z.number()
+}).strict();
+
+/**
+ * A comment from a task's activity log
+ */
+export const TaskCommentSchema = z.object({
+  id: ApiIdSchema,
+  content: z.string(),
+  createdBy: z.string(),
+  createdAt: z.string()
+}).strict();
+
+/**
+ * Workflow guidance added to every tool result by BaseTool.secureExecute
+ */
+export const AgentInstructionsSchema = z.object({
+  immediateActions: z.array(z.string()),
+  nextRecommendedTools: z.array(z.string()),
+  workflowPhase: z.enum(['discovery', 'context', 'analysis', 'implementation', 'completion'])
+}).passthrough();
@@ -0,0 +1,290 @@
+/**
+ * Markdown export of a project: info, task board, knowledge, diagram and standards
+ * Rendering is deterministic (stable ordering, no timestamps) so exports diff cleanly in git.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { BoardTaskWithColumn, getTaskSequenceNumber, isTaskDone } from './task-board.js';
+import { PROJECT_STANDARDS_SECTIONS } from './project-standards.js';
+
+/**
+ * Name of the marker file identifying a directory written by an export
+ */
+export const EXPORT_MARKER_FILE = '.coderide-export';
+
+/**
+ * Data needed to render an export
+ */
+export interface ProjectExportData {
+  slug: string;
+  name: string;
+  description: string;
+  status: string;
+  knowledge: Record<string, any>;
+  diagram: string;
+  standards: Record<string, any>;
+  tasks: BoardTaskWithColumn[];
+  prompts?: Map<string, string>;
+}
+
+/**
+ * A rendered file, with a path relative to the export directory
+ */
+export interface ExportFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * Outcome of writing an export to disk
+ */
+export interface ExportWriteResult {
+  directory: string;
+  written: string[];
+  unchanged: string[];
+  removed: string[];
+}
+
+/**
+ * Known knowledge sections, rendered first and in this order
+ */
+const KNOWLEDGE_SECTIONS = ['architecture', 'components', 'technologies', 'dependencies', 'patterns', 'notes', 'links', 'metadata'];
+
+/**
+ * Task files written by an export (used to remove files of deleted tasks)
+ */
+const TASK_FILE_PATTERN = /^[A-Z]{3}-\d+\.md$/;
+
+/**
+ * Turn a snake_case or camelCase key into a heading
+ */
+function toHeading(key: string): string {
+  const words = key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * JSON with object keys sorted, for values that have no Markdown shape
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Render a scalar inline
+ */
+function renderScalar(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'object') {
+    return `\`${stableStringify(value)}\``;
+  }
+  return String(value).replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * Render a list item: strings as-is, objects as a bold name followed by their other fields
+ */
+function renderListItem(item: unknown): string {
+  if (item && typeof item === 'object' && !Array.isArray(item)) {
+    const record = item as Record<string, unknown>;
+    const labelKey = ['name', 'rule', 'title'].find(key => record[key] !== undefined);
+    const details = Object.keys(record)
+      .filter(key => key !== labelKey && record[key] !== undefined && record[key] !== '')
+      .sort()
+      .map(key => `${key}: ${renderScalar(record[key])}`);
+    const head = labelKey ? `**${renderScalar(record[labelKey])}**` : '';
+    return `- ${[head, details.join('; ')].filter(Boolean).join(' — ')}`;
+  }
+  return `- ${renderScalar(item)}`;
+}
+
+/**
+ * Render a section value as Markdown lines
+ */
+function renderSectionBody(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return [value.trim() || '_Empty._'];
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.map(renderListItem) : ['_Empty._'];
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const keys = Object.keys(record).sort();
+    return keys.length > 0
+      ? keys.map(key => Array.isArray(record[key])
+          ? `- **${key}:** ${(record[key] as unknown[]).map(renderScalar).join(', ')}`
+          : `- **${key}:** ${renderScalar(record[key])}`)
+      : ['_Empty._'];
+  }
+  return [renderScalar(value)];
+}
+
+/**
+ * Render an object as one second-level section per key, known keys first
+ */
+function renderSections(data: Record<string, any>, knownOrder: readonly string[]): string[] {
+  const keys = [
+    ...knownOrder.filter(key => data[key] !== undefined),
+    ...Object.keys(data).filter(key => !knownOrder.includes(key) && data[key] !== undefined).sort()
+  ];
+
+  return keys.flatMap(key => ['', `## ${toHeading(key)}`, '', ...renderSectionBody(data[key])]);
+}
+
+/**
+ * Escape a value for a Markdown table cell
+ */
+function tableCell(value: string | undefined): string {
+  return (value || '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * Join lines into file content with a single trailing newline
+ */
+function toContent(lines: string[]): string {
+  return `${lines.join('\n').replace(/\n{3,}/g, '\n\n').trim()}\n`;
+}
+
+/**
+ * Render a project into the files of an export bundle
+ */
+export function renderProjectExport(data: ProjectExportData): ExportFile[] {
+  const slug = data.slug.toUpperCase();
+  // Task numbers become file names, so only well-formed numbers are exported
+  const tasks = data.tasks.filter(task => TASK_FILE_PATTERN.test(`${task.number}.md`)).sort((a, b) =>
+    getTaskSequenceNumber(a.number) - getTaskSequenceNumber(b.number) || a.number.localeCompare(b.number)
+  );
+  const statusOf = (task: BoardTaskWithColumn) => task.status || task.columnId || 'unknown';
+  const done = tasks.filter(task => isTaskDone(statusOf(task))).length;
+  const inProgress = tasks.filter(task => statusOf(task) === 'in-progress').length;
+
+  const readme = toContent([
+    `# ${data.name || slug} (${slug})`,
+    '',
+    data.description || '',
+    '',
+    `- **Status:** ${data.status || 'draft'}`,
+    `- **Tasks:** ${tasks.length} (${done} done, ${inProgress} in progress, ${tasks.length - done - inProgress} to do)`,
+    '',
+    '## Contents',
+    '',
+    '- [Knowledge](knowledge.md)',
+    '- [Diagram](diagram.md)',
+    '- [Standards](standards.md)',
+    '',
+    '## Tasks',
+    '',
+    ...(tasks.length > 0
+      ? [
+          '| Task | Title | Status | Priority |',
+          '| --- | --- | --- | --- |',
+          ...tasks.map(task => `| [${task.number}](tasks/${task.number}.md) | ${tableCell(task.title)} | ${tableCell(statusOf(task))} | ${tableCell(task.priority)} |`)
+        ]
+      : ['_No tasks._'])
+  ]);
+
+  const knowledge = toContent([
+    '# Project Knowledge',
+    ...(Object.keys(data.knowledge || {}).length > 0 ? renderSections(data.knowledge, KNOWLEDGE_SECTIONS) : ['', '_No project knowledge yet._'])
+  ]);
+
+  const diagram = toContent([
+    '# Project Diagram',
+    '',
+    ...(data.diagram?.trim() ? ['```mermaid', data.diagram.trim(), '```'] : ['_No project diagram yet._'])
+  ]);
+
+  const standards = toContent([
+    '# Project Standards',
+    ...(Object.keys(data.standards || {}).length > 0 ? renderSections(data.standards, PROJECT_STANDARDS_SECTIONS) : ['', '_No project standards yet._'])
+  ]);
+
+  const taskFiles = tasks.map(task => {
+    const prompt = data.prompts?.get(task.number);
+    return {
+      path: `tasks/${task.number}.md`,
+      content: toContent([
+        `# ${task.number}: ${task.title || ''}`,
+        '',
+        `- **Status:** ${statusOf(task)}`,
+        `- **Priority:** ${task.priority || 'none'}`,
+        `- **Column:** ${task.columnName || task.columnId || ''}`,
+        ...(task.blockedBy && task.blockedBy.length > 0 ? [`- **Blocked by:** ${[...task.blockedBy].sort().join(', ')}`] : []),
+        '',
+        '## Description',
+        '',
+        task.description?.trim() || '_No description._',
+        ...(task.context?.trim() ? ['', '## Context', '', task.context.trim()] : []),
+        ...(task.instructions?.trim() ? ['', '## Instructions', '', task.instructions.trim()] : []),
+        ...(data.prompts ? ['', '## Prompt', '', prompt?.trim() || '_No prompt._'] : [])
+      ])
+    };
+  });
+
+  return [
+    { path: 'README.md', content: readme },
+    { path: 'knowledge.md', content: knowledge },
+    { path: 'diagram.md', content: diagram },
+    { path: 'standards.md', content: standards },
+    ...taskFiles,
+    { path: EXPORT_MARKER_FILE, content: `slug: ${slug}\n` }
+  ];
+}
+
+/**
+ * Write an export bundle. The directory must be new, empty, or hold a previous export of
+ * the same project; task files of tasks that no longer exist are removed and files whose
+ * content is unchanged are not rewritten.
+ */
+export function writeExportBundle(directory: string, slug: string, files: ExportFile[]): ExportWriteResult {
+  const target = path.resolve(directory);
+  const markerPath = path.join(target, EXPORT_MARKER_FILE);
+
+  if (fs.existsSync(target)) {
+    if (!fs.statSync(target).isDirectory()) {
+      throw new Error(`Export path ${target} is not a directory`);
+    }
+    if (fs.readdirSync(target).length > 0) {
+      if (!fs.existsSync(markerPath)) {
+        throw new Error(`Directory ${target} is not empty and does not contain a previous CodeRide export`);
+      }
+      const marker = fs.readFileSync(markerPath, 'utf-8').trim();
+      if (marker !== `slug: ${slug.toUpperCase()}`) {
+        throw new Error(`Directory ${target} contains the export of a different project (${marker})`);
+      }
+    }
+  }
+
+  const result: ExportWriteResult = { directory: target, written: [], unchanged: [], removed: [] };
+  fs.mkdirSync(path.join(target, 'tasks'), { recursive: true });
+
+  const expected = new Set(files.map(file => file.path));
+  for (const entry of fs.readdirSync(path.join(target, 'tasks')).sort()) {
+    const relative = `tasks/${entry}`;
+    if (TASK_FILE_PATTERN.test(entry) && !expected.has(relative)) {
+      fs.unlinkSync(path.join(target, relative));
+      result.removed.push(relative);
+    }
+  }
+
+  for (const file of files) {
+    const filePath = path.join(target, file.path);
+    if (fs.existsSync(filePath) && fs.readFileSync(filePath, 'utf-8') === file.content) {
+      result.unchanged.push(file.path);
+      continue;
+    }
+    fs.writeFileSync(filePath, file.content, 'utf-8');
+    result.written.push(file.path);
+  }
+
+  return result;
+}
@@ -0,0 +1,181 @@
+/**
+ * Local version history of project knowledge and diagrams
+ * update_project appends a snapshot of the stored state before every write, so changes
+ * made by an agent can be reviewed and rolled back. Snapshots are kept in one append-only
+ * JSON Lines file per account and project, in CODERIDE_HISTORY_DIR or ~/.coderide/history by default.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { jsonEqual } from './json-patch.js';
+import { logger } from './logger.js';
+
+/**
+ * Project state captured by a snapshot
+ */
+export interface ProjectState {
+  projectKnowledge: Record<string, any>;
+  projectDiagram: string;
+}
+
+/**
+ * A stored snapshot of a project's knowledge and diagram
+ */
+export interface ProjectSnapshot extends ProjectState {
+  version: number;
+  takenAt: string;
+  reason: string;
+}
+
+/**
+ * A line-level change between two diagrams
+ */
+export interface DiagramLineChange {
+  type: 'added' | 'removed';
+  line: number;
+  text: string;
+}
+
+/**
+ * Directory used when CODERIDE_HISTORY_DIR is not set
+ */
+export function getDefaultHistoryDirectory(): string {
+  return process.env.CODERIDE_HISTORY_DIR || path.join(os.homedir(), '.coderide', 'history');
+}
+
+/**
+ * Pending appends per history file, so concurrent updates do not reuse a version number
+ */
+const pendingAppends = new Map<string, Promise<unknown>>();
+
+/**
+ * Append-only snapshot store backed by one JSON Lines file per project
+ * Files live in a subdirectory per account, because project slugs are only unique within an account
+ */
+export class ProjectHistoryStore {
+  private readonly directory: string;
+
+  constructor(account: string, baseDirectory: string = getDefaultHistoryDirectory()) {
+    if (!/^[A-Za-z0-9_-]+$/.test(account)) {
+      throw new Error('Invalid project history account identifier');
+    }
+    this.directory = path.join(baseDirectory, account);
+  }
+
+  /**
+   * All snapshots of a project, oldest first
+   */
+  async list(slug: string): Promise<ProjectSnapshot[]> {
+    const filePath = this.getFilePath(slug);
+
+    let content: string;
+    try {
+      content = await fs.promises.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const snapshots: ProjectSnapshot[] = [];
+    content.split('\n').forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+      try {
+        snapshots.push(JSON.parse(line) as ProjectSnapshot);
+      } catch {
+        logger.warn(`Skipping unreadable line ${index + 1} in project history ${filePath}`);
+      }
+    });
+    return snapshots;
+  }
+
+  /**
+   * A single snapshot by version number
+   */
+  async get(slug: string, version: number): Promise<ProjectSnapshot | undefined> {
+    const snapshots = await this.list(slug);
+    return snapshots.find(snapshot => snapshot.version === version);
+  }
+
+  /**
+   * Append a snapshot of the given state. When the state matches the latest snapshot,
+   * that snapshot is returned instead of storing a duplicate.
+   */
+  async append(slug: string, state: ProjectState, reason: string): Promise<ProjectSnapshot> {
+    const filePath = this.getFilePath(slug);
+    const previous = pendingAppends.get(filePath) || Promise.resolve();
+
+    const next = previous.catch(() => undefined).then(async () => {
+      const snapshots = await this.list(slug);
+      const latest = snapshots[snapshots.length - 1];
+      if (latest && jsonEqual(latest.projectKnowledge, state.projectKnowledge) && latest.projectDiagram === state.projectDiagram) {
+        return latest;
+      }
+
+      const snapshot: ProjectSnapshot = {
+        version: (latest?.version || 0) + 1,
+        takenAt: new Date().toISOString(),
+        reason,
+        projectKnowledge: state.projectKnowledge,
+        projectDiagram: state.projectDiagram
+      };
+
+      await fs.promises.mkdir(this.directory, { recursive: true, mode: 0o700 });
+      await fs.promises.appendFile(filePath, `${JSON.stringify(snapshot)}\n`, { encoding: 'utf-8', mode: 0o600 });
+      logger.debug(`Stored project history version ${snapshot.version} for ${slug.toUpperCase()}`);
+      return snapshot;
+    });
+
+    pendingAppends.set(filePath, next);
+    try {
+      return await next;
+    } finally {
+      if (pendingAppends.get(filePath) === next) {
+        pendingAppends.delete(filePath);
+      }
+    }
+  }
+
+  private getFilePath(slug: string): string {
+    return path.join(this.directory, `${slug.toUpperCase()}.jsonl`);
+  }
+}
+
+/**
+ * Line diff of two diagrams based on the longest common subsequence.
+ * Line numbers refer to the old diagram for removals and the new diagram for additions.
+ */
+export function diffDiagramLines(before: string, after: string): DiagramLineChange[] {
+  const oldLines = before ? before.split('\n') : [];
+  const newLines = after ? after.split('\n') : [];
+
+  // lengths[i][j] = LCS length of oldLines[i..] and newLines[j..]
+  const lengths: number[][] = Array.from({ length: oldLines.length + 1 }, () => new Array(newLines.length + 1).fill(0));
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lengths[i][j] = oldLines[i] === newLines[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const changes: DiagramLineChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      i++;
+      j++;
+    } else if (j < newLines.length && (i === oldLines.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      changes.push({ type: 'added', line: j + 1, text: newLines[j] });
+      j++;
+    } else {
+      changes.push({ type: 'removed', line: i + 1, text: oldLines[i] });
+      i++;
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,93 @@
+/**
+ * Project standards helpers shared by the standards tools and get_project
+ * Defines the structured standards schema and tracks which sections changed between reads
+ */
+import { z } from 'zod';
+
+/**
+ * Structured schema for project coding standards
+ */
+export const ProjectStandardsSchema = z.object({
+  languages: z.array(
+    z.union([
+      z.string().max(100, "Language name too long"),
+      z.object({
+        name: z.string().max(100, "Language name too long"),
+        version: z.string().max(50, "Language version too long").optional(),
+        notes: z.string().max(500, "Language notes too long").optional(),
+      }).strict()
+    ])
+  ).max(20, "Too many languages").optional(),
+
+  lint_rules: z.array(
+    z.union([
+      z.string().max(300, "Lint rule too long"),
+      z.object({
+        rule: z.string().max(100, "Lint rule name too long"),
+        level: z.enum(['error', 'warn', 'off']).optional(),
+        description: z.string().max(500, "Lint rule description too long").optional(),
+      }).strict()
+    ])
+  ).max(100, "Too many lint rules").optional(),
+
+  naming_conventions: z.record(
+    z.string().max(500, "Naming convention too long")
+  ).refine(value => Object.keys(value).length <= 50, { message: "Too many naming conventions" }).optional(),
+
+  testing_requirements: z.object({
+    framework: z.string().max(100, "Testing framework name too long").optional(),
+    min_coverage: z.number().min(0, "Coverage cannot be negative").max(100, "Coverage cannot exceed 100").optional(),
+    required_for: z.array(z.string().max(200, "Testing requirement too long")).max(30, "Too many testing requirements").optional(),
+    notes: z.string().max(2000, "Testing notes too long").optional(),
+  }).strict().optional(),
+
+  commit_conventions: z.object({
+    style: z.string().max(100, "Commit style too long").optional(),
+    format: z.string().max(300, "Commit format too long").optional(),
+    rules: z.array(z.string().max(300, "Commit rule too long")).max(30, "Too many commit rules").optional(),
+    examples: z.array(z.string().max(300, "Commit example too long")).max(10, "Too many commit examples").optional(),
+  }).strict().optional(),
+
+  notes: z.string().max(5000, "Notes too long").optional(),
+}).strict();
+
+/**
+ * Structured project standards
+ */
+export type ProjectStandards = z.infer<typeof ProjectStandardsSchema>;
+
+/**
+ * Top-level sections of the standards object
+ */
+export const PROJECT_STANDARDS_SECTIONS = Object.keys(ProjectStandardsSchema.shape) as Array<keyof ProjectStandards>;
+
+/**
+ * Names of the top-level sections whose content differs between two standards objects
+ * Sections outside the structured schema are compared as well, so legacy data is not ignored
+ */
+export function getChangedStandardsSections(before: Record<string, any> | undefined, after: Record<string, any> | undefined): string[] {
+  const sections = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  return [...sections]
+    .filter(section => JSON.stringify(before?.[section] ?? null) !== JSON.stringify(after?.[section] ?? null))
+    .sort();
+}
+
+/**
+ * Remembers the standards last returned to the agent, per project slug
+ * One tracker is shared by the tools of a single server, so each session gets its own change signal
+ */
+export class StandardsChangeTracker {
+  private readonly lastSeenStandards = new Map<string, Record<string, any>>();
+
+  /**
+   * Record the standards the agent is about to see and report which sections changed
+   * since they were last seen in this session (empty on the first read)
+   */
+  track(slug: string, standards: Record<string, any> | undefined): string[] {
+    const key = slug.toUpperCase();
+    const previous = this.lastSeenStandards.get(key);
+    this.lastSeenStandards.set(key, standards || {});
+
+    return previous ? getChangedStandardsSections(previous, standards) : [];
+  }
+}
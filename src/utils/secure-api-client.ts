@@ -4,6 +4,7 @@
  * Refactored for Smithery-native configuration with dependency injection
  */
 import axios, { AxiosError, AxiosRequestConfig, AxiosInstance } from 'axios';
+import { createHash } from 'crypto';
 import { logger } from './logger.js';
 import { ApiConfig, validateApiConfig, isProductionMode } from './env.js';
 import { InputValidator, ValidationError, SecurityError } from './input-validator.js';
@@ -23,6 +24,11 @@ export class SecureApiClient {
   private readonly client: AxiosInstance;
   private readonly rateLimitStore = new Map<string, RateLimitEntry>();
   private readonly maxRequestsPerMinute = 100;
+  // Per-bucket limits that differ from maxRequestsPerMinute, see withRateLimit
+  private readonly bucketLimits = new Map<string, number>();
+  // Buckets whose requests wait for the next window instead of failing when the bucket is full
+  private readonly waitingBuckets = new Set<string>();
+  private readonly rateLimitWindowMs = 60 * 1000; // 1 minute window
   private readonly requestTimeout = 90000; // 90 seconds (increased from 30)
   private readonly maxRetries = 3; // Maximum retry attempts
   private readonly baseRetryDelay = 1000; // Base delay for exponential backoff (1 second)
@@ -46,6 +52,14 @@ export class SecureApiClient {
     return isProductionMode(this.config);
   }
 
+  /**
+   * Stable identifier of the account behind the API key, safe to use in file names
+   * Derived from a hash of the key, so the key itself never ends up on disk
+   */
+  getAccountId(): string {
+    return createHash('sha256').update(this.config.CODERIDE_API_KEY).digest('hex').slice(0, 16);
+  }
+
   /**
    * Validate API key format and security
    */
@@ -161,8 +175,8 @@ export class SecureApiClient {
         // Log error with context
         logger.error(`API Error: ${error.message} [${requestId}] ${status} ${error.config?.method?.toUpperCase()} ${endpoint}`);
 
-        // Create secure error response
-        throw this.createSecureError(error);
+        // Create secure error response, keeping the status so callers can tell e.g. a conflict apart
+        throw Object.assign(this.createSecureError(error), { status });
       }
     );
 
@@ -219,8 +233,9 @@ export class SecureApiClient {
     try {
       return await operation();
     } catch (error) {
-      // Don't retry on certain errors
-      if (error instanceof SecurityError || error instanceof ValidationError) {
+      // Don't retry on certain errors, or on client errors that would fail again
+      const status = (error as any)?.status;
+      if (error instanceof SecurityError || error instanceof ValidationError || (status >= 400 && status < 500)) {
         throw error;
       }
 
@@ -254,19 +269,24 @@ export class SecureApiClient {
    */
   private async checkRateLimit(identifier: string = 'global'): Promise<void> {
     const now = Date.now();
-    const windowMs = 60 * 1000; // 1 minute window
     const entry = this.rateLimitStore.get(identifier);
 
     if (!entry || now > entry.resetTime) {
       // Reset or create new entry
       this.rateLimitStore.set(identifier, {
         count: 1,
-        resetTime: now + windowMs
+        resetTime: now + this.rateLimitWindowMs
       });
       return;
     }
 
-    if (entry.count >= this.maxRequestsPerMinute) {
+    if (entry.count >= (this.bucketLimits.get(identifier) ?? this.maxRequestsPerMinute)) {
+      if (this.waitingBuckets.has(identifier)) {
+        logger.debug(`Rate limit reached for ${identifier}, waiting ${entry.resetTime - now}ms for the next window`);
+        await new Promise(resolve => setTimeout(resolve, entry.resetTime - now));
+        return this.checkRateLimit(identifier);
+      }
+
       logger.warn(`Rate limit exceeded for ${identifier}`);
       throw new SecurityError('Rate limit exceeded. Please try again later.');
     }
@@ -276,6 +296,25 @@ export class SecureApiClient {
     this.rateLimitStore.set(identifier, entry);
   }
 
+  /**
+   * A view of this client whose requests count against their own rate limit bucket with its own
+   * limit, e.g. for background polling that must neither use up nor exceed the budget of tool calls.
+   * With waitWhenFull, requests over the limit wait for the next window instead of failing.
+   */
+  withRateLimit(rateLimitId: string, maxRequestsPerMinute: number, options: { waitWhenFull?: boolean } = {}): SecureApiClient {
+    this.bucketLimits.set(rateLimitId, maxRequestsPerMinute);
+    if (options.waitWhenFull) {
+      this.waitingBuckets.add(rateLimitId);
+    }
+
+    const view = Object.create(this) as SecureApiClient;
+    view.get = <T>(endpoint: string, options: { rateLimitId?: string } = {}) => this.get<T>(endpoint, { rateLimitId, ...options });
+    view.post = <T>(endpoint: string, data: any, options: { rateLimitId?: string } = {}) => this.post<T>(endpoint, data, { rateLimitId, ...options });
+    view.put = <T>(endpoint: string, data: any, options: { rateLimitId?: string } = {}) => this.put<T>(endpoint, data, { rateLimitId, ...options });
+    view.delete = <T>(endpoint: string, options: { rateLimitId?: string } = {}) => this.delete<T>(endpoint, { rateLimitId, ...options });
+    return view;
+  }
+
   /**
    * Make a secure GET request
    */
@@ -344,7 +383,7 @@ export class SecureApiClient {
    */
   async delete<T>(endpoint: string, options: { rateLimitId?: string } = {}): Promise<T> {
     // Validate endpoint
-    const validatedEndpoint = InputValidator.validateEndpoint(endpoint);
+    const validatedEndpoint = InputValidator.validateEndpoint(endpoint, 'DELETE');
     
     // Check rate limit
     await this.checkRateLimit(options.rateLimitId);
@@ -420,6 +459,7 @@ export interface TaskApiResponse {
   agent_prompt?: string;
   context?: string;
   instructions?: string;
+  blockedBy?: string[];
   error?: string;
 }
 
@@ -443,6 +483,13 @@ export interface StartProjectApiResponse {
   error?: string;
 }
 
+export interface CreateProjectApiResponse {
+  success?: boolean;
+  message?: string;
+  project?: ProjectApiResponse & { workspace?: any };
+  error?: string;
+}
+
 export interface NextTaskApiResponse {
   id: string;
   number: string;
@@ -498,6 +545,7 @@ export interface TaskListApiResponse {
       position?: number;
       context?: string;
       instructions?: string;
+      blockedBy?: string[];
     }>;
   }>;
   error?: string;
@@ -532,3 +580,84 @@ export interface UpdateTaskApiResponse {
   task?: any;
   error?: string;
 }
+
+export interface CreateTaskApiResponse {
+  id?: string;
+  number?: string;
+  success?: boolean;
+  message?: string;
+  task?: TaskApiResponse;
+  error?: string;
+}
+
+export interface TaskCommentApiResponse {
+  id: string;
+  content: string;
+  created_by?: string;
+  created_at: string;
+}
+
+export interface TaskCommentListApiResponse {
+  comments?: TaskCommentApiResponse[];
+  error?: string;
+}
+
+export interface AddTaskCommentApiResponse {
+  success?: boolean;
+  message?: string;
+  comment?: TaskCommentApiResponse;
+  error?: string;
+}
+
+export interface ChecklistItemApiResponse {
+  id: string;
+  text: string;
+  checked: boolean;
+  position?: number;
+  checked_at?: string | null;
+}
+
+export interface ChecklistApiResponse {
+  items?: ChecklistItemApiResponse[];
+  error?: string;
+}
+
+export interface AddChecklistItemsApiResponse {
+  success?: boolean;
+  message?: string;
+  items?: ChecklistItemApiResponse[];
+  error?: string;
+}
+
+export interface UpdateChecklistItemApiResponse {
+  success?: boolean;
+  message?: string;
+  item?: ChecklistItemApiResponse;
+  error?: string;
+}
+
+export interface TaskSearchApiResponse {
+  results?: Array<TaskApiResponse & { score?: number }>;
+  total?: number;
+  error?: string;
+}
+
+export interface UpdateTaskDependenciesApiResponse {
+  success?: boolean;
+  message?: string;
+  task?: TaskApiResponse;
+  error?: string;
+}
+
+export interface ArchiveTaskApiResponse {
+  success?: boolean;
+  message?: string;
+  task?: TaskApiResponse;
+  error?: string;
+}
+
+export interface DeleteTaskApiResponse {
+  success?: boolean;
+  message?: string;
+  error?: string;
+}
@@ -0,0 +1,97 @@
+/**
+ * Task board helpers shared by tools that work on a project's task board
+ * Wraps the /task/project/slug/:slug endpoint used by list_tasks
+ */
+import { SecureApiClient, TaskListApiResponse } from './secure-api-client.js';
+import { logger } from './logger.js';
+
+/**
+ * A single task as returned inside a board column
+ */
+export type BoardTask = TaskListApiResponse['columns'][number]['tasks'][number];
+
+/**
+ * Board task annotated with the column it was found in
+ */
+export interface BoardTaskWithColumn extends BoardTask {
+  columnId: string;
+  columnName: string;
+}
+
+/**
+ * Extract the numeric sequence part of a task number (e.g., CRD-12 -> 12)
+ * Returns 0 for numbers that do not match the ABC-123 format
+ */
+export function getTaskSequenceNumber(taskNumber: string): number {
+  const match = taskNumber?.toUpperCase().match(/^[A-Z]{3}-(\d+)$/);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+/**
+ * Statuses that count as finished work
+ */
+const DONE_STATUSES = ['done', 'completed'];
+
+/**
+ * Check whether a task status means the task is finished
+ */
+export function isTaskDone(status: string | undefined): boolean {
+  return DONE_STATUSES.includes((status || '').toLowerCase());
+}
+
+/**
+ * Check a task status against a status filter
+ * 'done' also matches the other finished statuses; other statuses are compared case-insensitively
+ */
+export function matchesTaskStatus(taskStatus: string | undefined, status: string): boolean {
+  if (status === 'done') {
+    return isTaskDone(taskStatus);
+  }
+  return (taskStatus || '').toLowerCase() === status;
+}
+
+/**
+ * Sort rank of task priorities (lower ranks first)
+ */
+const PRIORITY_RANK: Record<string, number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Get the sort rank of a priority; unknown priorities sort last
+ */
+export function getTaskPriorityRank(priority: string | undefined): number {
+  return PRIORITY_RANK[(priority || '').toLowerCase()] ?? 3;
+}
+
+/**
+ * Fetch the task board for a project slug
+ */
+export async function fetchTaskBoard(apiClient: SecureApiClient, slug: string): Promise<TaskListApiResponse | null> {
+  const url = `/task/project/slug/${slug.toUpperCase()}`;
+  logger.debug(`Making GET request to: ${url}`);
+
+  const responseData = await apiClient.get<TaskListApiResponse>(url) as unknown as TaskListApiResponse;
+  return responseData || null;
+}
+
+/**
+ * Flatten all board columns into a single task list
+ */
+export function flattenBoardTasks(board: TaskListApiResponse): BoardTaskWithColumn[] {
+  return (board.columns || []).flatMap(column =>
+    (column.tasks || []).map(task => ({
+      ...task,
+      columnId: column.id,
+      columnName: column.name
+    }))
+  );
+}
+
+/**
+ * Compute the next free task number for a project board
+ */
+export function getNextTaskNumber(slug: string, board: TaskListApiResponse | null): string {
+  const highest = board
+    ? flattenBoardTasks(board).reduce((max, task) => Math.max(max, getTaskSequenceNumber(task.number)), 0)
+    : 0;
+  return `${slug.toUpperCase()}-${highest + 1}`;
+}
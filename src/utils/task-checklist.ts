@@ -0,0 +1,64 @@
+/**
+ * Task checklist helpers shared by the checklist tools, get_task and update_task
+ * Wraps the /task/number/:number/checklist endpoint
+ */
+import { SecureApiClient, ChecklistApiResponse, ChecklistItemApiResponse } from './secure-api-client.js';
+import { logger } from './logger.js';
+
+/**
+ * Checklist item shape returned by the tools
+ */
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  checked: boolean;
+  position: number;
+}
+
+/**
+ * Completion summary of a checklist
+ */
+export interface ChecklistSummary {
+  total: number;
+  checked: number;
+  completionPercent: number;
+}
+
+/**
+ * Convert an API checklist item into the tool output shape
+ */
+export function formatChecklistItem(item: ChecklistItemApiResponse, index: number = 0): ChecklistItem {
+  return {
+    id: item.id || '',
+    text: item.text || '',
+    checked: !!item.checked,
+    position: item.position ?? index
+  };
+}
+
+/**
+ * Fetch all checklist items of a task in checklist order
+ */
+export async function fetchTaskChecklist(apiClient: SecureApiClient, taskNumber: string): Promise<ChecklistItem[]> {
+  const url = `/task/number/${taskNumber.toUpperCase()}/checklist`;
+  logger.debug(`Making GET request to: ${url}`);
+
+  const responseData = await apiClient.get<ChecklistApiResponse | ChecklistItemApiResponse[]>(url) as unknown as ChecklistApiResponse | ChecklistItemApiResponse[];
+  const items = Array.isArray(responseData) ? responseData : responseData?.items || [];
+
+  return items
+    .map(formatChecklistItem)
+    .sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Summarize checklist completion (0% for an empty checklist)
+ */
+export function summarizeChecklist(items: ChecklistItem[]): ChecklistSummary {
+  const checked = items.filter(item => item.checked).length;
+  return {
+    total: items.length,
+    checked,
+    completionPercent: items.length > 0 ? Math.round((checked / items.length) * 100) : 0
+  };
+}
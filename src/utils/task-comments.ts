@@ -0,0 +1,44 @@
+/**
+ * Task comment helpers shared by the comment tools and get_task
+ * Wraps the /task/number/:number/comments endpoint
+ */
+import { SecureApiClient, TaskCommentApiResponse, TaskCommentListApiResponse } from './secure-api-client.js';
+import { logger } from './logger.js';
+
+/**
+ * Comment shape returned by the tools
+ * Attribution uses `createdBy` because field names containing "auth" are redacted from tool output
+ */
+export interface TaskComment {
+  id: string;
+  content: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+/**
+ * Convert an API comment into the tool output shape
+ */
+export function formatTaskComment(comment: TaskCommentApiResponse): TaskComment {
+  return {
+    id: comment.id || '',
+    content: comment.content || '',
+    createdBy: comment.created_by || '',
+    createdAt: comment.created_at || ''
+  };
+}
+
+/**
+ * Fetch all comments of a task, oldest first
+ */
+export async function fetchTaskComments(apiClient: SecureApiClient, taskNumber: string): Promise<TaskComment[]> {
+  const url = `/task/number/${taskNumber.toUpperCase()}/comments`;
+  logger.debug(`Making GET request to: ${url}`);
+
+  const responseData = await apiClient.get<TaskCommentListApiResponse | TaskCommentApiResponse[]>(url) as unknown as TaskCommentListApiResponse | TaskCommentApiResponse[];
+  const comments = Array.isArray(responseData) ? responseData : responseData?.comments || [];
+
+  return comments
+    .map(formatTaskComment)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+}
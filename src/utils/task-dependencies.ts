@@ -0,0 +1,116 @@
+/**
+ * Task dependency helpers
+ * Resolves `blockedBy` relationships between tasks for get_task, next_task and set_task_dependencies
+ */
+import { SecureApiClient, TaskApiResponse } from './secure-api-client.js';
+import { BoardTaskWithColumn, isTaskDone } from './task-board.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { logger } from './logger.js';
+
+/**
+ * Maximum number of blocker lookups in flight at once
+ */
+const BLOCKER_FETCH_CONCURRENCY = 4;
+
+/**
+ * Summary of a blocking task
+ */
+export interface BlockerInfo {
+  number: string;
+  title: string;
+  status: string;
+}
+
+/**
+ * Normalize a blockedBy list: uppercase, deduplicated, without self references
+ */
+export function normalizeBlockedBy(taskNumber: string, blockedBy: string[] | undefined): string[] {
+  const self = taskNumber.toUpperCase();
+  return [...new Set((blockedBy || []).map(number => number.toUpperCase()))].filter(number => number !== self);
+}
+
+/**
+ * Look up the status of blocking tasks.
+ * Tasks already known from a board are used directly; the rest are fetched individually.
+ * Blockers that cannot be fetched are reported with status 'unknown' and treated as unresolved.
+ */
+export async function resolveBlockers(
+  apiClient: SecureApiClient,
+  blockerNumbers: string[],
+  knownTasks: Map<string, BlockerInfo> = new Map()
+): Promise<Map<string, BlockerInfo>> {
+  const resolved = new Map<string, BlockerInfo>();
+  const missing: string[] = [];
+
+  for (const number of blockerNumbers) {
+    const known = knownTasks.get(number);
+    if (known) {
+      resolved.set(number, known);
+    } else {
+      missing.push(number);
+    }
+  }
+
+  const fetched = await mapWithConcurrency(missing, BLOCKER_FETCH_CONCURRENCY, async number => {
+    try {
+      const task = await apiClient.get<TaskApiResponse>(`/task/number/${number}`) as unknown as TaskApiResponse;
+      return { number, title: task?.title || '', status: task?.status || 'unknown' };
+    } catch (error) {
+      logger.warn(`Could not resolve blocker ${number}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return { number, title: '', status: 'unknown' };
+    }
+  });
+
+  fetched.forEach(blocker => resolved.set(blocker.number, blocker));
+  return resolved;
+}
+
+/**
+ * Return the blockers that are not finished yet
+ */
+export function getUnresolvedBlockers(blockedBy: string[], blockers: Map<string, BlockerInfo>): BlockerInfo[] {
+  return blockedBy
+    .map(number => blockers.get(number) || { number, title: '', status: 'unknown' })
+    .filter(blocker => !isTaskDone(blocker.status));
+}
+
+/**
+ * Index board tasks by number for blocker resolution
+ */
+export function indexBoardTasks(tasks: BoardTaskWithColumn[]): Map<string, BlockerInfo> {
+  return new Map(tasks.map(task => [
+    task.number.toUpperCase(),
+    { number: task.number.toUpperCase(), title: task.title || '', status: task.status || task.columnId || '' }
+  ]));
+}
+
+/**
+ * Find a dependency cycle that would be introduced by setting `blockedBy` on `taskNumber`.
+ * Only relationships visible on the given board are followed.
+ * Returns the cycle path (e.g., ['CRD-1', 'CRD-3', 'CRD-1']) or null when there is none.
+ */
+export function findDependencyCycle(taskNumber: string, blockedBy: string[], boardTasks: BoardTaskWithColumn[]): string[] | null {
+  const start = taskNumber.toUpperCase();
+  const graph = new Map<string, string[]>(
+    boardTasks.map(task => [task.number.toUpperCase(), normalizeBlockedBy(task.number, task.blockedBy)])
+  );
+  graph.set(start, blockedBy);
+
+  const visit = (number: string, path: string[], seen: Set<string>): string[] | null => {
+    for (const blocker of graph.get(number) || []) {
+      if (blocker === start) {
+        return [...path, blocker];
+      }
+      if (!seen.has(blocker)) {
+        seen.add(blocker);
+        const cycle = visit(blocker, [...path, blocker], seen);
+        if (cycle) {
+          return cycle;
+        }
+      }
+    }
+    return null;
+  };
+
+  return visit(start, [start], new Set([start]));
+}
@@ -0,0 +1,224 @@
+/**
+ * Task plan parsing for import_tasks
+ * A plan is either Markdown (one heading per task) or YAML (a list of task mappings).
+ */
+import { parse as parseYaml, YAMLParseError } from 'yaml';
+
+export class TaskPlanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TaskPlanError';
+  }
+}
+
+/**
+ * A task described by a plan, before it is matched against the board
+ */
+export interface PlannedTask {
+  title: string;
+  description: string;
+  priority: 'low' | 'medium' | 'high';
+  dependencies: string[];
+}
+
+/**
+ * Supported plan formats
+ */
+export type TaskPlanFormat = 'markdown' | 'yaml';
+
+/**
+ * Normalize a task title for matching (case and whitespace insensitive)
+ */
+export function normalizeTaskTitle(title: string): string {
+  return title.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Guess the format of a plan: YAML when the first content line starts a task list, otherwise Markdown
+ */
+export function detectTaskPlanFormat(content: string): TaskPlanFormat {
+  const firstLine = content.split('\n').map(line => line.trim()).find(line => line && !line.startsWith('#')) || '';
+  return /^(tasks\s*:|-\s+["']?title["']?\s*:)/i.test(firstLine) ? 'yaml' : 'markdown';
+}
+
+/**
+ * Parse a plan into tasks, in document order
+ */
+export function parseTaskPlan(content: string, format: TaskPlanFormat = detectTaskPlanFormat(content)): PlannedTask[] {
+  const normalized = content.replace(/\r\n?/g, '\n');
+  const tasks = format === 'yaml' ? parseYamlPlan(normalized) : parseMarkdownPlan(normalized);
+
+  if (tasks.length === 0) {
+    throw new TaskPlanError(format === 'yaml'
+      ? 'The plan contains no tasks - expected a list of tasks with at least a title'
+      : 'The plan contains no tasks - expected one heading (## Title) per task');
+  }
+
+  const seen = new Set<string>();
+  for (const task of tasks) {
+    const key = normalizeTaskTitle(task.title);
+    if (seen.has(key)) {
+      throw new TaskPlanError(`The plan contains the task '${task.title}' more than once`);
+    }
+    seen.add(key);
+  }
+
+  return tasks;
+}
+
+/**
+ * Parse a priority value, defaulting to medium
+ */
+function parsePriority(value: unknown, title: string): PlannedTask['priority'] {
+  if (value === undefined || value === null || value === '') {
+    return 'medium';
+  }
+  const priority = String(value).trim().toLowerCase();
+  if (priority !== 'low' && priority !== 'medium' && priority !== 'high') {
+    throw new TaskPlanError(`Task '${title}' has priority '${value}' - expected low, medium or high`);
+  }
+  return priority;
+}
+
+/**
+ * Split a comma-separated dependency list
+ */
+function splitDependencies(value: string): string[] {
+  return value.split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+// ---------------------------------------------------------------------------
+// Markdown plans
+// ---------------------------------------------------------------------------
+
+/**
+ * Metadata lines directly below a task heading, e.g. "Priority: high" or "- **Depends on:** Setup"
+ */
+const MARKDOWN_FIELD_PATTERN = /^(?:[-*]\s+)?(?:\*\*)?(priority|depends on|dependencies|blocked by)(?:\*\*)?\s*:\s*(?:\*\*)?\s*(.*)$/i;
+
+/**
+ * Tasks are the level-2 headings, or the level-1 headings when the plan has no level-2 headings.
+ * Lines right below a heading may set priority and dependencies; the rest is the description.
+ */
+function parseMarkdownPlan(content: string): PlannedTask[] {
+  const lines = content.split('\n');
+
+  // Headings inside fenced code blocks are not tasks
+  let inFence = false;
+  const headings = lines.map(line => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      return null;
+    }
+    const match = !inFence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    return match ? { level: match[1].length, title: match[2] } : null;
+  });
+
+  const taskLevel = headings.some(heading => heading?.level === 2) ? 2 : 1;
+  const tasks: PlannedTask[] = [];
+
+  for (let index = 0; index < lines.length; index++) {
+    const heading = headings[index];
+    if (!heading || heading.level !== taskLevel) {
+      continue;
+    }
+
+    let end = index + 1;
+    while (end < lines.length && !(headings[end] && headings[end]!.level <= taskLevel)) {
+      end++;
+    }
+
+    const body = lines.slice(index + 1, end);
+    const fields: Record<string, string> = {};
+    let bodyStart = 0;
+    while (bodyStart < body.length) {
+      const line = body[bodyStart].trim();
+      const field = line.match(MARKDOWN_FIELD_PATTERN);
+      if (field) {
+        fields[field[1].toLowerCase()] = field[2].replace(/\*\*/g, '').trim();
+      } else if (line) {
+        break;
+      }
+      bodyStart++;
+    }
+
+    const title = heading.title.trim();
+    const dependencies = fields['depends on'] ?? fields['dependencies'] ?? fields['blocked by'];
+    tasks.push({
+      title,
+      description: body.slice(bodyStart).join('\n').trim(),
+      priority: parsePriority(fields['priority'], title),
+      dependencies: dependencies ? splitDependencies(dependencies) : []
+    });
+    index = end - 1;
+  }
+
+  return tasks;
+}
+
+// ---------------------------------------------------------------------------
+// YAML plans
+// ---------------------------------------------------------------------------
+
+/**
+ * Keys accepted on a YAML task
+ */
+const YAML_TASK_KEYS = ['title', 'description', 'priority', 'dependencies', 'depends_on', 'blocked_by'];
+
+/**
+ * A plan is a list of tasks, or a mapping with a `tasks` list
+ */
+function parseYamlPlan(content: string): PlannedTask[] {
+  let document: unknown;
+  try {
+    document = parseYaml(content);
+  } catch (error) {
+    if (error instanceof YAMLParseError) {
+      const position = error.linePos?.[0];
+      throw new TaskPlanError(`${position ? `Line ${position.line}: ` : ''}invalid YAML - ${error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '')}`);
+    }
+    throw error;
+  }
+
+  const items = Array.isArray(document)
+    ? document
+    : document && typeof document === 'object' && Array.isArray((document as any).tasks)
+      ? (document as any).tasks
+      : null;
+
+  if (!items) {
+    throw new TaskPlanError('A YAML plan must be a list of tasks or have a top-level "tasks" list');
+  }
+
+  return items.map((item: unknown, index: number) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw new TaskPlanError(`Task ${index + 1} must be a mapping with at least a title`);
+    }
+
+    const record = item as Record<string, unknown>;
+    // Plain scalars such as `title: 2024` are read as numbers
+    const title = typeof record.title === 'string' || typeof record.title === 'number' ? String(record.title).trim() : '';
+    if (!title) {
+      throw new TaskPlanError(`Task ${index + 1} has no title`);
+    }
+
+    const unknownKeys = Object.keys(record).filter(key => !YAML_TASK_KEYS.includes(key));
+    if (unknownKeys.length > 0) {
+      throw new TaskPlanError(`Task '${title}' has unsupported field(s): ${unknownKeys.join(', ')}. Supported fields: ${YAML_TASK_KEYS.join(', ')}`);
+    }
+
+    const rawDependencies = record.dependencies ?? record.depends_on ?? record.blocked_by;
+    const dependencies = rawDependencies === undefined || rawDependencies === null
+      ? []
+      : Array.isArray(rawDependencies)
+        ? rawDependencies.map(entry => String(entry).trim()).filter(Boolean)
+        : splitDependencies(String(rawDependencies));
+
+    return {
+      title,
+      description: record.description === undefined || record.description === null ? '' : String(record.description).trim(),
+      priority: parsePriority(record.priority, title),
+      dependencies
+    };
+  });
+}
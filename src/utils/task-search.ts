@@ -0,0 +1,83 @@
+/**
+ * Client-side task text matching and ranking
+ * Used when the API has no search endpoint and for text filters on board data
+ */
+
+/**
+ * Minimal task fields needed for text matching
+ */
+export interface SearchableTask {
+  number: string;
+  title?: string;
+  description?: string;
+}
+
+/**
+ * Split a free-text query into lowercase search terms
+ */
+export function tokenizeQuery(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(/[^a-z0-9-]+/)
+    .filter(term => term.length > 1);
+}
+
+/**
+ * Score how well a task matches a free-text query.
+ * Returns 0 when the task does not match at all.
+ *
+ * Weights: exact task number > full phrase in title > term in title > term in description
+ */
+export function scoreTaskMatch(task: SearchableTask, query: string): number {
+  const phrase = query.trim().toLowerCase();
+  if (!phrase) {
+    return 0;
+  }
+
+  const number = (task.number || '').toLowerCase();
+  const title = (task.title || '').toLowerCase();
+  const description = (task.description || '').toLowerCase();
+
+  let score = 0;
+
+  if (number === phrase) {
+    score += 100;
+  }
+  if (title.includes(phrase)) {
+    score += 20;
+  } else if (description.includes(phrase)) {
+    score += 8;
+  }
+
+  for (const term of tokenizeQuery(phrase)) {
+    if (title.includes(term)) {
+      score += 5;
+    }
+    if (description.includes(term)) {
+      score += 1;
+    }
+  }
+
+  return score;
+}
+
+/**
+ * Build a short snippet of the description around the first matching term
+ */
+export function buildMatchSnippet(description: string | undefined, query: string, radius: number = 60): string {
+  if (!description) {
+    return '';
+  }
+
+  const lower = description.toLowerCase();
+  const terms = [query.trim().toLowerCase(), ...tokenizeQuery(query)];
+  const position = terms.map(term => lower.indexOf(term)).find(index => index >= 0);
+
+  if (position === undefined) {
+    return description.length > radius * 2 ? `${description.slice(0, radius * 2)}…` : description;
+  }
+
+  const start = Math.max(0, position - radius);
+  const end = Math.min(description.length, position + radius);
+  return `${start > 0 ? '…' : ''}${description.slice(start, end)}${end < description.length ? '…' : ''}`;
+}
@@ -0,0 +1,73 @@
+/**
+ * Test-6: Confirmation token verification test
+ * Verifies the tokens that guard destructive tools (delete_task, archive_task)
+ *
+ * This test ensures that:
+ * - An issued token confirms its own action and subject only
+ * - Tokens are single-use
+ * - Expired tokens are rejected
+ * - Issuing a new token replaces the previous one
+ */
+
+import { ConfirmationTokenStore } from '../dist/utils/confirmation-tokens.js';
+
+console.log('Test-6: Confirmation Token Verification\n');
+console.log('=' .repeat(50));
+
+let allTestsPassed = true;
+
+function check(condition, passMessage, failMessage) {
+  if (condition) {
+    console.log(`✓ ${passMessage}`);
+  } else {
+    console.error(`✗ ${failMessage}`);
+    allTestsPassed = false;
+  }
+}
+
+// Test 1: Issued tokens have the documented shape
+console.log('\nTest 6.1: Verifying issued token shape...');
+const store = new ConfirmationTokenStore();
+const issued = store.issue('delete', 'CRD-1');
+check(
+  typeof issued.confirm === 'string' && /^[0-9a-f]{16}$/.test(issued.confirm),
+  'Token is a 16-character hex string',
+  `Unexpected token format: ${issued.confirm}`
+);
+check(
+  !isNaN(Date.parse(issued.expiresAt)) && Date.parse(issued.expiresAt) > Date.now(),
+  'expiresAt is an ISO date in the future',
+  `Unexpected expiresAt: ${issued.expiresAt}`
+);
+
+// Test 2: Tokens are bound to the action and subject
+console.log('\nTest 6.2: Verifying tokens are bound to action and subject...');
+check(!store.consume('archive', 'CRD-1', issued.confirm), 'Token rejected for another action', 'Token accepted for another action');
+check(!store.consume('delete', 'CRD-2', issued.confirm), 'Token rejected for another task', 'Token accepted for another task');
+check(!store.consume('delete', 'CRD-1', 'ffffffffffffffff'), 'Wrong token rejected', 'Wrong token accepted');
+
+// Test 3: Tokens are single-use (and case-insensitive on subject and token)
+console.log('\nTest 6.3: Verifying tokens are single-use...');
+check(store.consume('delete', 'crd-1', issued.confirm.toUpperCase()), 'Token accepted on first use', 'Valid token rejected on first use');
+check(!store.consume('delete', 'CRD-1', issued.confirm), 'Token rejected on second use', 'Token accepted twice');
+
+// Test 4: Expired tokens are rejected
+console.log('\nTest 6.4: Verifying expired tokens are rejected...');
+const shortLived = new ConfirmationTokenStore(20);
+const expiring = shortLived.issue('archive', 'CRD-3');
+await new Promise(resolve => setTimeout(resolve, 50));
+check(!shortLived.consume('archive', 'CRD-3', expiring.confirm), 'Expired token rejected', 'Expired token accepted');
+
+// Test 5: A new token replaces the previous one for the same action and subject
+console.log('\nTest 6.5: Verifying a new preview replaces the previous token...');
+const first = store.issue('archive', 'CRD-4');
+const second = store.issue('archive', 'CRD-4');
+check(!store.consume('archive', 'CRD-4', first.confirm), 'Replaced token rejected', 'Replaced token still accepted');
+check(store.consume('archive', 'CRD-4', second.confirm), 'Latest token accepted', 'Latest token rejected');
+
+console.log('\n' + '='.repeat(50));
+if (!allTestsPassed) {
+  console.error('✗ Some confirmation token tests failed');
+  process.exit(1);
+}
+console.log('✓ All confirmation token tests passed!');
@@ -0,0 +1,100 @@
+/**
+ * Test-10: Export rate limit verification test
+ * Verifies that export_project handles boards with more tasks than the prompt budget
+ *
+ * This test ensures that:
+ * - Prompt requests wait for the next rate limit window instead of failing
+ * - Every task's prompt ends up in the export
+ * - Prompt requests do not use up the global budget of tool calls
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SecureApiClient } from '../dist/utils/secure-api-client.js';
+import { ExportProjectTool, EXPORT_PROMPTS_PER_MINUTE } from '../dist/tools/export-project.js';
+
+console.log('Test-10: Export Rate Limit Verification\n');
+console.log('=' .repeat(50));
+
+let allTestsPassed = true;
+
+function check(condition, passMessage, failMessage) {
+  if (condition) {
+    console.log(`✓ ${passMessage}`);
+  } else {
+    console.error(`✗ ${failMessage}`);
+    allTestsPassed = false;
+  }
+}
+
+// A board larger than both the prompt budget and the global budget of 100 requests per window
+const TASK_COUNT = Math.max(EXPORT_PROMPTS_PER_MINUTE, 100) + 30;
+const tasks = Array.from({ length: TASK_COUNT }, (_, index) => ({
+  number: `EXP-${index + 1}`,
+  title: `Task ${index + 1}`,
+  description: 'Exported task',
+  status: 'to-do',
+  priority: 'medium'
+}));
+
+const apiClient = new SecureApiClient({
+  CODERIDE_API_KEY: 'CR_API_KEY_test',
+  CODERIDE_API_URL: 'https://api.coderide.ai/api'
+});
+
+// Answer requests locally and shorten the rate limit window, so the test does not wait a full minute
+let promptRequests = 0;
+apiClient.client = {
+  get: async (url) => {
+    if (url === '/project/slug/EXP') {
+      return { slug: 'EXP', name: 'Export Project', description: '', projectKnowledge: {}, projectDiagram: '', projectStandards: {} };
+    }
+    if (url === '/task/project/slug/EXP') {
+      return { project: { slug: 'EXP', name: 'Export Project' }, columns: [{ id: 'to-do', name: 'To Do', tasks }] };
+    }
+    const match = url.match(/^\/task\/number\/(EXP-\d+)\/prompt$/);
+    if (match) {
+      promptRequests++;
+      return { taskPrompt: `Prompt for ${match[1]}` };
+    }
+    throw new Error(`Unexpected request: ${url}`);
+  }
+};
+apiClient.rateLimitWindowMs = 200;
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'coderide-export-test-'));
+
+try {
+  // Test 1: The export succeeds although the board exceeds the budget
+  console.log(`\nTest 10.1: Exporting a board of ${TASK_COUNT} tasks with a budget of ${EXPORT_PROMPTS_PER_MINUTE} prompts per window...`);
+  const tool = new ExportProjectTool(apiClient);
+  const result = await tool.execute({ slug: 'EXP', directory });
+
+  check(!result.isError, 'Export succeeded', `Export failed: ${result.content?.[0]?.text}`);
+  check(result.taskCount === TASK_COUNT, `All ${TASK_COUNT} tasks exported`, `Expected ${TASK_COUNT} tasks, got ${result.taskCount}`);
+  check(promptRequests === TASK_COUNT, 'One prompt request per task', `Expected ${TASK_COUNT} prompt requests, got ${promptRequests}`);
+
+  // Test 2: Every prompt is in the export
+  console.log('\nTest 10.2: Verifying the exported prompts...');
+  const missing = tasks.filter(task => {
+    const content = fs.readFileSync(path.join(directory, 'tasks', `${task.number}.md`), 'utf-8');
+    return !content.includes(`Prompt for ${task.number}`);
+  });
+  check(missing.length === 0, 'Every task file contains its prompt', `Prompts missing for ${missing.map(task => task.number).join(', ')}`);
+
+  // Test 3: The global budget only counts the project and board requests
+  console.log('\nTest 10.3: Verifying prompt requests use their own budget...');
+  const globalCount = apiClient.getRateLimitStats().global?.count;
+  check(globalCount === 2, 'Global budget used by 2 requests only', `Global budget used by ${globalCount} requests`);
+} finally {
+  fs.rmSync(directory, { recursive: true, force: true });
+}
+
+console.log('\n' + '='.repeat(50));
+if (!allTestsPassed) {
+  console.error('✗ Some export rate limit tests failed');
+  process.exit(1);
+}
+console.log('✓ All export rate limit tests passed!');
+process.exit(0);
@@ -0,0 +1,84 @@
+/**
+ * Test-12: import_tasks plan validation verification test
+ * Verifies that plan tasks get the same content checks as create_task input
+ *
+ * This test ensures that:
+ * - Markdown syntax in the plan document itself is accepted
+ * - A task title or description with a pattern create_task rejects fails the whole import
+ * - Nothing is created when a task is rejected
+ */
+
+import { ImportTasksTool } from '../dist/tools/import-tasks.js';
+
+console.log('Test-12: import_tasks Plan Validation Verification\n');
+console.log('=' .repeat(50));
+
+let allTestsPassed = true;
+
+function check(condition, passMessage, failMessage) {
+  if (condition) {
+    console.log(`✓ ${passMessage}`);
+  } else {
+    console.error(`✗ ${failMessage}`);
+    allTestsPassed = false;
+  }
+}
+
+// Serves an empty board and records every write
+const writes = [];
+const apiClient = {
+  get: async (url) => {
+    if (url === '/task/project/slug/IMP') {
+      return { project: { slug: 'IMP', name: 'Import Project' }, columns: [{ id: 'to-do', name: 'To Do', tasks: [] }] };
+    }
+    throw new Error(`Unexpected request: ${url}`);
+  },
+  post: async (url, data) => {
+    writes.push(url);
+    return data;
+  },
+  put: async (url, data) => {
+    writes.push(url);
+    return data;
+  }
+};
+
+const tool = new ImportTasksTool(apiClient);
+
+// Test 1: A clean plan passes validation
+console.log('\nTest 12.1: Verifying a clean plan is accepted...');
+const clean = await tool.execute({
+  slug: 'IMP',
+  content: '## Set up database schema\nPriority: high\n\nCreate the users and sessions tables.\n\n## Add login endpoint\nDepends on: Set up database schema\n\nPOST /login returning a session cookie.',
+  dry_run: true
+});
+check(
+  !clean.isError && clean.tasks.length === 2,
+  'Dry run of a clean plan lists 2 tasks',
+  `Clean plan was rejected: ${clean.isError ? clean.content[0].text : JSON.stringify(clean)}`
+);
+
+// Test 2: Rejected patterns inside plan tasks fail the import
+console.log('\nTest 12.2: Verifying rejected patterns inside plan tasks fail...');
+const rejectedPlans = {
+  'script tag in a description': '## Add login page\n\nRender <script>alert(1)</script> on load.',
+  'path traversal in a title': '## Read ../etc/passwd\n\nShow the file.',
+  'SQL injection in a YAML description': 'tasks:\n  - title: Clean up users\n    description: "Run drop table users; then recreate it"'
+};
+for (const [name, content] of Object.entries(rejectedPlans)) {
+  const result = await tool.execute({ slug: 'IMP', content });
+  check(
+    result.isError && /Suspicious content detected/.test(result.content[0].text),
+    `${name} is rejected`,
+    `${name} was not rejected: ${result.isError ? result.content[0].text : JSON.stringify(result)}`
+  );
+}
+check(writes.length === 0, 'Nothing was created for the rejected plans', `Unexpected writes: ${writes.join(', ')}`);
+
+console.log('\n' + '='.repeat(50));
+if (!allTestsPassed) {
+  console.error('✗ Some import_tasks plan validation tests failed');
+  process.exit(1);
+}
+console.log('✓ All import_tasks plan validation tests passed!');
+process.exit(0);
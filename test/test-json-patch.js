@@ -0,0 +1,159 @@
+/**
+ * Test-7: JSON patch verification test
+ * Verifies the knowledge_patch helpers used by update_project
+ *
+ * This test ensures that:
+ * - All RFC 6902 operations (add, remove, replace, move, copy, test) work
+ * - A failing operation aborts the whole patch and leaves the document untouched
+ * - RFC 7386 merge patches merge objects, remove null members and replace arrays
+ * - Paths reaching object prototypes (__proto__, constructor, prototype) are rejected
+ * - diffJsonPaths reports the changed JSON Pointers
+ */
+
+import { applyJsonPatch, applyMergePatch, diffJsonPaths, JsonPatchError } from '../dist/utils/json-patch.js';
+
+console.log('Test-7: JSON Patch Verification\n');
+console.log('=' .repeat(50));
+
+let allTestsPassed = true;
+
+function check(name, actual, expected) {
+  const actualJson = JSON.stringify(actual);
+  const expectedJson = JSON.stringify(expected);
+  if (actualJson === expectedJson) {
+    console.log(`✓ ${name}`);
+  } else {
+    console.error(`✗ ${name}`);
+    console.error(`  Expected: ${expectedJson}`);
+    console.error(`  Actual: ${actualJson}`);
+    allTestsPassed = false;
+  }
+}
+
+function checkRejected(name, fn) {
+  try {
+    fn();
+    console.error(`✗ ${name}: no error thrown`);
+    allTestsPassed = false;
+  } catch (error) {
+    if (error instanceof JsonPatchError) {
+      console.log(`✓ ${name}`);
+    } else {
+      console.error(`✗ ${name}: unexpected error ${error.name}: ${error.message}`);
+      allTestsPassed = false;
+    }
+  }
+}
+
+const knowledge = () => ({
+  components: [{ name: 'API' }, { name: 'Worker' }],
+  technologies: ['TypeScript'],
+  notes: 'Initial notes',
+  metadata: { owner: 'team-a', 'a/b': 1 }
+});
+
+// Test 1: RFC 6902 operations
+console.log('\nTest 7.1: Verifying RFC 6902 operations...');
+check(
+  'add appends to an array with /-',
+  applyJsonPatch(knowledge(), [{ op: 'add', path: '/components/-', value: { name: 'Cache' } }]).components,
+  [{ name: 'API' }, { name: 'Worker' }, { name: 'Cache' }]
+);
+check(
+  'add inserts into an array at an index',
+  applyJsonPatch(knowledge(), [{ op: 'add', path: '/technologies/0', value: 'Node.js' }]).technologies,
+  ['Node.js', 'TypeScript']
+);
+check(
+  'add creates an object member',
+  applyJsonPatch(knowledge(), [{ op: 'add', path: '/architecture', value: 'hexagonal' }]).architecture,
+  'hexagonal'
+);
+check(
+  'remove deletes an array item',
+  applyJsonPatch(knowledge(), [{ op: 'remove', path: '/components/0' }]).components,
+  [{ name: 'Worker' }]
+);
+check(
+  'replace changes a value',
+  applyJsonPatch(knowledge(), [{ op: 'replace', path: '/notes', value: 'Updated' }]).notes,
+  'Updated'
+);
+check(
+  'move relocates a value',
+  applyJsonPatch(knowledge(), [{ op: 'move', from: '/notes', path: '/metadata/notes' }]),
+  { components: [{ name: 'API' }, { name: 'Worker' }], technologies: ['TypeScript'], metadata: { owner: 'team-a', 'a/b': 1, notes: 'Initial notes' } }
+);
+check(
+  'copy duplicates a value',
+  applyJsonPatch(knowledge(), [{ op: 'copy', from: '/components/0', path: '/components/-' }]).components,
+  [{ name: 'API' }, { name: 'Worker' }, { name: 'API' }]
+);
+check(
+  'test passes on an equal value',
+  applyJsonPatch(knowledge(), [{ op: 'test', path: '/metadata/owner', value: 'team-a' }]).metadata.owner,
+  'team-a'
+);
+check(
+  'escaped pointer segments (~1) are resolved',
+  applyJsonPatch(knowledge(), [{ op: 'replace', path: '/metadata/a~1b', value: 2 }]).metadata['a/b'],
+  2
+);
+
+// Test 2: Failing operations abort the patch
+console.log('\nTest 7.2: Verifying failing operations abort the patch...');
+const original = knowledge();
+checkRejected('test with a different value fails', () =>
+  applyJsonPatch(original, [
+    { op: 'replace', path: '/notes', value: 'Changed' },
+    { op: 'test', path: '/metadata/owner', value: 'team-b' }
+  ])
+);
+check('document is unchanged after a failed patch', original, knowledge());
+checkRejected('remove of a missing path fails', () => applyJsonPatch(knowledge(), [{ op: 'remove', path: '/missing' }]));
+checkRejected('out of bounds array index fails', () => applyJsonPatch(knowledge(), [{ op: 'add', path: '/components/5', value: {} }]));
+checkRejected('pointer without leading slash fails', () => applyJsonPatch(knowledge(), [{ op: 'replace', path: 'notes', value: 'x' }]));
+checkRejected('move into own child fails', () => applyJsonPatch(knowledge(), [{ op: 'move', from: '/metadata', path: '/metadata/inner' }]));
+
+// Test 3: RFC 7386 merge patch
+console.log('\nTest 7.3: Verifying RFC 7386 merge patches...');
+check(
+  'merge patch merges, removes null members and replaces arrays',
+  applyMergePatch(knowledge(), { notes: 'Merged', metadata: { owner: null, team: 'core' }, technologies: ['Go'] }),
+  { components: [{ name: 'API' }, { name: 'Worker' }], technologies: ['Go'], notes: 'Merged', metadata: { 'a/b': 1, team: 'core' } }
+);
+
+// Test 4: Prototype paths are blocked
+console.log('\nTest 7.4: Verifying prototype paths are blocked...');
+checkRejected('add to /__proto__/polluted is rejected', () =>
+  applyJsonPatch({}, [{ op: 'add', path: '/__proto__/polluted', value: true }])
+);
+checkRejected('add to /constructor/prototype is rejected', () =>
+  applyJsonPatch({}, [{ op: 'add', path: '/constructor/prototype/polluted', value: true }])
+);
+checkRejected('copy from /__proto__ is rejected', () =>
+  applyJsonPatch({}, [{ op: 'copy', from: '/__proto__', path: '/copy' }])
+);
+checkRejected('merge patch member __proto__ is rejected', () =>
+  applyMergePatch({}, JSON.parse('{"__proto__": {"polluted": true}}'))
+);
+check('Object prototype is not polluted', {}.polluted, undefined);
+
+// Test 5: Changed path reporting
+console.log('\nTest 7.5: Verifying changed path reporting...');
+check(
+  'diffJsonPaths lists added, changed and removed pointers',
+  diffJsonPaths(knowledge(), applyJsonPatch(knowledge(), [
+    { op: 'replace', path: '/notes', value: 'Updated' },
+    { op: 'remove', path: '/metadata/owner' },
+    { op: 'add', path: '/architecture', value: 'layered' }
+  ])).sort(),
+  ['/architecture', '/metadata/owner', '/notes']
+);
+
+console.log('\n' + '='.repeat(50));
+if (!allTestsPassed) {
+  console.error('✗ Some JSON patch tests failed');
+  process.exit(1);
+}
+console.log('✓ All JSON patch tests passed!');
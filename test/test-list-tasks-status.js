@@ -0,0 +1,84 @@
+/**
+ * Test-13: list_tasks status filter verification test
+ * Verifies that the status filter matches board statuses like search_tasks does
+ *
+ * This test ensures that:
+ * - 'done' matches tasks in a 'completed' column and tasks with status 'done'
+ * - Other statuses are compared case-insensitively
+ * - A task without a status is matched by its column
+ */
+
+import { ListTasksTool } from '../dist/tools/list-tasks.js';
+
+console.log('Test-13: list_tasks Status Filter Verification\n');
+console.log('=' .repeat(50));
+
+let allTestsPassed = true;
+
+function check(condition, passMessage, failMessage) {
+  if (condition) {
+    console.log(`✓ ${passMessage}`);
+  } else {
+    console.error(`✗ ${failMessage}`);
+    allTestsPassed = false;
+  }
+}
+
+const board = {
+  id: 'project-1',
+  name: 'Status Project',
+  slug: 'STS',
+  status: 'active',
+  columns: [
+    { id: 'to-do', name: 'To Do', tasks: [{ number: 'STS-1', title: 'Open', status: 'To-Do' }] },
+    { id: 'in-progress', name: 'In Progress', tasks: [{ number: 'STS-2', title: 'Started', status: 'In-Progress' }] },
+    {
+      id: 'completed',
+      name: 'Completed',
+      tasks: [
+        { number: 'STS-3', title: 'Finished', status: 'completed' },
+        { number: 'STS-4', title: 'Finished without a status' }
+      ]
+    },
+    { id: 'done', name: 'Done', tasks: [{ number: 'STS-5', title: 'Done', status: 'done' }] }
+  ]
+};
+
+const apiClient = {
+  get: async (url) => {
+    if (url === '/task/project/slug/STS') {
+      return board;
+    }
+    throw new Error(`Unexpected request: ${url}`);
+  }
+};
+
+const tool = new ListTasksTool(apiClient);
+
+async function listNumbers(status) {
+  const result = await tool.execute({ slug: 'STS', status });
+  if (result.isError) {
+    return result.content[0].text;
+  }
+  return result.tasksByStatus.flatMap(column => column.tasks.map(task => task.number)).join(',');
+}
+
+const expectations = {
+  'done': 'STS-3,STS-4,STS-5',
+  'to-do': 'STS-1',
+  'in-progress': 'STS-2'
+};
+
+console.log('\nTest 13.1: Verifying status filters...');
+for (const [status, expected] of Object.entries(expectations)) {
+  const actual = await listNumbers(status);
+  check(actual === expected, `'${status}' returns ${expected}`, `'${status}' returned ${actual}, expected ${expected}`);
+}
+
+console.log('\n' + '='.repeat(50));
+if (!allTestsPassed) {
+  console.error('✗ Some list_tasks status filter tests failed');
+  process.exit(1);
+}
+console.log('✓ All list_tasks status filter tests passed!');
+process.exit(0);
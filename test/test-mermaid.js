@@ -0,0 +1,110 @@
+/**
+ * Test-8: Mermaid validation verification test
+ * Verifies the project diagram checks used by update_project
+ *
+ * This test ensures that:
+ * - Valid flowchart, sequence and class diagrams pass
+ * - Diagram types that are not checked are accepted
+ * - Broken diagrams are rejected with line and column numbers
+ * - fix_diagram repairs the common mistakes and the result validates
+ * - Errors that cannot be fixed are left untouched
+ */
+
+import { validateMermaid, fixMermaid, formatMermaidErrors } from '../dist/utils/mermaid.js';
+
+console.log('Test-8: Mermaid Validation Verification\n');
+console.log('=' .repeat(50));
+
+let allTestsPassed = true;
+
+function pass(message) {
+  console.log(`✓ ${message}`);
+}
+
+function fail(message, detail) {
+  console.error(`✗ ${message}`);
+  if (detail) {
+    console.error(`  ${detail}`);
+  }
+  allTestsPassed = false;
+}
+
+// Test 1: Valid diagrams
+console.log('\nTest 8.1: Verifying valid diagrams pass...');
+const validDiagrams = {
+  'graph with shapes and link labels': 'graph TD\n  A[Start] --> B{Ok?}\n  B -->|yes| C((Done))',
+  'flowchart with subgraph': 'flowchart LR\n  A --> B\n  subgraph S\n    C --> D\n  end',
+  'sequence diagram': 'sequenceDiagram\n  Alice->>Bob: Hi\n  Bob-->>Alice: Hello',
+  'class diagram': 'classDiagram\n  class Animal {\n    +String name\n  }\n  Animal <|-- Dog'
+};
+for (const [name, diagram] of Object.entries(validDiagrams)) {
+  const result = validateMermaid(diagram);
+  if (result.valid && result.checked) {
+    pass(`${name} is valid`);
+  } else {
+    fail(`${name} was rejected`, formatMermaidErrors(result.errors));
+  }
+}
+
+const unchecked = validateMermaid('erDiagram\n  anything goes here');
+if (unchecked.valid && !unchecked.checked && unchecked.diagramType === 'erDiagram') {
+  pass('erDiagram is recognized and accepted without checks');
+} else {
+  fail('erDiagram handling is wrong', JSON.stringify(unchecked));
+}
+
+// Test 2: Invalid diagrams report line and column
+console.log('\nTest 8.2: Verifying errors carry line and column...');
+const invalidDiagrams = [
+  { name: 'unknown diagram type', diagram: 'notADiagram\n  A', line: 1, column: 1, fixable: false },
+  { name: 'unknown direction', diagram: 'graph XY\n  A --> B', line: 1, column: 7, fixable: false },
+  { name: 'unclosed node label', diagram: 'graph TD\n  A[Open --> B', line: 2, column: 4, fixable: false },
+  { name: 'unclosed subgraph', diagram: 'flowchart TD\n  subgraph S\n  A --> B', line: 2, column: 3, fixable: false },
+  { name: 'sequence message without text', diagram: 'sequenceDiagram\n  Alice->>Bob Hi', line: 2, column: 17, fixable: false },
+  { name: 'parentheses in unquoted label', diagram: 'graph TD\n  A[Call foo()] --> B', line: 2, column: 13, fixable: true },
+  { name: "'->' in a flowchart", diagram: 'graph TD\n  A -> B', line: 2, column: 5, fixable: true },
+  { name: 'missing declaration', diagram: 'A --> B\nB --> C', line: 1, column: 1, fixable: true }
+];
+for (const { name, diagram, line, column, fixable } of invalidDiagrams) {
+  const result = validateMermaid(diagram);
+  const error = result.errors[0];
+  if (!result.valid && error && error.line === line && error.column === column && error.fixable === fixable) {
+    pass(`${name}: line ${line}, column ${column}${fixable ? ' (fixable)' : ''}`);
+  } else {
+    fail(`${name}: expected an error at line ${line}, column ${column}`, JSON.stringify(result.errors));
+  }
+}
+
+// Test 3: fixMermaid repairs the fixable mistakes
+console.log('\nTest 8.3: Verifying fixMermaid repairs common mistakes...');
+const fixCases = [
+  { name: 'quotes labels with parentheses', diagram: 'graph TD\n  A[Call foo()] --> B', expected: 'graph TD\n  A["Call foo()"] --> B' },
+  { name: "replaces '->' with '-->'", diagram: 'graph TD\n  A -> B', expected: 'graph TD\n  A --> B' },
+  { name: 'adds a missing declaration', diagram: 'A --> B\nB --> C', expected: 'flowchart TD\nA --> B\nB --> C' }
+];
+for (const { name, diagram, expected } of fixCases) {
+  const fixed = fixMermaid(diagram);
+  if (fixed.diagram === expected && fixed.fixes.length > 0 && validateMermaid(fixed.diagram).valid) {
+    pass(`${name} (${fixed.fixes.join('; ')})`);
+  } else {
+    fail(`${name}`, `got ${JSON.stringify(fixed)}`);
+  }
+}
+
+// Test 4: Valid diagrams and unfixable errors are left alone
+console.log('\nTest 8.4: Verifying fixMermaid leaves other diagrams untouched...');
+for (const diagram of [validDiagrams['flowchart with subgraph'], 'graph XY\n  A --> B', 'graph TD\n  A[Open --> B']) {
+  const fixed = fixMermaid(diagram);
+  if (fixed.diagram === diagram && fixed.fixes.length === 0) {
+    pass(`unchanged: ${JSON.stringify(diagram.split('\n')[0])}...`);
+  } else {
+    fail(`diagram was changed: ${JSON.stringify(diagram)}`, JSON.stringify(fixed));
+  }
+}
+
+console.log('\n' + '='.repeat(50));
+if (!allTestsPassed) {
+  console.error('✗ Some Mermaid validation tests failed');
+  process.exit(1);
+}
+console.log('✓ All Mermaid validation tests passed!');
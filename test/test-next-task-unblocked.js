@@ -0,0 +1,104 @@
+/**
+ * Test-11: next_task unblocked mode verification test
+ * Verifies which task next_task picks with mode 'unblocked'
+ *
+ * This test ensures that:
+ * - Without a strategy, the lowest-numbered unblocked to-do task is returned,
+ *   even when it comes before the current task
+ * - Done, in-progress and blocked tasks are passed over
+ * - An explicit 'sequence' strategy still starts after the current task
+ */
+
+import { NextTaskTool } from '../dist/tools/next-task.js';
+
+console.log('Test-11: next_task Unblocked Mode Verification\n');
+console.log('=' .repeat(50));
+
+let allTestsPassed = true;
+
+function check(condition, passMessage, failMessage) {
+  if (condition) {
+    console.log(`✓ ${passMessage}`);
+  } else {
+    console.error(`✗ ${failMessage}`);
+    allTestsPassed = false;
+  }
+}
+
+const board = {
+  project: { slug: 'NXT', name: 'Next Task Project' },
+  columns: [
+    {
+      id: 'to-do',
+      name: 'To Do',
+      tasks: [
+        { number: 'NXT-2', title: 'Blocked by NXT-6', status: 'to-do', blockedBy: ['NXT-6'] },
+        { number: 'NXT-3', title: 'Unblocked', status: 'to-do' },
+        { number: 'NXT-5', title: 'Unblocked after the current task', status: 'to-do' },
+        { number: 'NXT-6', title: 'Blocker', status: 'to-do' }
+      ]
+    },
+    {
+      id: 'in-progress',
+      name: 'In Progress',
+      tasks: [
+        { number: 'NXT-4', title: 'Current task', status: 'in-progress' }
+      ]
+    },
+    {
+      id: 'completed',
+      name: 'Completed',
+      tasks: [
+        { number: 'NXT-1', title: 'Finished', status: 'completed' }
+      ]
+    }
+  ]
+};
+
+// Serves the board; any other request means a blocker was looked up that the board already knows
+const apiClient = {
+  get: async (url) => {
+    if (url === '/task/project/slug/NXT') {
+      return board;
+    }
+    throw new Error(`Unexpected request: ${url}`);
+  }
+};
+
+const tool = new NextTaskTool(apiClient);
+
+// Test 1: No strategy picks the lowest-numbered unblocked to-do task
+console.log('\nTest 11.1: Verifying mode unblocked without a strategy...');
+const lowest = await tool.execute({ number: 'NXT-4', mode: 'unblocked' });
+check(
+  !lowest.isError && lowest.nextTask.number === 'NXT-3',
+  'NXT-3 is returned as the lowest-numbered unblocked to-do task',
+  `Expected NXT-3, got ${lowest.isError ? lowest.content[0].text : lowest.nextTask.number}`
+);
+check(
+  !lowest.isError && JSON.stringify(lowest.sequenceInfo.skippedBlocked) === JSON.stringify([{ number: 'NXT-2', blockedBy: ['NXT-6'] }]),
+  'NXT-2 is reported as skipped because NXT-6 blocks it',
+  `Unexpected skippedBlocked: ${JSON.stringify(lowest.sequenceInfo?.skippedBlocked)}`
+);
+check(
+  !lowest.isError && lowest.sequenceInfo.reason.startsWith('Lowest-numbered to-do task') && !lowest.sequenceInfo.reason.includes('wrapped around'),
+  'Reason names the lowest-numbered ordering',
+  `Unexpected reason: ${lowest.sequenceInfo?.reason}`
+);
+
+// Test 2: An explicit sequence strategy starts after the current task
+console.log('\nTest 11.2: Verifying mode unblocked with the sequence strategy...');
+const sequence = await tool.execute({ number: 'NXT-4', mode: 'unblocked', strategy: 'sequence' });
+check(
+  !sequence.isError && sequence.nextTask.number === 'NXT-5',
+  'NXT-5 is returned as the first unblocked to-do task after NXT-4',
+  `Expected NXT-5, got ${sequence.isError ? sequence.content[0].text : sequence.nextTask.number}`
+);
+
+console.log('\n' + '='.repeat(50));
+if (!allTestsPassed) {
+  console.error('✗ Some next_task unblocked mode tests failed');
+  process.exit(1);
+}
+console.log('✓ All next_task unblocked mode tests passed!');
+process.exit(0);
@@ -0,0 +1,206 @@
+/**
+ * Test-9: Output schema verification test
+ * Verifies that tool results match the outputSchema each tool declares
+ *
+ * This test ensures that:
+ * - Every tool declares an object outputSchema
+ * - The mock server lists the same outputSchema as the real tools
+ * - Every mock tool returns structuredContent that matches the real tool's schema,
+ *   so clients developing against the mock see the production shapes
+ */
+
+import { GetTaskTool } from '../dist/tools/get-task.js';
+import { UpdateTaskTool } from '../dist/tools/update-task.js';
+import { GetProjectTool } from '../dist/tools/get-project.js';
+import { UpdateProjectTool } from '../dist/tools/update-project.js';
+import { GetPromptTool } from '../dist/tools/get-prompt.js';
+import { StartProjectTool } from '../dist/tools/start-project.js';
+import { ListProjectsTool } from '../dist/tools/list-projects.js';
+import { ListTasksTool } from '../dist/tools/list-tasks.js';
+import { NextTaskTool } from '../dist/tools/next-task.js';
+import { CreateTaskTool } from '../dist/tools/create-task.js';
+import { AddTaskCommentTool } from '../dist/tools/add-task-comment.js';
+import { ListTaskCommentsTool } from '../dist/tools/list-task-comments.js';
+import { SearchTasksTool } from '../dist/tools/search-tasks.js';
+import { BulkUpdateTasksTool } from '../dist/tools/bulk-update-tasks.js';
+import { SetTaskDependenciesTool } from '../dist/tools/set-task-dependencies.js';
+import { ArchiveTaskTool } from '../dist/tools/archive-task.js';
+import { DeleteTaskTool } from '../dist/tools/delete-task.js';
+import { AddChecklistItemsTool } from '../dist/tools/add-checklist-items.js';
+import { TickChecklistItemTool } from '../dist/tools/tick-checklist-item.js';
+import { ListChecklistTool } from '../dist/tools/list-checklist.js';
+import { CreateProjectTool } from '../dist/tools/create-project.js';
+import { GetProjectStandardsTool } from '../dist/tools/get-project-standards.js';
+import { UpdateProjectStandardsTool } from '../dist/tools/update-project-standards.js';
+import { ProjectProgressTool } from '../dist/tools/project-progress.js';
+import { ListProjectVersionsTool } from '../dist/tools/list-project-versions.js';
+import { DiffProjectVersionsTool } from '../dist/tools/diff-project-versions.js';
+import { RestoreProjectVersionTool } from '../dist/tools/restore-project-version.js';
+import { ExportProjectTool } from '../dist/tools/export-project.js';
+import { ImportTasksTool } from '../dist/tools/import-tasks.js';
+import { GetWorkContextTool } from '../dist/tools/get-work-context.js';
+import createServer from '../dist/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+console.log('Test-9: Output Schema Verification\n');
+console.log('=' .repeat(50));
+
+const tools = [
+  new GetTaskTool(),
+  new UpdateTaskTool(),
+  new GetProjectTool(),
+  new UpdateProjectTool(),
+  new GetPromptTool(),
+  new StartProjectTool(),
+  new ListProjectsTool(),
+  new ListTasksTool(),
+  new NextTaskTool(),
+  new CreateTaskTool(),
+  new AddTaskCommentTool(),
+  new ListTaskCommentsTool(),
+  new SearchTasksTool(),
+  new BulkUpdateTasksTool(),
+  new SetTaskDependenciesTool(),
+  new ArchiveTaskTool(),
+  new DeleteTaskTool(),
+  new AddChecklistItemsTool(),
+  new TickChecklistItemTool(),
+  new ListChecklistTool(),
+  new CreateProjectTool(),
+  new GetProjectStandardsTool(),
+  new UpdateProjectStandardsTool(),
+  new ProjectProgressTool(),
+  new ListProjectVersionsTool(),
+  new DiffProjectVersionsTool(),
+  new RestoreProjectVersionTool(),
+  new ExportProjectTool(),
+  new ImportTasksTool(),
+  new GetWorkContextTool()
+];
+
+// Arguments used to call each mock tool
+const SAMPLE_ARGUMENTS = {
+  start_project: { slug: 'CRD' },
+  get_prompt: { number: 'CRD-1' },
+  get_task: { number: 'CRD-1' },
+  get_project: { slug: 'CRD' },
+  update_task: { number: 'CRD-1', status: 'in-progress' },
+  update_project: { slug: 'CRD', project_diagram: 'graph TD\n  A --> B' },
+  list_projects: {},
+  list_tasks: { slug: 'CRD' },
+  next_task: { number: 'CRD-1' },
+  create_task: { slug: 'CRD', title: 'Follow-up', description: 'Follow-up work', priority: 'medium' },
+  add_task_comment: { number: 'CRD-1', comment: 'Progress note' },
+  list_task_comments: { number: 'CRD-1' },
+  search_tasks: { query: 'login' },
+  bulk_update_tasks: { items: [{ number: 'CRD-1', status: 'done' }, { number: 'CRD-2' }] },
+  set_task_dependencies: { number: 'CRD-2', blocked_by: ['CRD-1'] },
+  archive_task: { number: 'CRD-1' },
+  delete_task: { number: 'CRD-1' },
+  add_checklist_items: { number: 'CRD-1', items: ['First step', 'Second step'] },
+  tick_checklist_item: { number: 'CRD-1', item_id: 'item-1' },
+  list_checklist: { number: 'CRD-1' },
+  create_project: { name: 'New Project', slug: 'NEW' },
+  get_project_standards: { slug: 'CRD' },
+  update_project_standards: { slug: 'CRD', standards: { codeStyle: { indentation: '2 spaces' } } },
+  project_progress: { slug: 'CRD' },
+  list_project_versions: { slug: 'CRD' },
+  diff_project_versions: { slug: 'CRD', from: 1 },
+  restore_project_version: { slug: 'CRD', version: 1 },
+  export_project: { slug: 'CRD' },
+  import_tasks: { slug: 'CRD', content: '## Set up CI' },
+  get_work_context: { number: 'CRD-1' }
+};
+
+let allTestsPassed = true;
+
+// Test 1: Every tool declares an object outputSchema
+console.log('\nTest 9.1: Verifying every tool declares an outputSchema...');
+for (const tool of tools) {
+  const { outputSchema } = tool.getMCPToolDefinition();
+  if (!outputSchema || outputSchema.type !== 'object' || typeof outputSchema.properties !== 'object') {
+    console.error(`✗ ${tool.name}: missing or non-object outputSchema`);
+    allTestsPassed = false;
+  }
+}
+if (allTestsPassed) {
+  console.log(`✓ All ${tools.length} tools declare an object outputSchema`);
+}
+
+// Connect a client to the mock server (no API key)
+const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+const client = new Client({ name: 'output-schema-test', version: '1.0.0' });
+await createServer().connect(serverTransport);
+await client.connect(clientTransport);
+const { tools: mockTools } = await client.listTools();
+
+// Test 2: The mock server lists the real output schemas
+console.log('\nTest 9.2: Verifying the mock server lists the real output schemas...');
+let listErrors = false;
+for (const tool of tools) {
+  const mockTool = mockTools.find(entry => entry.name === tool.name);
+  if (!mockTool) {
+    console.error(`✗ ${tool.name}: not listed by the mock server`);
+    listErrors = true;
+  } else if (JSON.stringify(mockTool.outputSchema) !== JSON.stringify(tool.getMCPToolDefinition().outputSchema)) {
+    console.error(`✗ ${tool.name}: mock outputSchema differs from the tool's outputSchema`);
+    listErrors = true;
+  }
+}
+if (listErrors) {
+  allTestsPassed = false;
+} else {
+  console.log(`✓ Mock server lists the outputSchema of all ${tools.length} tools`);
+}
+
+// Test 3: Mock results match the real output schemas
+console.log('\nTest 9.3: Verifying mock results match the output schemas...');
+for (const tool of tools) {
+  const args = SAMPLE_ARGUMENTS[tool.name];
+  if (!args) {
+    console.error(`✗ ${tool.name}: no sample arguments in this test`);
+    allTestsPassed = false;
+    continue;
+  }
+
+  try {
+    const result = await client.callTool({ name: tool.name, arguments: args });
+    if (result.isError) {
+      console.error(`✗ ${tool.name}: mock returned an error: ${result.content?.[0]?.text}`);
+      allTestsPassed = false;
+      continue;
+    }
+    if (!result.structuredContent || JSON.stringify(result.structuredContent) !== result.content?.[0]?.text) {
+      console.error(`✗ ${tool.name}: structuredContent missing or different from the text content`);
+      allTestsPassed = false;
+      continue;
+    }
+
+    const parsed = tool.outputSchema.safeParse(result.structuredContent);
+    if (parsed.success) {
+      console.log(`✓ ${tool.name}`);
+    } else {
+      console.error(`✗ ${tool.name}: result does not match outputSchema`);
+      for (const issue of parsed.error.errors) {
+        console.error(`  /${issue.path.join('/')}: ${issue.message}`);
+      }
+      allTestsPassed = false;
+    }
+  } catch (error) {
+    console.error(`✗ ${tool.name}: call failed: ${error.message}`);
+    allTestsPassed = false;
+  }
+}
+
+await client.close();
+
+console.log('\n' + '='.repeat(50));
+if (!allTestsPassed) {
+  console.error('✗ Some output schema tests failed');
+  process.exit(1);
+}
+console.log('✓ All output schema tests passed!');
+
+// The token security manager keeps a cleanup timer running
+process.exit(0);